@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTenantBySlug } from '@/lib/site/tenants'
+import { serveSite, siteNotFound } from '@/lib/site/serve'
+import { logger } from '@/lib/utils/logger'
+
+interface RouteContext {
+  params: Promise<{ tenantSlug: string; path?: string[] }>
+}
+
+// GET /{tenantSlug}/{path} - Serve a tenant's published site
+// Also reached through middleware rewrites for {slug} subdomains
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { tenantSlug, path = [] } = await params
+    
+    const tenant = await getTenantBySlug(tenantSlug)
+    if (!tenant) {
+      return siteNotFound()
+    }
+
+    // Keep the trailing slash so folder URLs resolve to their index.html
+    const requestPath = path.join('/') + (request.nextUrl.pathname.endsWith('/') && path.length > 0 ? '/' : '')
+    
+    // Subdomain requests are served from the root of their own host
+    const siteRoot = request.headers.get('x-site-host') ? '/' : `/${tenantSlug}/`
+
+    return await serveSite(request, tenant.id, requestPath, siteRoot)
+  } catch (error) {
+    logger.error('Serve site error:', error)
+    return new NextResponse('Internal server error', {
+      status: 500,
+      headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store' }
+    })
+  }
+}
+
+export async function HEAD(request: NextRequest, context: RouteContext) {
+  const response = await GET(request, context)
+  return new NextResponse(null, { status: response.status, headers: response.headers })
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import Anthropic from '@anthropic-ai/sdk'
-import { simpleTools, executeSimpleTool } from '@/lib/ai/simple-tools'
+import { SafeStorage } from '@/lib/kv/chat-storage'
+import { runToolLoop, resolveMaxSteps } from '@/lib/ai/tool-loop'
+import { createOperation } from '@/lib/ai/operation-log'
 import { buildContextualPrompt } from '@/lib/ai/system-prompt'
 import { requireProxyAuth } from '@/lib/auth/proxy-auth'
+import { withPermission, getRequestFolderAccess } from '@/lib/auth/permissions'
+import { getAuditActor } from '@/lib/files/audit'
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY!,
@@ -10,13 +14,13 @@ const anthropic = new Anthropic({
 
 export const maxDuration = 60 // 60 second timeout for Vercel
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('write', async (request: NextRequest) => {
   try {
     // Validate proxy authentication
     const auth = requireProxyAuth(request)
     const { tenantId } = auth
     
-    const { message, currentFolder, selectedFile, sessionId, conversationHistory } = await request.json()
+    const { message, currentFolder, selectedFile, sessionId, conversationHistory, maxSteps, messageId } = await request.json()
     
     if (!message) {
       return NextResponse.json({ error: 'Message is required' }, { status: 400 })
@@ -39,43 +43,38 @@ export async function POST(request: NextRequest) {
     
     // Add current message
     messages.push({ role: 'user', content: message })
+
+    // Operations are kept per page like in the page chat: the selected file, else the folder
+    const pageId = selectedFile?.type === 'file' ? selectedFile.path : currentFolder || 'root'
+    const assistantMessageId = messageId || `msg-${Date.now()}`
     
-    // Call Claude with contextual prompt and conversation history
-    const response = await anthropic.messages.create({
+    // Run Claude with tools until it finishes, feeding tool results back each step
+    const result = await runToolLoop({
+      anthropic,
       model: 'claude-opus-4-1-20250805',
-      max_tokens: 4096,
       system: buildContextualPrompt(currentFolder, selectedFile),
       messages,
-      tools: simpleTools as any
-    })
-
-    // Process the response
-    const toolResults = []
-    let assistantMessage = ''
-
-    for (const block of response.content) {
-      if (block.type === 'text') {
-        assistantMessage += block.text
-      } else if (block.type === 'tool_use') {
-        // Execute the tool
-        const result = await executeSimpleTool(
-          block.name,
-          block.input,
-          tenantId,
-          currentFolder
-        )
-        
-        toolResults.push({
-          tool: block.name,
-          input: block.input,
-          result
-        })
+      tenantId,
+      currentFolder,
+      maxSteps: resolveMaxSteps(maxSteps),
+      folderAccess: await getRequestFolderAccess(request, tenantId),
+      auditActor: getAuditActor(request),
+      onToolExecuted: async (execution, snapshots) => {
+        // Track a revertible operation for every file change
+        const operation = createOperation(execution.tool, execution.input, execution.result, snapshots, assistantMessageId)
+        if (operation) {
+          await SafeStorage.addOperation(tenantId, pageId, operation)
+        }
       }
-    }
+    })
 
     return NextResponse.json({
-      message: assistantMessage,
-      tools: toolResults
+      messageId: assistantMessageId,
+      message: result.message,
+      tools: result.tools,
+      transcript: result.transcript,
+      steps: result.steps,
+      stopReason: result.stopReason
     })
 
   } catch (error) {
@@ -85,4 +84,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
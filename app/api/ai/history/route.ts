@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { SafeStorage } from '@/lib/kv/chat-storage'
 import { requireProxyAuth } from '@/lib/auth/proxy-auth'
+import { withPermission } from '@/lib/auth/permissions'
 
 // GET /api/ai/history - Get chat history for a page
-export async function GET(request: NextRequest) {
+export const GET = withPermission('read', async (request: NextRequest) => {
   try {
     // Validate proxy authentication
     const auth = requireProxyAuth(request)
@@ -29,10 +30,10 @@ export async function GET(request: NextRequest) {
     console.error('History fetch error:', error)
     return NextResponse.json({ error: 'Failed to fetch history' }, { status: 500 })
   }
-}
+})
 
 // POST /api/ai/history - Save a message
-export async function POST(request: NextRequest) {
+export const POST = withPermission('write', async (request: NextRequest) => {
   try {
     // Validate proxy authentication
     const auth = requireProxyAuth(request)
@@ -55,10 +56,10 @@ export async function POST(request: NextRequest) {
     console.error('Save message error:', error)
     return NextResponse.json({ error: 'Failed to save message' }, { status: 500 })
   }
-}
+})
 
 // DELETE /api/ai/history - Clear history for a page
-export async function DELETE(request: NextRequest) {
+export const DELETE = withPermission('write', async (request: NextRequest) => {
   try {
     // Validate proxy authentication
     const auth = requireProxyAuth(request)
@@ -79,4 +80,4 @@ export async function DELETE(request: NextRequest) {
     console.error('Clear history error:', error)
     return NextResponse.json({ error: 'Failed to clear history' }, { status: 500 })
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
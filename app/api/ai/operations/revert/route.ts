@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Storage } from '@/lib/kv/chat-storage'
+import { revertOperation, revertPaths, RevertConflictError } from '@/lib/ai/operation-log'
+import { TrashConflictError } from '@/lib/files/trash'
+import { requireProxyAuth } from '@/lib/auth/proxy-auth'
+import { withPermission, checkFolderAccess } from '@/lib/auth/permissions'
+import { recordAudit, getAuditActor } from '@/lib/files/audit'
+
+// POST /api/ai/operations/revert - Undo AI file operations for a page
+// Reverts a single operation (operationId) or every operation made by one assistant message (messageId)
+// Files edited again since the AI changed them are left alone and answered with 409
+export const POST = withPermission('write', async (request: NextRequest) => {
+  try {
+    // Validate proxy authentication
+    const auth = requireProxyAuth(request)
+    const { tenantId } = auth
+    
+    const { pageId, messageId, operationId } = await request.json()
+    
+    if (!pageId || (!messageId && !operationId)) {
+      return NextResponse.json({ error: 'Page ID and a message or operation ID are required' }, { status: 400 })
+    }
+    
+    const operations = await Storage.getOperations(tenantId, pageId)
+    
+    // Newest first, so later changes are undone before the ones they built on
+    const targets = operations
+      .filter(op => !op.revertedAt && (op.id === operationId || (messageId && op.messageId === messageId)))
+      .reverse()
+    
+    if (targets.length === 0) {
+      return NextResponse.json({ error: 'No revertible operations found' }, { status: 404 })
+    }
+    
+    // Every file any of the operations would restore must be writable for this user
+    const paths: string[] = []
+    for (const operation of targets) {
+      paths.push(...await revertPaths(tenantId, operation))
+    }
+    const denied = await checkFolderAccess(request, tenantId, paths, 'write')
+    if (denied) {
+      return denied
+    }
+    
+    const reverted: string[] = []
+    const files = new Set<string>()
+    
+    try {
+      for (const operation of targets) {
+        const restored = await revertOperation(tenantId, operation)
+        restored.forEach(pathname => files.add(pathname.replace(`${tenantId}/`, '')))
+        operation.revertedAt = new Date()
+        reverted.push(operation.id)
+      }
+    } finally {
+      // Persist whatever was reverted, even if a later operation failed
+      await Storage.saveOperations(tenantId, pageId, operations)
+      if (reverted.length > 0) {
+        await recordAudit(tenantId, getAuditActor(request), {
+          action: 'ai.revert',
+          paths: [...files],
+          details: { pageId, reverted }
+        })
+      }
+    }
+    
+    return NextResponse.json({
+      success: true,
+      reverted,
+      files: [...files]
+    })
+  } catch (error) {
+    if (error instanceof RevertConflictError || error instanceof TrashConflictError) {
+      return NextResponse.json(
+        { error: error.message, conflicts: error.conflicts },
+        { status: 409 }
+      )
+    }
+
+    console.error('Revert operation error:', error)
+    return NextResponse.json({ error: 'Failed to revert operation' }, { status: 500 })
+  }
+})
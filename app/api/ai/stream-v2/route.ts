@@ -1,10 +1,15 @@
 import { NextRequest } from 'next/server'
-import { streamText } from 'ai'
+import { streamText, tool, jsonSchema, stepCountIs, type StepResult, type ToolSet } from 'ai'
 import { createAnthropic } from '@ai-sdk/anthropic'
-import { Storage } from '@/lib/kv/chat-storage'
+import { SafeStorage } from '@/lib/kv/chat-storage'
 import { simpleTools, executeSimpleTool } from '@/lib/ai/simple-tools'
+import { resolveMaxSteps, auditToolExecution, type ToolExecution } from '@/lib/ai/tool-loop'
+import { createOperation, type FileSnapshot } from '@/lib/ai/operation-log'
+import { encodeStreamEvent, STREAM_EVENTS_CONTENT_TYPE, type AIStreamEvent } from '@/lib/ai/stream-events'
 import { buildContextualPrompt } from '@/lib/ai/system-prompt'
 import { requireProxyAuth } from '@/lib/auth/proxy-auth'
+import { withPermission, getRequestFolderAccess } from '@/lib/auth/permissions'
+import { getAuditActor } from '@/lib/files/audit'
 
 export const maxDuration = 60
 
@@ -13,6 +18,17 @@ const anthropic = createAnthropic({
   apiKey: process.env.ANTHROPIC_API_KEY!,
 })
 
+// Flatten tool results from every step, in execution order
+function collectToolExecutions(steps: StepResult<ToolSet>[]): ToolExecution[] {
+  return steps.flatMap(step =>
+    step.toolResults.map(toolResult => ({
+      tool: toolResult.toolName,
+      input: toolResult.input,
+      result: toolResult.output
+    }))
+  )
+}
+
 interface PageContext {
   pageId: string
   currentHTML: string
@@ -20,7 +36,7 @@ interface PageContext {
   folderPath: string
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('write', async (request: NextRequest) => {
   try {
     // Validate proxy authentication
     const auth = requireProxyAuth(request)
@@ -29,7 +45,9 @@ export async function POST(request: NextRequest) {
     const { 
       message, 
       pageContext,
-      conversationHistory = []
+      conversationHistory = [],
+      maxSteps,
+      messageId
     } = await request.json()
 
     if (!message || !pageContext) {
@@ -80,66 +98,134 @@ IMPORTANT INSTRUCTIONS:
     // Add current message
     messages.push({ role: 'user', content: message })
 
-    // Convert tools to AI SDK format  
+    // Assistant message id, chosen by the client so it can undo this message's changes
+    const assistantMessageId = messageId || `msg-${Date.now()}`
+
+    // Folder grants of this user also limit what the tools may touch
+    const folderAccess = await getRequestFolderAccess(request, tenantId)
+    const auditActor = getAuditActor(request)
+
+    // Convert tools to AI SDK format
     const aiTools = Object.fromEntries(
       simpleTools.map(t => [
         t.name,
-        {
+        tool({
           description: t.description,
-          parameters: t.input_schema,
+          inputSchema: jsonSchema(t.input_schema),
           execute: async (params: any) => {
+            const snapshots: FileSnapshot[] = []
             const result = await executeSimpleTool(
               t.name,
               params,
               tenantId,
-              pageContext.folderPath
+              pageContext.folderPath,
+              snapshots,
+              folderAccess
             )
+
+            // Track a revertible operation for every file change
+            const operation = createOperation(t.name, params, result, snapshots, assistantMessageId)
+            if (operation) {
+              await SafeStorage.addOperation(tenantId, pageContext.pageId, operation)
+            }
+            await auditToolExecution(tenantId, auditActor, { tool: t.name, input: params, result }, snapshots)
             return result
           }
-        }
+        })
       ])
     )
 
     // Stream the response using Claude Opus 4.1
-    const result = await streamText({
+    const result = streamText({
       model: anthropic('claude-opus-4-1-20250805'), // CRITICAL: Using Claude Opus 4.1!
       system: systemPrompt,
       messages,
-      // tools: aiTools, // Temporarily disabled due to type issues
-      onFinish: async ({ text, toolCalls }) => {
+      tools: aiTools,
+      stopWhen: stepCountIs(resolveMaxSteps(maxSteps)),
+      onFinish: async ({ text, steps }) => {
+        const toolExecutions = collectToolExecutions(steps)
+
         // Save to KV storage after streaming completes
         const chatMessage = {
-          id: `msg-${Date.now()}`,
+          id: assistantMessageId,
           role: 'assistant' as const,
           content: text,
           timestamp: new Date(),
-          tools: toolCalls
+          tools: toolExecutions
         }
         
-        await Storage.addMessage(tenantId, pageContext.pageId, chatMessage)
-        
-        // Track operations if any tools were used
-        if (toolCalls && toolCalls.length > 0) {
-          for (const call of toolCalls) {
-            if (['create_file', 'edit_file', 'delete_file'].includes(call.toolName)) {
-              const args = (call as any).args || {}
-              const operation = {
-                id: `op-${Date.now()}`,
-                type: call.toolName.replace('_file', '') as any,
-                target: args.path || args.file_path,
-                changes: args,
-                timestamp: new Date(),
-                revertible: true
+        await SafeStorage.addMessage(tenantId, pageContext.pageId, chatMessage)
+      }
+    })
+
+    // Forward the AI SDK stream as typed NDJSON events
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: AIStreamEvent) => {
+          controller.enqueue(encoder.encode(encodeStreamEvent(event)))
+        }
+
+        let text = ''
+        let stepCount = 0
+        const toolExecutions: ToolExecution[] = []
+
+        try {
+          for await (const part of result.fullStream) {
+            switch (part.type) {
+              case 'text-delta':
+                text += part.text
+                send({ type: 'text-delta', text: part.text })
+                break
+              case 'tool-call':
+                send({ type: 'tool-call-start', id: part.toolCallId, tool: part.toolName, input: part.input })
+                break
+              case 'tool-result': {
+                const output = part.output
+                toolExecutions.push({ tool: part.toolName, input: part.input, result: output })
+                send({
+                  type: 'tool-result',
+                  id: part.toolCallId,
+                  tool: part.toolName,
+                  input: part.input,
+                  result: output,
+                  isError: output?.success === false
+                })
+                break
+              }
+              case 'tool-error': {
+                const error = part.error instanceof Error ? part.error.message : 'Tool execution failed'
+                const output = { success: false, error }
+                toolExecutions.push({ tool: part.toolName, input: part.input, result: output })
+                send({ type: 'tool-result', id: part.toolCallId, tool: part.toolName, input: part.input, result: output, isError: true })
+                break
               }
-              await Storage.addOperation(tenantId, pageContext.pageId, operation)
+              case 'finish-step':
+                stepCount++
+                break
+              case 'finish':
+                send({ type: 'finish', message: text, tools: toolExecutions, steps: stepCount, finishReason: part.finishReason })
+                break
+              case 'error':
+                send({ type: 'error', error: part.error instanceof Error ? part.error.message : 'AI stream failed' })
+                break
             }
           }
+        } catch (error) {
+          console.error('AI stream forwarding error:', error)
+          send({ type: 'error', error: 'Failed to process AI request' })
+        } finally {
+          controller.close()
         }
       }
     })
 
-    // Return the streaming response
-    return result.toTextStreamResponse()
+    return new Response(stream, {
+      headers: {
+        'Content-Type': STREAM_EVENTS_CONTENT_TYPE,
+        'Cache-Control': 'no-cache'
+      }
+    })
 
   } catch (error) {
     console.error('AI streaming error:', error)
@@ -151,4 +237,4 @@ IMPORTANT INSTRUCTIONS:
       }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
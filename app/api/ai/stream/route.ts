@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import Anthropic from '@anthropic-ai/sdk'
 import { SafeStorage } from '@/lib/kv/chat-storage'
-import { simpleTools, executeSimpleTool } from '@/lib/ai/simple-tools'
+import { runToolLoop, resolveMaxSteps } from '@/lib/ai/tool-loop'
+import { createOperation } from '@/lib/ai/operation-log'
 import { buildContextualPrompt } from '@/lib/ai/system-prompt'
 import { requireProxyAuth } from '@/lib/auth/proxy-auth'
+import { withPermission, getRequestFolderAccess } from '@/lib/auth/permissions'
+import { getAuditActor } from '@/lib/files/audit'
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY!,
@@ -18,7 +21,7 @@ interface PageContext {
   folderPath: string
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('write', async (request: NextRequest) => {
   try {
     // Validate proxy authentication
     const auth = requireProxyAuth(request)
@@ -27,7 +30,9 @@ export async function POST(request: NextRequest) {
     const { 
       message, 
       pageContext,
-      conversationHistory = []
+      conversationHistory = [],
+      maxSteps,
+      messageId
     } = await request.json()
 
     if (!message || !pageContext) {
@@ -75,42 +80,32 @@ IMPORTANT INSTRUCTIONS:
     // Add current message
     messages.push({ role: 'user', content: message })
 
-    // Call Claude with OPUS 4.1 model
-    const response = await anthropic.messages.create({
+    // Assistant message id, chosen by the client so it can undo this message's changes
+    const assistantMessageId = messageId || `msg-${Date.now()}`
+
+    // Run Claude with OPUS 4.1 model, looping over tool calls until it finishes
+    const { message: assistantMessage, tools: toolResults, transcript, steps, stopReason } = await runToolLoop({
+      anthropic,
       model: 'claude-opus-4-1-20250805', // CRITICAL: Using Claude Opus 4.1 as required!
-      max_tokens: 4096,
       system: systemPrompt,
       messages,
-      tools: simpleTools as any
-    })
-
-    // Process the response
-    const toolResults = []
-    let assistantMessage = ''
-
-    for (const block of response.content) {
-      if (block.type === 'text') {
-        assistantMessage += block.text
-      } else if (block.type === 'tool_use') {
-        // Execute the tool
-        const result = await executeSimpleTool(
-          block.name,
-          block.input,
-          tenantId,
-          pageContext.folderPath
-        )
-        
-        toolResults.push({
-          tool: block.name,
-          input: block.input,
-          result
-        })
+      tenantId,
+      currentFolder: pageContext.folderPath,
+      maxSteps: resolveMaxSteps(maxSteps),
+      folderAccess: await getRequestFolderAccess(request, tenantId),
+      auditActor: getAuditActor(request),
+      onToolExecuted: async (execution, snapshots) => {
+        // Track a revertible operation for every file change
+        const operation = createOperation(execution.tool, execution.input, execution.result, snapshots, assistantMessageId)
+        if (operation) {
+          await SafeStorage.addOperation(tenantId, pageContext.pageId, operation)
+        }
       }
-    }
+    })
 
     // Save to KV storage
     const chatMessage = {
-      id: `msg-${Date.now()}`,
+      id: assistantMessageId,
       role: 'assistant' as const,
       content: assistantMessage,
       timestamp: new Date(),
@@ -118,28 +113,13 @@ IMPORTANT INSTRUCTIONS:
     }
     
     await SafeStorage.addMessage(tenantId, pageContext.pageId, chatMessage)
-    
-    // Track operations if any tools were used
-    if (toolResults.length > 0) {
-      for (const tool of toolResults) {
-        if (['create_file', 'edit_file', 'delete_file'].includes(tool.tool)) {
-          const input = tool.input as any
-          const operation = {
-            id: `op-${Date.now()}`,
-            type: tool.tool.replace('_file', '') as any,
-            target: input.path || input.file_path,
-            changes: input,
-            timestamp: new Date(),
-            revertible: true
-          }
-          await SafeStorage.addOperation(tenantId, pageContext.pageId, operation)
-        }
-      }
-    }
 
     return NextResponse.json({
       message: assistantMessage,
-      tools: toolResults
+      tools: toolResults,
+      transcript,
+      steps,
+      stopReason
     })
 
   } catch (error) {
@@ -149,4 +129,4 @@ IMPORTANT INSTRUCTIONS:
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
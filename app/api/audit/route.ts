@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { queryAudit, AuditQueryError } from '@/lib/files/audit'
+import { logger } from '@/lib/utils/logger'
+import { withPermission } from '@/lib/auth/permissions'
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
+// Dates may be full ISO timestamps or plain days; a plain `to` day includes the whole day
+function parseDate(value: string | null, endOfDay: boolean): Date | undefined {
+  if (!value) {
+    return undefined
+  }
+  if (DATE_ONLY.test(value)) {
+    return new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`)
+  }
+  return new Date(value)
+}
+
+// GET /api/audit?user=...&path=...&from=...&to=...&limit=... - Query the tenant's audit log (admins only)
+export const GET = withPermission('settings', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const entries = await queryAudit(tenantId, {
+      user: searchParams.get('user') || undefined,
+      path: searchParams.get('path') || undefined,
+      from: parseDate(searchParams.get('from'), false),
+      to: parseDate(searchParams.get('to'), true),
+      limit: parseInt(searchParams.get('limit') || '', 10) || undefined
+    })
+
+    return NextResponse.json({ entries })
+  } catch (error) {
+    if (error instanceof AuditQueryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    logger.error('Query audit log error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load the audit log' },
+      { status: 500 }
+    )
+  }
+})
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { logger } from '@/lib/utils/logger'
 import { createClient } from '@/lib/supabase/server'
 import { SharedApiResponse } from '@/lib/utils/shared-error-handler'
+import { resolveRole } from '@/lib/auth/roles'
 
 export async function GET(request: NextRequest) {
   try {
@@ -33,7 +34,7 @@ export async function GET(request: NextRequest) {
       tenant_id: tenantId,
       user_id: userId,
       email: email || '',
-      role: role || 'user',
+      role: resolveRole(role),
       tenant: tenantInfo
     })
   } catch (error) {
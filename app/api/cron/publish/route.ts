@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTenantsWithSchedules, processDueSchedules } from '@/lib/files/publish'
+import { onPublishStateChanged } from '@/lib/files/sync'
+import { recordAudit, SYSTEM_ACTOR } from '@/lib/files/audit'
+import { logger } from '@/lib/utils/logger'
+
+// GET /api/cron/publish - Apply due scheduled publishes and unpublishes for every tenant
+// Called by the scheduler with Authorization: Bearer $CRON_SECRET
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  const results: Record<string, number> = {}
+  const failed: string[] = []
+
+  // One tenant failing must not hold up the others
+  for (const tenantId of await getTenantsWithSchedules()) {
+    try {
+      const changed = await processDueSchedules(tenantId)
+      await onPublishStateChanged(tenantId, changed.map(record => record.path))
+      for (const record of changed) {
+        await recordAudit(tenantId, SYSTEM_ACTOR, {
+          action: 'publish.scheduled',
+          paths: [record.path],
+          details: { status: record.status }
+        })
+      }
+      results[tenantId] = changed.length
+    } catch (error) {
+      logger.error(`Scheduled publish failed for tenant ${tenantId}:`, error)
+      failed.push(tenantId)
+    }
+  }
+
+  logger.info('Scheduled publish run complete:', { results, failed })
+
+  return NextResponse.json({ success: failed.length === 0, results, failed })
+}
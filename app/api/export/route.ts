@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildSiteExport } from '@/lib/files/export'
+import { ZipLimitError } from '@/lib/files/zip'
+import { getTenantById } from '@/lib/site/tenants'
+import { siteBases } from '@/lib/site/hosts'
+import { TenantPathBuilder, UnsafePathError } from '@/lib/files/tenant-paths'
+import { logger } from '@/lib/utils/logger'
+import { withPermission, checkFolderAccess } from '@/lib/auth/permissions'
+
+// GET /api/export?folder=... - Download the published files of the site or one folder as a zip
+export const GET = withPermission('read', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    const folder = new TenantPathBuilder(tenantId).relative(new URL(request.url).searchParams.get('folder') || '', { allowRoot: true })
+
+    // Folder grants can limit a user to part of the site
+    const denied = await checkFolderAccess(request, tenantId, [folder], 'read')
+    if (denied) {
+      return denied
+    }
+
+    // Links written against the live site's address are internal too
+    const tenant = await getTenantById(tenantId).catch(() => null)
+    const bases = tenant ? siteBases(tenant) : []
+
+    const result = await buildSiteExport(tenantId, folder, bases)
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'No published files to export' },
+        { status: 404 }
+      )
+    }
+
+    logger.info('Site exported:', { folder, files: result.manifest.files.length, bytes: result.zip.length })
+
+    const name = [tenant?.slug || 'site', ...(folder ? folder.split('/') : [])].join('-')
+
+    return new NextResponse(new Uint8Array(result.zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${name.replace(/[^\w.-]/g, '_')}.zip"`,
+        'Content-Length': String(result.zip.length),
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    if (error instanceof UnsafePathError || error instanceof ZipLimitError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    logger.error('Export error:', error)
+    return NextResponse.json(
+      { error: 'Failed to export site' },
+      { status: 500 }
+    )
+  }
+})
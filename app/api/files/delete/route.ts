@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { del, list } from '@vercel/blob'
+import { moveToTrash } from '@/lib/files/trash'
+import { recordAudit, getAuditActor, totalSize } from '@/lib/files/audit'
+import { TenantPathBuilder, UnsafePathError } from '@/lib/files/tenant-paths'
 import { logger } from '@/lib/utils/logger'
+import { withPermission, checkFolderAccess } from '@/lib/auth/permissions'
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('write', async (request: NextRequest) => {
   try {
     // Get tenant ID from headers (set by middleware)
     const tenantId = request.headers.get('x-tenant-id')
@@ -24,50 +27,54 @@ export async function POST(request: NextRequest) {
     }
 
     // Security: Ensure path belongs to this tenant
-    const fullPath = path.startsWith(`${tenantId}/`) ? path : `${tenantId}/${path}`
-    
-    if (!fullPath.startsWith(`${tenantId}/`)) {
+    const relativePath = new TenantPathBuilder(tenantId).relative(path)
+
+    // Folder grants can limit a user to part of the site
+    const denied = await checkFolderAccess(request, tenantId, [relativePath], 'write')
+    if (denied) {
+      return denied
+    }
+
+    // Move the file, or every file in the folder, to the trash instead of deleting it
+    const entry = await moveToTrash(
+      tenantId,
+      relativePath,
+      type === 'folder' ? 'folder' : 'file',
+      request.headers.get('x-user-id')
+    )
+
+    if (!entry) {
       return NextResponse.json(
-        { error: 'Access denied' },
-        { status: 403 }
+        { error: `${type === 'folder' ? 'Folder' : 'File'} not found` },
+        { status: 404 }
       )
     }
 
-    // If it's a folder, we need to delete all contents first
-    if (type === 'folder') {
-      // Ensure we only delete files in THIS folder, not folders with similar names
-      // Add a trailing slash to ensure exact folder match
-      const folderPrefix = fullPath.endsWith('/') ? fullPath : `${fullPath}/`
-      
-      const { blobs } = await list({
-        prefix: folderPrefix
-      })
-      
-      // Delete all files in the folder
-      for (const blob of blobs) {
-        await del(blob.url)
-      }
-    } else {
-      // Delete single file
-      // Find the blob URL first
-      const { blobs } = await list({
-        prefix: fullPath
-      })
-      
-      if (blobs.length > 0) {
-        await del(blobs[0].url)
-      }
-    }
+    await recordAudit(tenantId, getAuditActor(request), {
+      action: 'file.delete',
+      paths: entry.files.map(file => file.path),
+      sizeBefore: totalSize(entry.files),
+      sizeAfter: null,
+      details: { type: entry.type, trashId: entry.id }
+    })
 
     return NextResponse.json({
       success: true,
-      message: `${type === 'folder' ? 'Folder' : 'File'} deleted successfully`
+      message: `${type === 'folder' ? 'Folder' : 'File'} moved to trash`,
+      trashId: entry.id,
+      expiresAt: entry.expiresAt
     })
   } catch (error) {
+    if (error instanceof UnsafePathError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
     logger.error('Delete file error:', error)
     return NextResponse.json(
       { error: 'Failed to delete' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { list, copy } from '@vercel/blob'
+import { getStorage, listAll, type StoredObject } from '@/lib/storage'
+import { listIndexedFiles } from '@/lib/kv/file-index'
+import { onFilesWritten } from '@/lib/files/sync'
+import { recordNewPages } from '@/lib/files/publish'
+import { carryImageVariants, rebaseImageManifests } from '@/lib/files/images'
+import { recordAudit, getAuditActor, totalSize } from '@/lib/files/audit'
+import { TenantPathBuilder, UnsafePathError } from '@/lib/files/tenant-paths'
 import { logger } from '@/lib/utils/logger'
+import { withPermission, checkFolderAccess } from '@/lib/auth/permissions'
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('write', async (request: NextRequest) => {
   try {
     // Get tenant ID from headers (set by middleware)
     const tenantId = request.headers.get('x-tenant-id')
@@ -24,51 +31,32 @@ export async function POST(request: NextRequest) {
     }
 
     // Security: Ensure path belongs to this tenant
-    const fullPath = path.startsWith(`${tenantId}/`) ? path : `${tenantId}/${path}`
-    
-    if (!fullPath.startsWith(`${tenantId}/`)) {
-      return NextResponse.json(
-        { error: 'Access denied' },
-        { status: 403 }
-      )
+    const paths = new TenantPathBuilder(tenantId)
+    const fullPath = paths.full(path)
+
+    // Folder grants can limit a user to part of the site
+    const denied = await checkFolderAccess(request, tenantId, [fullPath], 'write')
+    if (denied) {
+      return denied
     }
 
     // Generate a unique name for the duplicate
-    const generateUniqueName = (originalPath: string, counter: number = 1): string => {
-      const pathParts = originalPath.split('/')
-      const fileName = pathParts[pathParts.length - 1]
-      
-      // Split filename and extension
-      const lastDotIndex = fileName.lastIndexOf('.')
-      let baseName = fileName
-      let extension = ''
-      
-      if (lastDotIndex > 0 && type === 'file') {
-        baseName = fileName.substring(0, lastDotIndex)
-        extension = fileName.substring(lastDotIndex)
-      }
-      
-      // Check if it already has a copy suffix
-      const copyPattern = / copy( \d+)?$/
-      if (copyPattern.test(baseName)) {
-        baseName = baseName.replace(copyPattern, '')
-      }
-      
-      // Add copy suffix
-      const suffix = counter === 1 ? ' copy' : ` copy ${counter}`
-      const newFileName = type === 'file' ? `${baseName}${suffix}${extension}` : `${baseName}${suffix}`
-      
-      pathParts[pathParts.length - 1] = newFileName
-      return pathParts.join('/')
-    }
+    const generateUniqueName = (originalPath: string, counter: number = 1): string =>
+      paths.generateUniqueName(originalPath, type === 'folder' ? 'folder' : 'file', counter)
+
+    const storage = getStorage()
+    const userId = request.headers.get('x-user-id')
+    
+    // Probe candidate names against the metadata index instead of storage
+    const existingPaths = (await listIndexedFiles(tenantId)).map(entry => `${tenantId}/${entry.path}`)
+    const pathExists = (candidate: string) => existingPaths.includes(candidate)
+    const folderExists = (candidate: string) => existingPaths.some(p => p.startsWith(`${candidate}/`))
 
     if (type === 'folder') {
       // For folders, duplicate all contents
-      const { blobs } = await list({
-        prefix: fullPath
-      })
+      const objects = await listAll(storage, `${fullPath}/`)
 
-      if (blobs.length === 0) {
+      if (objects.length === 0) {
         return NextResponse.json(
           { error: 'Folder not found or empty' },
           { status: 404 }
@@ -81,12 +69,7 @@ export async function POST(request: NextRequest) {
       
       // Check if the new path exists
       while (true) {
-        const { blobs: existingBlobs } = await list({
-          prefix: newFolderPath,
-          limit: 1
-        })
-        
-        if (existingBlobs.length === 0) {
+        if (!folderExists(newFolderPath)) {
           break
         }
         
@@ -95,33 +78,40 @@ export async function POST(request: NextRequest) {
       }
 
       // Copy all files to new location
-      for (const blob of blobs) {
-        const relativePath = blob.pathname.substring(fullPath.length)
-        const newBlobPath = newFolderPath + relativePath
+      const copied: StoredObject[] = []
+      for (const object of objects) {
+        const relativePath = object.pathname.substring(fullPath.length)
+        const newObjectPath = newFolderPath + relativePath
         
-        await copy(blob.url, newBlobPath, { access: 'public' })
+        copied.push(await storage.copy(object.pathname, newObjectPath))
       }
+      await rebaseImageManifests(copied, paths.toRelative(fullPath), paths.toRelative(newFolderPath))
+      // Copies start as drafts, whatever the state of the originals
+      await recordNewPages(tenantId, copied.map(object => paths.toRelative(object.pathname)), userId)
+      await onFilesWritten(tenantId, copied, userId)
+      await recordAudit(tenantId, getAuditActor(request), {
+        action: 'file.duplicate',
+        paths: [paths.toRelative(fullPath), paths.toRelative(newFolderPath)],
+        sizeBefore: null,
+        sizeAfter: totalSize(copied),
+        details: { type: 'folder', files: copied.length }
+      })
 
       return NextResponse.json({
         success: true,
         message: 'Folder duplicated successfully',
-        newPath: newFolderPath.replace(`${tenantId}/`, '')
+        newPath: paths.toRelative(newFolderPath)
       })
     } else {
       // For single file
-      const { blobs } = await list({
-        prefix: fullPath,
-        limit: 1
-      })
+      const original = await storage.head(fullPath)
 
-      if (blobs.length === 0) {
+      if (!original) {
         return NextResponse.json(
           { error: 'File not found' },
           { status: 404 }
         )
       }
-
-      const originalBlob = blobs[0]
       
       // Find a unique file name
       let counter = 1
@@ -129,12 +119,7 @@ export async function POST(request: NextRequest) {
       
       // Check if the new path exists
       while (true) {
-        const { blobs: existingBlobs } = await list({
-          prefix: newFilePath,
-          limit: 1
-        })
-        
-        if (existingBlobs.length === 0) {
+        if (!pathExists(newFilePath)) {
           break
         }
         
@@ -143,19 +128,35 @@ export async function POST(request: NextRequest) {
       }
       
       // Copy to new location
-      await copy(originalBlob.url, newFilePath, { access: 'public' })
+      const copy = await storage.copy(original.pathname, newFilePath)
+      await carryImageVariants(tenantId, paths.toRelative(fullPath), paths.toRelative(newFilePath), 'copy')
+      await recordNewPages(tenantId, [paths.toRelative(newFilePath)], userId)
+      await onFilesWritten(tenantId, [copy], userId)
+      await recordAudit(tenantId, getAuditActor(request), {
+        action: 'file.duplicate',
+        paths: [paths.toRelative(fullPath), paths.toRelative(newFilePath)],
+        sizeBefore: null,
+        sizeAfter: copy.size,
+        details: { type: 'file' }
+      })
 
       return NextResponse.json({
         success: true,
         message: 'File duplicated successfully',
-        newPath: newFilePath.replace(`${tenantId}/`, '')
+        newPath: paths.toRelative(newFilePath)
       })
     }
   } catch (error) {
+    if (error instanceof UnsafePathError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
     logger.error('Duplicate error:', error)
     return NextResponse.json(
       { error: 'Failed to duplicate' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
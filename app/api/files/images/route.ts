@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { uploadFiles } from '@/lib/files/uploads'
+import { isOptimizableImage } from '@/lib/files/image-paths'
+import {
+  optimizeImage,
+  getImageManifest,
+  ImageProcessingError,
+  type ImageManifest
+} from '@/lib/files/images'
+import { TenantPathBuilder, UnsafePathError } from '@/lib/files/tenant-paths'
+import { recordAudit, getAuditActor, totalSize } from '@/lib/files/audit'
+import { logger } from '@/lib/utils/logger'
+import { withPermission, checkFolderAccess } from '@/lib/auth/permissions'
+
+// GET /api/files/images?path=... - Responsive variants of an optimised image
+export const GET = withPermission('read', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    const requestedPath = new URL(request.url).searchParams.get('path')
+
+    if (!requestedPath) {
+      return NextResponse.json(
+        { error: 'Path is required' },
+        { status: 400 }
+      )
+    }
+
+    const path = new TenantPathBuilder(tenantId).relative(requestedPath)
+
+    // Folder grants can limit a user to part of the site
+    const denied = await checkFolderAccess(request, tenantId, [path], 'read')
+    if (denied) {
+      return denied
+    }
+
+    const manifest = await getImageManifest(tenantId, path)
+
+    if (!manifest) {
+      return NextResponse.json(
+        { error: 'Image has not been optimised' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ manifest })
+  } catch (error) {
+    if (error instanceof UnsafePathError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    logger.error('Get image variants error:', error)
+    return NextResponse.json(
+      { error: 'Failed to read image variants' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/files/images - Ingest images and generate resized AVIF, WebP and fallback variants
+// multipart/form-data: folder, one or more file fields (uploaded like /api/files/upload)
+// application/json: { path } to (re)generate the variants of an image already stored
+export const POST = withPermission('write', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    const userId = request.headers.get('x-user-id')
+
+    if (request.headers.get('content-type')?.includes('application/json')) {
+      const { path: requestedPath } = await request.json()
+
+      if (!requestedPath || !isOptimizableImage(requestedPath)) {
+        return NextResponse.json(
+          { error: 'Path to a JPEG, PNG, WebP, GIF or AVIF image is required' },
+          { status: 400 }
+        )
+      }
+
+      const path = new TenantPathBuilder(tenantId).relative(requestedPath)
+
+      // Folder grants can limit a user to part of the site
+      const denied = await checkFolderAccess(request, tenantId, [path], 'write')
+      if (denied) {
+        return denied
+      }
+
+      const manifest = await optimizeImage(tenantId, path, userId)
+      logger.info('Image optimised:', { path, variants: manifest.variants.length })
+      await recordAudit(tenantId, getAuditActor(request), {
+        action: 'image.optimize',
+        paths: [path, ...manifest.variants.map(variant => variant.path)],
+        sizeBefore: null,
+        sizeAfter: totalSize(manifest.variants)
+      })
+
+      return NextResponse.json({ success: true, images: [manifest] })
+    }
+
+    const formData = await request.formData()
+    const folder = new TenantPathBuilder(tenantId).relative(String(formData.get('folder') || ''), { allowRoot: true })
+    const blobs = formData.getAll('file').filter((value): value is File => value instanceof File)
+
+    if (blobs.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one image is required' },
+        { status: 400 }
+      )
+    }
+
+    // Folder grants can limit a user to part of the site
+    const denied = await checkFolderAccess(request, tenantId, [folder], 'write')
+    if (denied) {
+      return denied
+    }
+
+    const unsupported = blobs.filter(blob => !isOptimizableImage(blob.name))
+    if (unsupported.length > 0) {
+      return NextResponse.json(
+        { error: `Not a JPEG, PNG, WebP, GIF or AVIF image: ${unsupported.map(blob => blob.name).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // Originals go through the tenant's upload policy like any other upload
+    const report = await uploadFiles(tenantId, folder, blobs.map(blob => ({
+      name: blob.name,
+      size: blob.size,
+      read: async () => Buffer.from(await blob.arrayBuffer())
+    })), { conflict: 'rename', uploadedBy: userId })
+
+    const images: ImageManifest[] = []
+    const failed: { path: string; reason: string }[] = []
+    for (const uploaded of report.uploaded) {
+      try {
+        images.push(await optimizeImage(tenantId, uploaded.path, userId))
+      } catch (error) {
+        if (!(error instanceof ImageProcessingError)) throw error
+        failed.push({ path: uploaded.path, reason: error.message })
+      }
+    }
+
+    logger.info('Images ingested:', { folder, optimised: images.length, rejected: report.rejected, failed })
+
+    if (report.uploaded.length === 0) {
+      return NextResponse.json(
+        { error: report.rejected.map(item => `${item.name}: ${item.reason}`).join('; '), report },
+        { status: 400 }
+      )
+    }
+
+    const variants = images.flatMap(image => image.variants)
+    await recordAudit(tenantId, getAuditActor(request), {
+      action: 'image.upload',
+      paths: [...report.uploaded.map(item => item.path), ...variants.map(variant => variant.path)],
+      sizeBefore: null,
+      sizeAfter: totalSize(report.uploaded) + totalSize(variants),
+      details: { rejected: report.rejected.length, failed: failed.length }
+    })
+
+    return NextResponse.json({ success: true, report, images, failed })
+  } catch (error) {
+    if (error instanceof ImageProcessingError || error instanceof UnsafePathError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    logger.error('Image ingest error:', error)
+    return NextResponse.json(
+      { error: 'Failed to process images' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { importZip, CONFLICT_POLICIES, type ConflictPolicy } from '@/lib/files/import'
+import { ZipFormatError } from '@/lib/files/zip'
+import { recordAudit, getAuditActor } from '@/lib/files/audit'
+import { TenantPathBuilder, UnsafePathError } from '@/lib/files/tenant-paths'
+import { logger } from '@/lib/utils/logger'
+import { withPermission, checkFolderAccess } from '@/lib/auth/permissions'
+
+const MAX_UPLOAD_SIZE = 50 * 1024 * 1024
+
+// POST /api/files/import - Unpack an uploaded zip under a target folder
+// multipart/form-data: file (zip), targetFolder, conflict (skip | overwrite | rename)
+export const POST = withPermission('write', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const targetFolder = new TenantPathBuilder(tenantId).relative(String(formData.get('targetFolder') || ''), { allowRoot: true })
+    const conflict = String(formData.get('conflict') || 'skip') as ConflictPolicy
+
+    if (!(file instanceof Blob)) {
+      return NextResponse.json(
+        { error: 'A zip file is required' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_UPLOAD_SIZE) {
+      return NextResponse.json(
+        { error: `Zip files are limited to ${MAX_UPLOAD_SIZE / 1024 / 1024} MB` },
+        { status: 413 }
+      )
+    }
+
+    if (!CONFLICT_POLICIES.includes(conflict)) {
+      return NextResponse.json(
+        { error: 'Conflict policy must be skip, overwrite or rename' },
+        { status: 400 }
+      )
+    }
+
+    // Folder grants can limit a user to part of the site
+    const denied = await checkFolderAccess(request, tenantId, [targetFolder], 'write')
+    if (denied) {
+      return denied
+    }
+
+    const report = await importZip(tenantId, Buffer.from(await file.arrayBuffer()), {
+      targetFolder,
+      conflict,
+      importedBy: request.headers.get('x-user-id')
+    })
+
+    logger.info('Zip imported:', {
+      targetFolder,
+      conflict,
+      created: report.created.length,
+      overwritten: report.overwritten.length,
+      renamed: report.renamed.length,
+      skipped: report.skipped.length
+    })
+
+    await recordAudit(tenantId, getAuditActor(request), {
+      action: 'file.import',
+      paths: [...report.created, ...report.overwritten, ...report.renamed.map(item => item.to)],
+      sizeBefore: null,
+      sizeAfter: null,
+      details: { targetFolder, conflict, archiveSize: file.size, skipped: report.skipped.length }
+    })
+
+    return NextResponse.json({ success: true, report })
+  } catch (error) {
+    if (error instanceof ZipFormatError || error instanceof UnsafePathError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    logger.error('Import error:', error)
+    return NextResponse.json(
+      { error: 'Failed to import zip' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { rebuildIndex } from '@/lib/kv/file-index'
+import { rebuildSearchIndex } from '@/lib/kv/search-index'
+import { recordAudit, getAuditActor } from '@/lib/files/audit'
+import { logger } from '@/lib/utils/logger'
+import { withPermission, checkFolderAccess } from '@/lib/auth/permissions'
+
+// POST /api/files/index/rebuild - Rebuild the tenant's file metadata and search indexes from storage
+// Use after files were changed outside the builder or the index was lost
+export const POST = withPermission('write', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    // Users limited to some folders cannot rebuild the whole index
+    const denied = await checkFolderAccess(request, tenantId, [''], 'write')
+    if (denied) {
+      return denied
+    }
+
+    const entries = await rebuildIndex(tenantId)
+    const documents = await rebuildSearchIndex(tenantId)
+
+    logger.info('File index rebuilt:', { tenantId, files: entries.length, searchable: documents.length })
+    await recordAudit(tenantId, getAuditActor(request), {
+      action: 'index.rebuild',
+      paths: [],
+      details: { indexedFiles: entries.length, searchableFiles: documents.length }
+    })
+
+    return NextResponse.json({
+      success: true,
+      indexedFiles: entries.length,
+      searchableFiles: documents.length
+    })
+  } catch (error) {
+    logger.error('Rebuild file index error:', error)
+    return NextResponse.json(
+      { error: 'Failed to rebuild file index' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkLinks } from '@/lib/files/link-check'
+import { getTenantById } from '@/lib/site/tenants'
+import { siteBases } from '@/lib/site/hosts'
+import { TenantPathBuilder, UnsafePathError } from '@/lib/files/tenant-paths'
+import { logger } from '@/lib/utils/logger'
+import { withPermission, checkFolderAccess } from '@/lib/auth/permissions'
+
+// GET /api/files/links?folder=... - Report broken internal links and missing images, grouped by page
+export const GET = withPermission('read', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    const folder = new TenantPathBuilder(tenantId).relative(new URL(request.url).searchParams.get('folder') || '', { allowRoot: true })
+
+    // Folder grants can limit a user to part of the site
+    const denied = await checkFolderAccess(request, tenantId, [folder], 'read')
+    if (denied) {
+      return denied
+    }
+
+    // Links written against the live site's address are internal too
+    const tenant = await getTenantById(tenantId).catch(() => null)
+    const bases = tenant ? siteBases(tenant) : []
+
+    const report = await checkLinks(tenantId, folder, bases)
+
+    logger.info('Link check complete:', {
+      folder,
+      pages: report.pagesChecked,
+      links: report.linksChecked,
+      pagesWithBrokenLinks: report.pages.length
+    })
+
+    return NextResponse.json({ success: true, report })
+  } catch (error) {
+    if (error instanceof UnsafePathError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    logger.error('Link check error:', error)
+    return NextResponse.json(
+      { error: 'Failed to check links' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,8 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { list } from '@vercel/blob'
+import { getStorage, listFolder } from '@/lib/storage'
+import { getIndexedFiles, listIndexedFiles, type FileMetadata } from '@/lib/kv/file-index'
+import { isInternalPath } from '@/lib/files/internal-paths'
+import { isVariantPath } from '@/lib/files/image-paths'
+import { TenantPathBuilder, UnsafePathError } from '@/lib/files/tenant-paths'
+import { getPublishRecords, resolvePublishRecord, isLive } from '@/lib/files/publish'
+import { getTenantById } from '@/lib/site/tenants'
+import { sitePageUrl } from '@/lib/site/hosts'
 import { logger } from '@/lib/utils/logger'
+import { withPermission, getRequestFolderAccess } from '@/lib/auth/permissions'
+import type { FolderAccess } from '@/lib/files/folder-access'
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission('read', async (request: NextRequest) => {
   try {
     // Get tenant ID from headers (set by middleware)
     const tenantId = request.headers.get('x-tenant-id')
@@ -14,12 +23,39 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // List all blobs for this tenant
-    const { blobs } = await list({
-      prefix: `${tenantId}/`
-    })
+    const { searchParams } = new URL(request.url)
+    
+    // Users limited to some folders only see those and the folders leading to them
+    const access = await getRequestFolderAccess(request, tenantId)
+    
+    // Lazy mode: ?folder=path&depth=1 returns only the direct children of one folder
+    if (searchParams.has('folder')) {
+      const depth = searchParams.get('depth') || '1'
+      
+      if (depth !== '1') {
+        return NextResponse.json(
+          { error: 'Only depth=1 is supported' },
+          { status: 400 }
+        )
+      }
+      
+      const folder = new TenantPathBuilder(tenantId).relative(searchParams.get('folder') || '', { allowRoot: true })
+      
+      if (!access.canSee(folder)) {
+        return NextResponse.json(
+          { error: `You don't have read access to /${folder}` },
+          { status: 403 }
+        )
+      }
+      
+      return NextResponse.json(await listFolderChildren(tenantId, folder, access))
+    }
+
+    // Read all files for this tenant from the metadata index
+    const entries = (await listIndexedFiles(tenantId)).filter(entry => access.can(entry.path, 'read'))
+    const publishFields = await loadPublishFields(tenantId)
 
-    // Transform blob data into a file tree structure
+    // Transform stored file data into a file tree structure
     const fileTree: any = {
       name: 'root',
       type: 'folder',
@@ -28,16 +64,9 @@ export async function GET(request: NextRequest) {
     }
 
     // Build the tree structure
-    blobs.forEach(blob => {
-      // Remove tenant ID prefix from pathname
-      const relativePath = blob.pathname.replace(`${tenantId}/`, '')
-      
-      // Filter out hidden files (starting with .)
-      const fileName = relativePath.split('/').pop() || ''
-      if (fileName.startsWith('.')) {
-        return // Skip hidden files
-      }
-      
+    // Hidden files and internal folders are never indexed
+    entries.forEach(entry => {
+      const relativePath = entry.path
       const parts = relativePath.split('/')
       
       let currentLevel = fileTree.children
@@ -52,9 +81,10 @@ export async function GET(request: NextRequest) {
             name: part,
             type: 'file',
             path: relativePath,  // Use relative path without tenant ID
-            url: blob.url,
-            size: blob.size,
-            uploadedAt: blob.uploadedAt
+            url: entry.url,
+            size: entry.size,
+            uploadedAt: entry.updatedAt,
+            ...publishFields(relativePath)
           })
         } else {
           // It's a folder
@@ -80,13 +110,124 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       tenantId,
       files: fileTree,
-      totalFiles: blobs.length
+      totalFiles: entries.length
     })
   } catch (error) {
+    if (error instanceof UnsafePathError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
     logger.error('List files error:', error)
     return NextResponse.json(
       { error: 'Failed to list files' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
+/**
+ * Build a single folder node with its files and unloaded subfolders
+ * Subfolders have no `children` so the client knows to fetch them on expand
+ */
+async function listFolderChildren(tenantId: string, folder: string, access: FolderAccess) {
+  const indexed = await getIndexedFiles(tenantId)
+  const { files, folders } = indexed
+    ? childrenFromIndex(indexed, folder)
+    : await childrenFromStorage(tenantId, folder)
+  const publishFields = await loadPublishFields(tenantId)
+
+  const children: any[] = [
+    ...folders
+      .filter(path => !isInternalPath(path) && !isVariantPath(path) && access.canSee(path))
+      .map(path => ({
+        name: path.split('/').pop(),
+        type: 'folder',
+        path
+      })),
+    ...files.filter(file => access.can(file.path, 'read')).map(file => ({
+      name: file.path.split('/').pop(),
+      type: 'file',
+      path: file.path,
+      url: file.url,
+      size: file.size,
+      uploadedAt: file.updatedAt,
+      ...publishFields(file.path)
+    }))
+  ]
+
+  return {
+    tenantId,
+    folder,
+    files: {
+      name: folder ? folder.split('/').pop() : 'root',
+      type: 'folder',
+      path: folder,
+      children
+    },
+    totalFiles: files.length
+  }
+}
+
+/**
+ * Publish state and public URL for each listed file
+ * The public URL is left out when the tenant's site address can't be looked up
+ */
+async function loadPublishFields(tenantId: string) {
+  const [records, tenant] = await Promise.all([
+    getPublishRecords(tenantId),
+    getTenantById(tenantId).catch(() => null)
+  ])
+
+  return (path: string) => {
+    const record = resolvePublishRecord(records, path)
+    return {
+      isPublished: isLive(record),
+      publicUrl: tenant ? sitePageUrl(tenant, path) : undefined,
+      publishStatus: record.status,
+      publishAt: record.publishAt,
+      unpublishAt: record.unpublishAt
+    }
+  }
+}
+
+// Direct children of a folder, derived from the full index
+function childrenFromIndex(entries: FileMetadata[], folder: string) {
+  const prefix = folder ? `${folder}/` : ''
+  const files: FileMetadata[] = []
+  const folders = new Set<string>()
+
+  entries.forEach(entry => {
+    if (!entry.path.startsWith(prefix)) return
+    
+    const rest = entry.path.substring(prefix.length)
+    const slash = rest.indexOf('/')
+    if (slash === -1) {
+      files.push(entry)
+    } else {
+      folders.add(prefix + rest.substring(0, slash))
+    }
+  })
+
+  return { files, folders: Array.from(folders) }
+}
+
+// Direct children of a folder from a folded storage listing, used when the index is unavailable
+async function childrenFromStorage(tenantId: string, folder: string) {
+  const prefix = folder ? `${tenantId}/${folder}/` : `${tenantId}/`
+  const { objects, folders } = await listFolder(getStorage(), prefix)
+
+  const files = objects
+    .map(object => ({
+      path: object.pathname.substring(tenantId.length + 1),
+      url: object.url,
+      size: object.size,
+      updatedAt: new Date(object.uploadedAt).toISOString()
+    }))
+    .filter(file => !(file.path.split('/').pop() || '').startsWith('.')) // Skip hidden files
+
+  return {
+    files,
+    folders: folders.map(folderPrefix => folderPrefix.substring(tenantId.length + 1).replace(/\/$/, ''))
+  }
+}
@@ -1,8 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { put, del, list } from '@vercel/blob'
+import { getStorage, listAll, hasObjects, type StoredObject } from '@/lib/storage'
+import { onFilesWritten, onFilesRemoved, onSitePagesChanged } from '@/lib/files/sync'
+import { movePublishStates } from '@/lib/files/publish'
+import { carryImageVariants, rebaseImageManifests } from '@/lib/files/images'
+import { recordAudit, getAuditActor, totalSize } from '@/lib/files/audit'
+import { updateReferences as rewriteReferences, type ReferenceUpdate } from '@/lib/files/references'
+import { getTenantById } from '@/lib/site/tenants'
+import { siteBases } from '@/lib/site/hosts'
+import { TenantPathBuilder, UnsafePathError } from '@/lib/files/tenant-paths'
 import { logger } from '@/lib/utils/logger'
+import { withPermission, checkFolderAccess, getRequestFolderAccess } from '@/lib/auth/permissions'
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('write', async (request: NextRequest) => {
   try {
     // Get tenant ID from headers (set by middleware)
     const tenantId = request.headers.get('x-tenant-id')
@@ -14,7 +23,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { sourcePath, targetFolder, isFolder } = await request.json()
+    const { sourcePath, targetFolder, isFolder, updateReferences, overwrite } = await request.json()
 
     if (!sourcePath || targetFolder === undefined) {
       return NextResponse.json(
@@ -25,93 +34,150 @@ export async function POST(request: NextRequest) {
 
     logger.info('Moving file/folder:', { sourcePath, targetFolder, isFolder })
 
+    // Security: Ensure paths belong to this tenant
+    const paths = new TenantPathBuilder(tenantId)
+    const fromPath = paths.relative(sourcePath)
+    const folder = paths.relative(targetFolder, { allowRoot: true })
+
     // Extract filename from source path
-    const fileName = sourcePath.split('/').pop() || ''
+    const fileName = fromPath.split('/').pop() || ''
     
     // Construct target path
-    const targetPath = targetFolder === '/' || targetFolder === '' 
-      ? fileName 
-      : `${targetFolder}/${fileName}`
+    const targetPath = folder ? `${folder}/${fileName}` : fileName
 
     // Construct full paths with tenant ID
-    const fullSourcePath = `${tenantId}/${sourcePath}`
-    const fullTargetPath = `${tenantId}/${targetPath}`
+    const fullSourcePath = paths.full(fromPath)
+    const fullTargetPath = paths.full(targetPath)
+
+    // Folder grants can limit a user to part of the site
+    const denied = await checkFolderAccess(request, tenantId, [fromPath, targetPath], 'write')
+    if (denied) {
+      return denied
+    }
+
+    // Copying onto itself and then deleting the source would lose the file
+    if (targetPath === fromPath) {
+      return NextResponse.json(
+        { error: 'Source and target are the same' },
+        { status: 400 }
+      )
+    }
+    if (isFolder && targetPath.startsWith(`${fromPath}/`)) {
+      return NextResponse.json(
+        { error: 'A folder cannot be moved into itself' },
+        { status: 400 }
+      )
+    }
+
+    const storage = getStorage()
+    const userId = request.headers.get('x-user-id')
+    let movedSize = 0
+
+    // Only replace what is already there when the client asked for it
+    const targetExists = isFolder
+      ? await hasObjects(storage, `${fullTargetPath}/`)
+      : !!(await storage.head(fullTargetPath))
+    if (targetExists && !overwrite) {
+      return NextResponse.json(
+        { error: `/${targetPath} already exists`, conflict: true },
+        { status: 409 }
+      )
+    }
 
     if (isFolder) {
       // For folders, we need to move all files within the folder
-      const { blobs } = await list({
-        prefix: fullSourcePath
-      })
+      const objects = await listAll(storage, `${fullSourcePath}/`)
 
-      logger.info(`Found ${blobs.length} files in folder to move`)
+      logger.info(`Found ${objects.length} files in folder to move`)
+      movedSize = totalSize(objects)
+
+      // Carry publish state first so the moved files are indexed with it
+      await movePublishStates(tenantId, fromPath, targetPath)
 
       // Process each file
-      for (const blob of blobs) {
+      const movedObjects: StoredObject[] = []
+      for (const object of objects) {
         // Calculate new path
-        const relativePath = blob.pathname.replace(fullSourcePath, '')
+        const relativePath = object.pathname.substring(fullSourcePath.length)
         const newPath = `${fullTargetPath}${relativePath}`
         
-        logger.info(`Moving ${blob.pathname} to ${newPath}`)
-        
-        // Fetch the content
-        const response = await fetch(blob.url)
-        const content = await response.blob()
+        logger.info(`Moving ${object.pathname} to ${newPath}`)
         
-        // Upload to new location
-        await put(newPath, content, {
-          access: 'public',
-          contentType: response.headers.get('content-type') || 'application/octet-stream',
-          addRandomSuffix: false
-        })
-        
-        // Delete the original
-        await del(blob.url)
+        // Copy to new location, then delete the original
+        const moved = await storage.copy(object.pathname, newPath)
+        await storage.delete(object.pathname)
+        await onFilesWritten(tenantId, [moved], userId)
+        await onFilesRemoved(tenantId, [object.pathname])
+        movedObjects.push(moved)
       }
+      await rebaseImageManifests(movedObjects, fromPath, targetPath)
       
       logger.info('Folder moved successfully')
     } else {
       // For single files, find and move the file
-      const { blobs } = await list({
-        prefix: fullSourcePath,
-        limit: 1
-      })
+      const source = await storage.head(fullSourcePath)
 
-      if (blobs.length === 0) {
+      if (!source) {
         return NextResponse.json(
           { error: 'Source file not found' },
           { status: 404 }
         )
       }
 
-      const sourceBlob = blobs[0]
-      
-      // Fetch the content
-      const response = await fetch(sourceBlob.url)
-      const content = await response.blob()
-      
-      // Upload to new location
-      await put(fullTargetPath, content, {
-        access: 'public',
-        contentType: response.headers.get('content-type') || 'application/octet-stream',
-        addRandomSuffix: false
-      })
-      
-      // Delete the original
-      await del(sourceBlob.url)
+      await movePublishStates(tenantId, fromPath, targetPath)
+      movedSize = source.size
+
+      // Copy to new location, then delete the original
+      const moved = await storage.copy(source.pathname, fullTargetPath)
+      await storage.delete(source.pathname)
+      await onFilesWritten(tenantId, [moved], userId)
+      await onFilesRemoved(tenantId, [source.pathname])
+      await carryImageVariants(tenantId, fromPath, targetPath, 'move')
       
       logger.info('File moved successfully')
     }
 
+    // Opt-in: point links to the old location at the new one
+    let updatedFiles: ReferenceUpdate[] = []
+    if (updateReferences) {
+      const tenant = await getTenantById(tenantId).catch(() => null)
+      updatedFiles = await rewriteReferences(
+        tenantId,
+        { from: fromPath, to: targetPath },
+        tenant ? siteBases(tenant) : [],
+        userId,
+        // Pages outside the user's grants keep their links
+        await getRequestFolderAccess(request, tenantId)
+      )
+      logger.info('References updated:', { files: updatedFiles.length })
+    }
+
+    await onSitePagesChanged(tenantId)
+    await recordAudit(tenantId, getAuditActor(request), {
+      action: 'file.move',
+      paths: [fromPath, targetPath],
+      sizeBefore: movedSize,
+      sizeAfter: movedSize,
+      details: { type: isFolder ? 'folder' : 'file', updatedReferences: updatedFiles.map(update => update.path) }
+    })
+
     return NextResponse.json({
       success: true,
       message: `${isFolder ? 'Folder' : 'File'} moved successfully`,
-      newPath: targetPath
+      newPath: targetPath,
+      updatedFiles
     })
   } catch (error) {
+    if (error instanceof UnsafePathError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
     logger.error('Move file/folder error:', error)
     return NextResponse.json(
       { error: 'Failed to move file/folder' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
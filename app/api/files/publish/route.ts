@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage } from '@/lib/storage'
+import { getPublishState, setPublishState, PublishValidationError, type PublishStatus } from '@/lib/files/publish'
+import { onPublishStateChanged } from '@/lib/files/sync'
+import { recordAudit, getAuditActor } from '@/lib/files/audit'
+import { TenantPathBuilder, UnsafePathError } from '@/lib/files/tenant-paths'
+import { logger } from '@/lib/utils/logger'
+import { withPermission, checkFolderAccess } from '@/lib/auth/permissions'
+
+const STATUSES: PublishStatus[] = ['draft', 'published', 'scheduled']
+
+// GET /api/files/publish?path=... - Get the publish state of a page
+export const GET = withPermission('read', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    const requestedPath = new URL(request.url).searchParams.get('path')
+
+    if (!requestedPath) {
+      return NextResponse.json(
+        { error: 'Path is required' },
+        { status: 400 }
+      )
+    }
+
+    const path = new TenantPathBuilder(tenantId).relative(requestedPath)
+
+    // Folder grants can limit a user to part of the site
+    const denied = await checkFolderAccess(request, tenantId, [path], 'read')
+    if (denied) {
+      return denied
+    }
+
+    return NextResponse.json({ state: await getPublishState(tenantId, path) })
+  } catch (error) {
+    if (error instanceof UnsafePathError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    logger.error('Get publish state error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get publish state' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/files/publish - Publish, unpublish or schedule a page
+export const POST = withPermission('publish', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    const { path: requestedPath, status, publishAt, unpublishAt } = await request.json()
+
+    if (!requestedPath || !STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: 'Path and a status of draft, published or scheduled are required' },
+        { status: 400 }
+      )
+    }
+
+    const path = new TenantPathBuilder(tenantId).relative(requestedPath)
+
+    // Folder grants can limit a user to part of the site
+    const denied = await checkFolderAccess(request, tenantId, [path], 'write')
+    if (denied) {
+      return denied
+    }
+
+    const page = await getStorage().head(`${tenantId}/${path}`)
+    if (!page) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      )
+    }
+
+    const state = await setPublishState(
+      tenantId,
+      path,
+      { status, publishAt, unpublishAt },
+      request.headers.get('x-user-id')
+    )
+    await onPublishStateChanged(tenantId, [path])
+
+    logger.info('Publish state changed:', { path, status })
+    await recordAudit(tenantId, getAuditActor(request), {
+      action: 'publish',
+      paths: [path],
+      sizeBefore: page.size,
+      sizeAfter: page.size,
+      details: { status: state.status, publishAt: state.publishAt, unpublishAt: state.unpublishAt }
+    })
+
+    return NextResponse.json({ success: true, state })
+  } catch (error) {
+    if (error instanceof PublishValidationError || error instanceof UnsafePathError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    logger.error('Set publish state error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update publish state' },
+      { status: 500 }
+    )
+  }
+})
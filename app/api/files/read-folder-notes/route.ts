@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { list } from '@vercel/blob'
+import { getStorage } from '@/lib/storage'
+import { computeETag } from '@/lib/files/etag'
+import { TenantPathBuilder, UnsafePathError } from '@/lib/files/tenant-paths'
 import { logger } from '@/lib/utils/logger'
+import { withPermission, checkFolderAccess } from '@/lib/auth/permissions'
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('read', async (request: NextRequest) => {
   try {
     // Get tenant ID from headers (set by middleware)
     const tenantId = request.headers.get('x-tenant-id')
@@ -24,43 +27,47 @@ export async function POST(request: NextRequest) {
     }
 
     // Construct full path with tenant ID - path should already include .notes.md
-    const fullPath = `${tenantId}/${path}`
+    const fullPath = new TenantPathBuilder(tenantId).full(path)
+
+    // Folder grants can limit a user to part of the site
+    const denied = await checkFolderAccess(request, tenantId, [fullPath], 'read')
+    if (denied) {
+      return denied
+    }
     
     logger.info('Reading folder notes:', { fullPath })
 
     // Try to find the exact .notes.md file
-    const { blobs } = await list({
-      prefix: fullPath,
-      limit: 1
-    })
+    const notes = await getStorage().read(fullPath)
 
-    if (blobs.length === 0) {
+    if (!notes) {
       // No notes exist yet
       return NextResponse.json({
         content: '',
-        exists: false
+        exists: false,
+        etag: null
       })
     }
 
-    // Fetch the content from the blob URL
-    const response = await fetch(blobs[0].url)
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch notes: ${response.status}`)
-    }
-
-    const content = await response.text()
+    const content = new TextDecoder().decode(notes.body)
 
     return NextResponse.json({
       content,
       exists: true,
-      url: blobs[0].url
+      url: notes.object.url,
+      etag: computeETag(notes.body)
     })
   } catch (error) {
+    if (error instanceof UnsafePathError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
     logger.error('Read folder notes error:', error)
     return NextResponse.json(
       { error: 'Failed to read folder notes' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getStorage } from '@/lib/storage'
+import { computeETag } from '@/lib/files/etag'
+import { TenantPathBuilder, UnsafePathError } from '@/lib/files/tenant-paths'
 import { logger } from '@/lib/utils/logger'
+import { withPermission, checkFolderAccess } from '@/lib/auth/permissions'
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('read', async (request: NextRequest) => {
   try {
     // Get tenant ID from headers (set by middleware)
     const tenantId = request.headers.get('x-tenant-id')
@@ -13,60 +17,60 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { url, path } = await request.json()
+    const { path } = await request.json()
 
-    if (!url && !path) {
+    if (!path) {
       return NextResponse.json(
-        { error: 'File URL or path is required' },
+        { error: 'File path is required' },
         { status: 400 }
       )
     }
 
-    // Path comes from client without tenant ID, we don't need to verify it here
-    // The middleware already ensures the user is authenticated for their tenant
+    // Path comes from client without tenant ID, so scope it to this tenant
+    const fullPath = new TenantPathBuilder(tenantId).full(path)
 
-    // SECURITY: Validate URL is from Vercel Blob storage only
-    const allowedDomains = [
-      'public.blob.vercel-storage.com',
-      'blob.vercel-storage.com'
-    ]
-    
-    try {
-      const urlObj = new URL(url)
-      if (!allowedDomains.some(domain => urlObj.hostname.endsWith(domain))) {
-        return NextResponse.json(
-          { error: 'Invalid file source' },
-          { status: 403 }
-        )
-      }
-    } catch (e) {
-      return NextResponse.json(
-        { error: 'Invalid URL format' },
-        { status: 400 }
-      )
+    // Folder grants can limit a user to part of the site
+    const denied = await checkFolderAccess(request, tenantId, [fullPath], 'read')
+    if (denied) {
+      return denied
     }
     
-    // Fetch the file content from validated blob URL
-    const response = await fetch(url)
+    // Read the file content through the configured storage backend
+    const file = await getStorage().read(fullPath)
     
-    if (!response.ok) {
-      throw new Error(`Failed to fetch file: ${response.status}`)
+    if (!file) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      )
     }
 
-    const contentType = response.headers.get('content-type') || 'text/plain'
-    const content = await response.text()
+    const contentType = file.object.contentType || 'text/plain'
+    const content = new TextDecoder().decode(file.body)
+    const url = file.object.url
+    // Version token the editor sends back as If-Match when saving
+    const etag = computeETag(file.body)
 
     return NextResponse.json({
       content,
       contentType,
       path,
-      url
+      url,
+      etag
+    }, {
+      headers: { ETag: etag }
     })
   } catch (error) {
+    if (error instanceof UnsafePathError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
     logger.error('Read file error:', error)
     return NextResponse.json(
       { error: 'Failed to read file' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,8 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { list, copy, del } from '@vercel/blob'
+import { getStorage, listAll, hasObjects, type StoredObject } from '@/lib/storage'
+import { onFilesWritten, onFilesRemoved, onSitePagesChanged } from '@/lib/files/sync'
+import { movePublishStates } from '@/lib/files/publish'
+import { carryImageVariants, rebaseImageManifests } from '@/lib/files/images'
+import { recordAudit, getAuditActor, totalSize } from '@/lib/files/audit'
+import { updateReferences as rewriteReferences, type ReferenceUpdate } from '@/lib/files/references'
+import { getTenantById } from '@/lib/site/tenants'
+import { siteBases } from '@/lib/site/hosts'
+import { TenantPathBuilder, MalformedPathError, UnsafePathError } from '@/lib/files/tenant-paths'
 import { logger } from '@/lib/utils/logger'
+import { withPermission, checkFolderAccess, getRequestFolderAccess } from '@/lib/auth/permissions'
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('write', async (request: NextRequest) => {
   try {
     // Get tenant ID from headers (set by middleware)
     const tenantId = request.headers.get('x-tenant-id')
@@ -14,7 +23,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { oldPath, newName, type } = await request.json()
+    const { oldPath, newName, type, updateReferences, overwrite } = await request.json()
 
     if (!oldPath || !newName) {
       return NextResponse.json(
@@ -24,82 +33,136 @@ export async function POST(request: NextRequest) {
     }
 
     // Security: Ensure paths belong to this tenant
-    const fullOldPath = oldPath.startsWith(`${tenantId}/`) ? oldPath : `${tenantId}/${oldPath}`
-    
-    if (!fullOldPath.startsWith(`${tenantId}/`)) {
-      return NextResponse.json(
-        { error: 'Access denied' },
-        { status: 403 }
-      )
+    const paths = new TenantPathBuilder(tenantId)
+    const fullOldPath = paths.full(oldPath)
+
+    // A rename stays in the same folder; moving is /api/files/move
+    if (typeof newName !== 'string' || newName.includes('/')) {
+      throw new MalformedPathError('New name must not contain slashes')
     }
 
     // Build new path
     const pathParts = fullOldPath.split('/')
     pathParts[pathParts.length - 1] = newName
-    const fullNewPath = pathParts.join('/')
+    const fullNewPath = paths.full(pathParts.join('/'))
+
+    // Folder grants can limit a user to part of the site
+    const denied = await checkFolderAccess(request, tenantId, [fullOldPath, fullNewPath], 'write')
+    if (denied) {
+      return denied
+    }
 
-    // Ensure new path is also within tenant
-    if (!fullNewPath.startsWith(`${tenantId}/`)) {
+    // Copying onto itself and then deleting the source would lose the file
+    if (fullNewPath === fullOldPath) {
       return NextResponse.json(
-        { error: 'Invalid new name' },
+        { error: 'The new name is the same as the old one' },
         { status: 400 }
       )
     }
 
+    const storage = getStorage()
+    const userId = request.headers.get('x-user-id')
+
+    // Only replace what is already there when the client asked for it
+    const targetExists = type === 'folder'
+      ? await hasObjects(storage, `${fullNewPath}/`)
+      : !!(await storage.head(fullNewPath))
+    if (targetExists && !overwrite) {
+      return NextResponse.json(
+        { error: `/${paths.toRelative(fullNewPath)} already exists`, conflict: true },
+        { status: 409 }
+      )
+    }
+    let renamedSize = 0
+
     if (type === 'folder') {
       // For folders, we need to rename all files within
-      const { blobs } = await list({
-        prefix: fullOldPath
-      })
+      const objects = await listAll(storage, `${fullOldPath}/`)
+      renamedSize = totalSize(objects)
+      await movePublishStates(tenantId, paths.toRelative(fullOldPath), paths.toRelative(fullNewPath))
 
       // Copy all files to new location
-      for (const blob of blobs) {
+      const copied: StoredObject[] = []
+      for (const object of objects) {
         // Get the relative path within the folder
-        const relativePath = blob.pathname.substring(fullOldPath.length)
-        const newBlobPath = fullNewPath + relativePath
+        const relativePath = object.pathname.substring(fullOldPath.length)
+        const newObjectPath = fullNewPath + relativePath
         
         // Copy to new location
-        await copy(blob.url, newBlobPath, { access: 'public' })
+        copied.push(await storage.copy(object.pathname, newObjectPath))
       }
 
       // Delete all old files
-      for (const blob of blobs) {
-        await del(blob.url)
-      }
+      await storage.delete(objects.map(object => object.pathname))
+      await onFilesWritten(tenantId, copied, userId)
+      await onFilesRemoved(tenantId, objects.map(object => object.pathname))
+      await rebaseImageManifests(copied, paths.toRelative(fullOldPath), paths.toRelative(fullNewPath))
 
     } else {
       // For single file rename
-      const { blobs } = await list({
-        prefix: fullOldPath,
-        limit: 1
-      })
+      const oldObject = await storage.head(fullOldPath)
 
-      if (blobs.length === 0) {
+      if (!oldObject) {
         return NextResponse.json(
           { error: 'File not found' },
           { status: 404 }
         )
       }
-
-      const oldBlob = blobs[0]
       
+      await movePublishStates(tenantId, paths.toRelative(fullOldPath), paths.toRelative(fullNewPath))
+      renamedSize = oldObject.size
+
       // Copy to new location
-      await copy(oldBlob.url, fullNewPath, { access: 'public' })
+      const renamed = await storage.copy(oldObject.pathname, fullNewPath)
       
       // Delete old file
-      await del(oldBlob.url)
+      await storage.delete(oldObject.pathname)
+      await onFilesWritten(tenantId, [renamed], userId)
+      await onFilesRemoved(tenantId, [oldObject.pathname])
+      await carryImageVariants(tenantId, paths.toRelative(fullOldPath), paths.toRelative(fullNewPath), 'move')
+    }
+
+    // Opt-in: point links to the old name at the new one
+    let updatedFiles: ReferenceUpdate[] = []
+    if (updateReferences) {
+      const tenant = await getTenantById(tenantId).catch(() => null)
+      updatedFiles = await rewriteReferences(
+        tenantId,
+        { from: paths.toRelative(fullOldPath), to: paths.toRelative(fullNewPath) },
+        tenant ? siteBases(tenant) : [],
+        userId,
+        // Pages outside the user's grants keep their links
+        await getRequestFolderAccess(request, tenantId)
+      )
+      logger.info('References updated:', { files: updatedFiles.length })
     }
 
+    await onSitePagesChanged(tenantId)
+    await recordAudit(tenantId, getAuditActor(request), {
+      action: 'file.rename',
+      paths: [paths.toRelative(fullOldPath), paths.toRelative(fullNewPath)],
+      sizeBefore: renamedSize,
+      sizeAfter: renamedSize,
+      details: { type: type === 'folder' ? 'folder' : 'file', updatedReferences: updatedFiles.map(update => update.path) }
+    })
+
     return NextResponse.json({
       success: true,
       message: `${type === 'folder' ? 'Folder' : 'File'} renamed successfully`,
-      newPath: fullNewPath.replace(`${tenantId}/`, '')
+      newPath: paths.toRelative(fullNewPath),
+      updatedFiles
     })
   } catch (error) {
+    if (error instanceof UnsafePathError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
     logger.error('Rename error:', error)
     return NextResponse.json(
       { error: 'Failed to rename' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { put, list, del } from '@vercel/blob'
+import { getStorage } from '@/lib/storage'
+import { TenantPathBuilder, UnsafePathError } from '@/lib/files/tenant-paths'
+import { computeETag, matchesIfMatch } from '@/lib/files/etag'
+import { onFilesWritten } from '@/lib/files/sync'
+import { recordNewPages } from '@/lib/files/publish'
+import { recordAudit, getAuditActor } from '@/lib/files/audit'
 import { logger } from '@/lib/utils/logger'
+import { withPermission, checkFolderAccess } from '@/lib/auth/permissions'
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('write', async (request: NextRequest) => {
   try {
     // Get tenant ID from headers (set by middleware)
     const tenantId = request.headers.get('x-tenant-id')
@@ -35,51 +41,83 @@ export async function POST(request: NextRequest) {
     
     // Ensure the path includes tenant ID for isolation
     // The path comes from the client without tenant ID, so we add it
-    const fullPath = `${tenantId}/${path}`
+    const relativePath = new TenantPathBuilder(tenantId).relative(path)
+    const fullPath = `${tenantId}/${relativePath}`
+    
+    // Folder grants can limit a user to part of the site
+    const denied = await checkFolderAccess(request, tenantId, [fullPath], 'write')
+    if (denied) {
+      return denied
+    }
 
     logger.info('Attempting to save file:', { fullPath })
 
-    // Check if file exists and delete it (Vercel Blob doesn't support overwrite)
-    try {
-      const { blobs } = await list({ prefix: fullPath, limit: 1 })
-      logger.info('Existing blobs found:', { count: blobs.length, blobs: blobs.map(b => ({ url: b.url, pathname: b.pathname })) })
-      
-      if (blobs.length > 0) {
-        logger.info('Deleting existing blob:', blobs[0].url)
-        await del(blobs[0].url)
-        logger.info('Successfully deleted existing blob')
+    // Optimistic concurrency: refuse to overwrite content the client has not seen
+    const ifMatch = request.headers.get('if-match')
+    if (ifMatch) {
+      const current = await getStorage().read(fullPath)
+      const currentETag = current ? computeETag(current.body) : null
+
+      if (!matchesIfMatch(ifMatch, currentETag)) {
+        logger.info('Save conflict:', { fullPath, ifMatch, currentETag })
+        return NextResponse.json(
+          {
+            error: 'File was changed by someone else',
+            currentContent: current ? new TextDecoder().decode(current.body) : null,
+            etag: currentETag
+          },
+          { status: 409 }
+        )
       }
-    } catch (e) {
-      // File might not exist, that's okay
-      logger.debug('File does not exist, creating new:', { fullPath, error: e })
     }
 
-    // Save the new content with addRandomSuffix: false to maintain exact path
-    logger.info('Saving new content to blob storage...')
-    const blob = await put(fullPath, content, {
-      access: 'public',
-      contentType,
-      addRandomSuffix: false
+    // Save the new content, overwriting any existing file at the exact path
+    logger.info('Saving new content to storage...')
+    const previous = await getStorage().head(fullPath)
+    const saved = await getStorage().put(fullPath, content, {
+      contentType
+    })
+
+    // Keep a numbered revision of what was just saved
+    const userId = request.headers.get('x-user-id')
+    if (!previous) {
+      await recordNewPages(tenantId, [relativePath], userId)
+    }
+    const revision = (await onFilesWritten(tenantId, [saved], userId)).get(relativePath)
+    await recordAudit(tenantId, getAuditActor(request), {
+      action: previous ? 'file.save' : 'file.create',
+      paths: [relativePath],
+      sizeBefore: previous?.size ?? null,
+      sizeAfter: saved.size,
+      details: { version: revision?.version ?? null }
     })
 
     logger.info('File saved successfully:', { 
       path: fullPath, 
       size: content.length,
-      url: blob.url,
-      pathname: blob.pathname 
+      url: saved.url,
+      pathname: saved.pathname 
     })
 
     return NextResponse.json({
       success: true,
       path: fullPath,
-      url: blob.url,
-      size: content.length
+      url: saved.url,
+      size: content.length,
+      version: revision?.version ?? null,
+      etag: computeETag(content)
     })
   } catch (error) {
+    if (error instanceof UnsafePathError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
     logger.error('Save file error:', error)
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to save file' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
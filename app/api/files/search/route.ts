@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSearchDocuments } from '@/lib/kv/search-index'
+import { searchDocuments } from '@/lib/files/search'
+import { listIndexedFiles } from '@/lib/kv/file-index'
+import { logger } from '@/lib/utils/logger'
+import { withPermission, getRequestFolderAccess } from '@/lib/auth/permissions'
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+// GET /api/files/search?q=...&limit=20 - Search the text content of HTML and markdown pages
+export const GET = withPermission('read', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = (searchParams.get('q') || '').trim()
+    const limit = Math.min(parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT, MAX_LIMIT)
+
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Query is required' },
+        { status: 400 }
+      )
+    }
+
+    // Users limited to some folders only find pages inside them
+    const access = await getRequestFolderAccess(request, tenantId)
+    const documents = (await getSearchDocuments(tenantId)).filter(document => access.can(document.path, 'read'))
+    const results = searchDocuments(documents, query, limit)
+
+    // Attach file URLs so the browser can open results directly
+    const urls = new Map((await listIndexedFiles(tenantId)).map(entry => [entry.path, entry.url]))
+
+    return NextResponse.json({
+      query,
+      results: results.map(result => ({ ...result, url: urls.get(result.path) })),
+      total: results.length
+    })
+  } catch (error) {
+    logger.error('Search files error:', error)
+    return NextResponse.json(
+      { error: 'Failed to search files' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { purgeTrash } from '@/lib/files/trash'
+import { recordAudit, getAuditActor, totalSize } from '@/lib/files/audit'
+import { logger } from '@/lib/utils/logger'
+import { withPermission } from '@/lib/auth/permissions'
+
+// POST /api/files/trash/purge - Permanently delete trash entries
+// Without ids the whole trash is emptied
+export const POST = withPermission('purge', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    const { ids } = await request.json().catch(() => ({}))
+
+    if (ids !== undefined && !Array.isArray(ids)) {
+      return NextResponse.json(
+        { error: 'ids must be an array' },
+        { status: 400 }
+      )
+    }
+
+    const purged = await purgeTrash(tenantId, ids)
+
+    logger.info('Trash purged:', { entries: purged.length })
+    const purgedFiles = purged.flatMap(entry => entry.files)
+    await recordAudit(tenantId, getAuditActor(request), {
+      action: 'trash.purge',
+      paths: purgedFiles.map(file => file.path),
+      sizeBefore: totalSize(purgedFiles),
+      sizeAfter: null,
+      details: { trashIds: purged.map(entry => entry.id) }
+    })
+
+    return NextResponse.json({
+      success: true,
+      purged: purged.map(entry => entry.id)
+    })
+  } catch (error) {
+    logger.error('Purge trash error:', error)
+    return NextResponse.json(
+      { error: 'Failed to purge trash' },
+      { status: 500 }
+    )
+  }
+})
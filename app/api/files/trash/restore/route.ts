@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { restoreFromTrash, listTrash, TrashConflictError } from '@/lib/files/trash'
+import { recordAudit, getAuditActor, totalSize } from '@/lib/files/audit'
+import { logger } from '@/lib/utils/logger'
+import { withPermission, checkFolderAccess } from '@/lib/auth/permissions'
+
+// POST /api/files/trash/restore - Move a trash entry back to its original path
+// Returns 409 with the conflicting paths unless overwrite is set
+export const POST = withPermission('write', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    const { id, overwrite } = await request.json()
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Trash entry id is required' },
+        { status: 400 }
+      )
+    }
+
+    // Folder grants can limit a user to part of the site
+    const trashed = (await listTrash(tenantId)).find(entry => entry.id === id)
+    const denied = trashed && await checkFolderAccess(request, tenantId, [trashed.originalPath], 'write')
+    if (denied) {
+      return denied
+    }
+
+    const entry = await restoreFromTrash(tenantId, id, {
+      overwrite: overwrite === true,
+      restoredBy: request.headers.get('x-user-id')
+    })
+    
+    if (!entry) {
+      return NextResponse.json(
+        { error: 'Trash entry not found' },
+        { status: 404 }
+      )
+    }
+
+    logger.info('Restored from trash:', { path: entry.originalPath, files: entry.files.length })
+    await recordAudit(tenantId, getAuditActor(request), {
+      action: 'trash.restore',
+      paths: entry.files.map(file => file.path),
+      sizeBefore: null,
+      sizeAfter: totalSize(entry.files),
+      details: { type: entry.type, trashId: entry.id, overwrite: overwrite === true }
+    })
+
+    return NextResponse.json({
+      success: true,
+      path: entry.originalPath,
+      type: entry.type,
+      restored: entry.files.map(file => file.path)
+    })
+  } catch (error) {
+    if (error instanceof TrashConflictError) {
+      return NextResponse.json(
+        { error: error.message, conflicts: error.conflicts },
+        { status: 409 }
+      )
+    }
+
+    logger.error('Restore from trash error:', error)
+    return NextResponse.json(
+      { error: 'Failed to restore from trash' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listTrash, getRetentionDays } from '@/lib/files/trash'
+import { logger } from '@/lib/utils/logger'
+import { withPermission, getRequestFolderAccess } from '@/lib/auth/permissions'
+
+// GET /api/files/trash - List deleted files and folders that can still be restored
+export const GET = withPermission('read', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    // Users limited to some folders only see what was deleted from them
+    const access = await getRequestFolderAccess(request, tenantId)
+    const entries = (await listTrash(tenantId)).filter(entry => access.can(entry.originalPath, 'read'))
+
+    return NextResponse.json({
+      entries,
+      retentionDays: getRetentionDays()
+    })
+  } catch (error) {
+    logger.error('List trash error:', error)
+    return NextResponse.json(
+      { error: 'Failed to list trash' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { uploadFiles } from '@/lib/files/uploads'
+import { recordAudit, getAuditActor, totalSize } from '@/lib/files/audit'
+import { TenantPathBuilder, UnsafePathError } from '@/lib/files/tenant-paths'
+import { logger } from '@/lib/utils/logger'
+import { withPermission, checkFolderAccess } from '@/lib/auth/permissions'
+
+// POST /api/files/upload - Upload images, fonts, PDFs and other assets into a folder
+// multipart/form-data: folder, conflict (rename | overwrite), one or more file fields
+export const POST = withPermission('write', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    const formData = await request.formData()
+    const folder = new TenantPathBuilder(tenantId).relative(String(formData.get('folder') || ''), { allowRoot: true })
+    const conflict = String(formData.get('conflict') || 'rename')
+    const blobs = formData.getAll('file').filter((value): value is File => value instanceof File)
+
+    if (blobs.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one file is required' },
+        { status: 400 }
+      )
+    }
+
+    if (conflict !== 'rename' && conflict !== 'overwrite') {
+      return NextResponse.json(
+        { error: 'Conflict policy must be rename or overwrite' },
+        { status: 400 }
+      )
+    }
+
+    // Folder grants can limit a user to part of the site
+    const denied = await checkFolderAccess(request, tenantId, [folder], 'write')
+    if (denied) {
+      return denied
+    }
+
+    const files = blobs.map(blob => ({
+      name: blob.name,
+      size: blob.size,
+      read: async () => Buffer.from(await blob.arrayBuffer())
+    }))
+
+    const report = await uploadFiles(tenantId, folder, files, {
+      conflict,
+      uploadedBy: request.headers.get('x-user-id')
+    })
+
+    logger.info('Files uploaded:', { folder, uploaded: report.uploaded.length, rejected: report.rejected })
+
+    if (report.uploaded.length === 0) {
+      return NextResponse.json(
+        { error: report.rejected.map(item => `${item.name}: ${item.reason}`).join('; '), report },
+        { status: 400 }
+      )
+    }
+
+    await recordAudit(tenantId, getAuditActor(request), {
+      action: 'file.upload',
+      paths: report.uploaded.map(item => item.path),
+      sizeBefore: null,
+      sizeAfter: totalSize(report.uploaded),
+      details: { conflict, rejected: report.rejected.length }
+    })
+
+    return NextResponse.json({ success: true, report })
+  } catch (error) {
+    if (error instanceof UnsafePathError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    logger.error('Upload error:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload files' },
+      { status: 500 }
+    )
+  }
+})
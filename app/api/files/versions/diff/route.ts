@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage } from '@/lib/storage'
+import { listRevisions, getRevision } from '@/lib/files/versions'
+import { diffLines, summarizeDiff } from '@/lib/utils/diff'
+import { TenantPathBuilder, UnsafePathError } from '@/lib/files/tenant-paths'
+import { logger } from '@/lib/utils/logger'
+import { withPermission, checkFolderAccess } from '@/lib/auth/permissions'
+
+// GET /api/files/versions/diff?path=...&from=N&to=M - Line diff between two revisions
+// `to` defaults to the latest revision; `to=current` compares against the file as it is now
+export const GET = withPermission('read', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const requestedPath = searchParams.get('path')
+    const from = parseInt(searchParams.get('from') || '', 10)
+    const toParam = searchParams.get('to')
+
+    if (!requestedPath || isNaN(from)) {
+      return NextResponse.json(
+        { error: 'Path and from version are required' },
+        { status: 400 }
+      )
+    }
+
+    const path = new TenantPathBuilder(tenantId).relative(requestedPath)
+
+    // Folder grants can limit a user to part of the site
+    const denied = await checkFolderAccess(request, tenantId, [path], 'read')
+    if (denied) {
+      return denied
+    }
+
+    const fromRevision = await getRevision(tenantId, path, from)
+    
+    if (!fromRevision) {
+      return NextResponse.json(
+        { error: `Version ${from} not found` },
+        { status: 404 }
+      )
+    }
+
+    let to: number | 'current'
+    let toContent: string | null
+
+    if (toParam === 'current') {
+      to = 'current'
+      toContent = await getStorage().readText(`${tenantId}/${path}`)
+    } else {
+      const revisions = await listRevisions(tenantId, path)
+      to = toParam ? parseInt(toParam, 10) : revisions[revisions.length - 1].version
+      toContent = (await getRevision(tenantId, path, to))?.content ?? null
+    }
+
+    if (toContent === null) {
+      return NextResponse.json(
+        { error: `Version ${to} not found` },
+        { status: 404 }
+      )
+    }
+
+    const lines = diffLines(fromRevision.content, toContent)
+
+    return NextResponse.json({
+      path,
+      from,
+      to,
+      summary: summarizeDiff(lines),
+      lines
+    })
+  } catch (error) {
+    if (error instanceof UnsafePathError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    logger.error('Diff versions error:', error)
+    return NextResponse.json(
+      { error: 'Failed to diff versions' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage } from '@/lib/storage'
+import { getRevision } from '@/lib/files/versions'
+import { onFilesWritten } from '@/lib/files/sync'
+import { TenantPathBuilder, UnsafePathError } from '@/lib/files/tenant-paths'
+import { recordAudit, getAuditActor } from '@/lib/files/audit'
+import { logger } from '@/lib/utils/logger'
+import { withPermission, checkFolderAccess } from '@/lib/auth/permissions'
+
+// POST /api/files/versions/restore - Restore a file to an earlier revision
+// The restored content is saved as a new revision, so nothing in the history is lost
+export const POST = withPermission('write', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    const { path: requestedPath, version } = await request.json()
+
+    if (!requestedPath || typeof version !== 'number') {
+      return NextResponse.json(
+        { error: 'Path and version are required' },
+        { status: 400 }
+      )
+    }
+
+    const path = new TenantPathBuilder(tenantId).relative(requestedPath)
+
+    // Folder grants can limit a user to part of the site
+    const denied = await checkFolderAccess(request, tenantId, [path], 'write')
+    if (denied) {
+      return denied
+    }
+
+    const found = await getRevision(tenantId, path, version)
+    
+    if (!found) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    const { contentType } = found.revision
+    const userId = request.headers.get('x-user-id')
+    const previous = await getStorage().head(`${tenantId}/${path}`)
+    const saved = await getStorage().put(`${tenantId}/${path}`, found.content, { contentType })
+    const revision = (await onFilesWritten(tenantId, [saved], userId)).get(path)
+
+    logger.info('File restored:', { path, restoredVersion: version, newVersion: revision?.version ?? null })
+    await recordAudit(tenantId, getAuditActor(request), {
+      action: 'version.restore',
+      paths: [path],
+      sizeBefore: previous?.size ?? null,
+      sizeAfter: saved.size,
+      details: { restoredVersion: version, version: revision?.version ?? null }
+    })
+
+    return NextResponse.json({
+      success: true,
+      path,
+      url: saved.url,
+      restoredVersion: version,
+      version: revision?.version ?? null
+    })
+  } catch (error) {
+    if (error instanceof UnsafePathError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    logger.error('Restore version error:', error)
+    return NextResponse.json(
+      { error: 'Failed to restore version' },
+      { status: 500 }
+    )
+  }
+})
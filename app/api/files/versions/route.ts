@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listRevisions, getRevision } from '@/lib/files/versions'
+import { TenantPathBuilder, UnsafePathError } from '@/lib/files/tenant-paths'
+import { logger } from '@/lib/utils/logger'
+import { withPermission, checkFolderAccess } from '@/lib/auth/permissions'
+
+// GET /api/files/versions?path=... - List revisions of a file
+// GET /api/files/versions?path=...&version=N - Fetch a single revision with its content
+export const GET = withPermission('read', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const requestedPath = searchParams.get('path')
+    const version = searchParams.get('version')
+
+    if (!requestedPath) {
+      return NextResponse.json(
+        { error: 'Path is required' },
+        { status: 400 }
+      )
+    }
+
+    const path = new TenantPathBuilder(tenantId).relative(requestedPath)
+
+    // Folder grants can limit a user to part of the site
+    const denied = await checkFolderAccess(request, tenantId, [path], 'read')
+    if (denied) {
+      return denied
+    }
+
+    if (version) {
+      const found = await getRevision(tenantId, path, parseInt(version, 10))
+      
+      if (!found) {
+        return NextResponse.json(
+          { error: 'Version not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        path,
+        revision: found.revision,
+        content: found.content
+      })
+    }
+
+    const revisions = await listRevisions(tenantId, path)
+
+    return NextResponse.json({
+      path,
+      revisions
+    })
+  } catch (error) {
+    if (error instanceof UnsafePathError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    logger.error('List versions error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load versions' },
+      { status: 500 }
+    )
+  }
+})
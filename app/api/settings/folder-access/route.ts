@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  listFolderGrants,
+  listRestrictedUsers,
+  addFolderGrant,
+  removeFolderGrant,
+  liftFolderRestriction,
+  FolderGrantError
+} from '@/lib/files/folder-access'
+import { recordAudit, getAuditActor } from '@/lib/files/audit'
+import { logger } from '@/lib/utils/logger'
+import { withPermission } from '@/lib/auth/permissions'
+
+// GET /api/settings/folder-access - Folder grants and restricted users for this tenant (admins only)
+export const GET = withPermission('settings', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json({
+      grants: await listFolderGrants(tenantId),
+      restricted: await listRestrictedUsers(tenantId)
+    })
+  } catch (error) {
+    logger.error('List folder grants error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load folder access' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/settings/folder-access - Grant a user read or write access to a folder (admins only)
+export const POST = withPermission('settings', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    const { user, folder, access } = await request.json()
+    const grant = await addFolderGrant(tenantId, { user, folder, access }, request.headers.get('x-user-id'))
+
+    logger.info('Folder access granted:', { user: grant.user, folder: grant.folder, access: grant.access })
+    await recordAudit(tenantId, getAuditActor(request), {
+      action: 'settings.folder-grant.add',
+      paths: [grant.folder],
+      details: { user: grant.user, access: grant.access }
+    })
+
+    return NextResponse.json({ success: true, grant })
+  } catch (error) {
+    if (error instanceof FolderGrantError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    logger.error('Add folder grant error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save folder access' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/settings/folder-access?id=... - Remove a folder grant (admins only)
+// DELETE /api/settings/folder-access?user=... - Lift a user's restriction, giving them the whole site back
+export const DELETE = withPermission('settings', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    const searchParams = new URL(request.url).searchParams
+    const id = searchParams.get('id')
+    const user = searchParams.get('user')
+
+    if (user) {
+      if (!(await liftFolderRestriction(tenantId, user))) {
+        return NextResponse.json(
+          { error: 'User is not restricted' },
+          { status: 404 }
+        )
+      }
+
+      logger.info('Folder restriction lifted:', { user })
+      await recordAudit(tenantId, getAuditActor(request), {
+        action: 'settings.folder-grant.lift',
+        paths: [],
+        details: { user }
+      })
+
+      return NextResponse.json({ success: true })
+    }
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Grant id or user is required' },
+        { status: 400 }
+      )
+    }
+
+    const removed = await removeFolderGrant(tenantId, id)
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'Grant not found' },
+        { status: 404 }
+      )
+    }
+
+    logger.info('Folder access removed:', { id })
+
+    // Removing the last grant does not lift the restriction
+    const remaining = (await listFolderGrants(tenantId)).filter(grant => grant.user === removed.user)
+    await recordAudit(tenantId, getAuditActor(request), {
+      action: 'settings.folder-grant.remove',
+      paths: [removed.folder],
+      details: { user: removed.user, access: removed.access, remainingGrants: remaining.length }
+    })
+
+    return NextResponse.json({ success: true, remainingGrants: remaining.length })
+  } catch (error) {
+    logger.error('Remove folder grant error:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove folder access' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRobotsSettings, saveRobotsSettings, RobotsSettingsError } from '@/lib/files/seo'
+import { onSitePagesChanged } from '@/lib/files/sync'
+import { recordAudit, getAuditActor } from '@/lib/files/audit'
+import { logger } from '@/lib/utils/logger'
+import { withPermission } from '@/lib/auth/permissions'
+
+// GET /api/settings/robots - robots.txt settings for this tenant's site
+export const GET = withPermission('read', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json({ settings: await getRobotsSettings(tenantId) })
+  } catch (error) {
+    logger.error('Get robots settings error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load robots.txt settings' },
+      { status: 500 }
+    )
+  }
+})
+
+// PUT /api/settings/robots - Change robots.txt settings and regenerate it (admins only)
+export const PUT = withPermission('settings', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    const { allowIndexing, disallow, extraRules } = await request.json()
+    const previous = await getRobotsSettings(tenantId)
+    const settings = await saveRobotsSettings(tenantId, { allowIndexing, disallow, extraRules })
+    await onSitePagesChanged(tenantId)
+
+    logger.info('Robots settings changed:', settings)
+    await recordAudit(tenantId, getAuditActor(request), {
+      action: 'settings.robots',
+      paths: ['robots.txt'],
+      details: { before: previous, after: settings }
+    })
+
+    return NextResponse.json({ success: true, settings })
+  } catch (error) {
+    if (error instanceof RobotsSettingsError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    logger.error('Save robots settings error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save robots.txt settings' },
+      { status: 500 }
+    )
+  }
+})
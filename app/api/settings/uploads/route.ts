@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUploadPolicy, saveUploadPolicy, UploadPolicyError, MAX_UPLOAD_FILE_SIZE } from '@/lib/files/uploads'
+import { recordAudit, getAuditActor } from '@/lib/files/audit'
+import { logger } from '@/lib/utils/logger'
+import { withPermission } from '@/lib/auth/permissions'
+
+// GET /api/settings/uploads - Upload size limit and allowed content types for this tenant
+export const GET = withPermission('read', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json({
+      policy: await getUploadPolicy(tenantId),
+      maxAllowedFileSize: MAX_UPLOAD_FILE_SIZE
+    })
+  } catch (error) {
+    logger.error('Get upload policy error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load upload settings' },
+      { status: 500 }
+    )
+  }
+})
+
+// PUT /api/settings/uploads - Change the upload policy (admins only)
+export const PUT = withPermission('settings', async (request: NextRequest) => {
+  try {
+    // Get tenant ID from headers (set by middleware)
+    const tenantId = request.headers.get('x-tenant-id')
+    
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'No tenant context found' },
+        { status: 401 }
+      )
+    }
+
+    const { maxFileSize, allowedTypes } = await request.json()
+    const previous = await getUploadPolicy(tenantId)
+    const policy = await saveUploadPolicy(tenantId, { maxFileSize, allowedTypes })
+
+    logger.info('Upload policy changed:', policy)
+    await recordAudit(tenantId, getAuditActor(request), {
+      action: 'settings.uploads',
+      paths: [],
+      details: { before: previous, after: policy }
+    })
+
+    return NextResponse.json({ success: true, policy })
+  } catch (error) {
+    if (error instanceof UploadPolicyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    logger.error('Save upload policy error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save upload settings' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage } from '@/lib/storage'
+import { isInternalPath } from '@/lib/files/internal-paths'
+import { unsafePathReason } from '@/lib/files/tenant-paths'
+import { isPublicSiteFile, SITE_SANDBOX_POLICY } from '@/lib/site/serve'
+import { checkFolderAccess } from '@/lib/auth/permissions'
+import { logger } from '@/lib/utils/logger'
+
+// GET /api/storage/{tenantId}/{path} - Serve files written by the local storage driver
+// Vercel Blob serves its own public URLs, so this route only answers for STORAGE_DRIVER=local
+// A tenant's own users can read their files within their folder grants; anyone else
+// only gets files that are live on the tenant's public site
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  try {
+    const storage = getStorage()
+
+    if (storage.name !== 'local') {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const { path } = await params
+    const [tenantId, ...segments] = path
+    const relativePath = segments.join('/')
+
+    // Bookkeeping folders (versions, trash, settings, audit) are never served
+    if (!tenantId || unsafePathReason(relativePath) || isInternalPath(relativePath)) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 })
+    }
+
+    if (request.headers.get('x-tenant-id') === tenantId) {
+      // Folder grants can limit a user to part of the site
+      const denied = await checkFolderAccess(request, tenantId, [relativePath], 'read')
+      if (denied) {
+        return denied
+      }
+    } else if (!await isPublicSiteFile(tenantId, relativePath)) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 })
+    }
+
+    const file = await storage.read(`${tenantId}/${relativePath}`)
+
+    if (!file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 })
+    }
+
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.object.contentType || 'application/octet-stream',
+        'Cache-Control': 'no-store',
+        'Content-Security-Policy': SITE_SANDBOX_POLICY,
+        'X-Content-Type-Options': 'nosniff'
+      }
+    })
+  } catch (error) {
+    logger.error('Serve storage file error:', error)
+    return NextResponse.json({ error: 'Failed to read file' }, { status: 500 })
+  }
+}
@@ -4,6 +4,11 @@ import { useState, useEffect } from 'react'
 import { getApiUrl } from '@/lib/utils/api'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import UploadSettings from '@/components/UploadSettings'
+import RobotsSettings from '@/components/RobotsSettings'
+import FolderAccessSettings from '@/components/FolderAccessSettings'
+import AuditLogViewer from '@/components/AuditLogViewer'
+import { resolveRole, hasPermission } from '@/lib/auth/roles'
 
 export default function SettingsPage() {
   const [loading, setLoading] = useState(true)
@@ -36,7 +41,7 @@ export default function SettingsPage() {
     )
   }
 
-  if (!user || (user.role !== 'admin' && user.role !== 'owner')) {
+  if (!user || !hasPermission(resolveRole(user.role), 'settings')) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -108,6 +113,14 @@ export default function SettingsPage() {
             </div>
           </CardContent>
         </Card>
+
+        <UploadSettings />
+
+        <RobotsSettings />
+
+        <FolderAccessSettings />
+
+        <AuditLogViewer />
       </div>
     </div>
   )
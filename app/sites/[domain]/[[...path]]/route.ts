@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTenantByDomain } from '@/lib/site/tenants'
+import { serveSite, siteNotFound } from '@/lib/site/serve'
+import { logger } from '@/lib/utils/logger'
+
+interface RouteContext {
+  params: Promise<{ domain: string; path?: string[] }>
+}
+
+// GET /sites/{domain}/{path} - Serve the site of the tenant that owns a custom domain
+// Only reached through the middleware rewrite for custom domain hosts
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { domain, path = [] } = await params
+
+    // Refuse direct hits; the host header is what identifies the site
+    if (request.headers.get('x-site-host') !== domain) {
+      return siteNotFound()
+    }
+    
+    const tenant = await getTenantByDomain(domain)
+    if (!tenant) {
+      return siteNotFound()
+    }
+
+    const requestPath = path.join('/') + (request.nextUrl.pathname.endsWith('/') && path.length > 0 ? '/' : '')
+
+    return await serveSite(request, tenant.id, requestPath, '/')
+  } catch (error) {
+    logger.error('Serve custom domain error:', error)
+    return new NextResponse('Internal server error', {
+      status: 500,
+      headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store' }
+    })
+  }
+}
+
+export async function HEAD(request: NextRequest, context: RouteContext) {
+  const response = await GET(request, context)
+  return new NextResponse(null, { status: response.status, headers: response.headers })
+}
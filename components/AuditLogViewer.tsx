@@ -0,0 +1,144 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { getApiUrl } from '@/lib/utils/api'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { AuditEntry } from '@/lib/files/audit'
+
+function formatSize(size: number | null): string {
+  if (size === null) return '–'
+  if (size < 1024) return `${size} B`
+  if (size < 1024 * 1024) return `${Math.round(size / 1024 * 10) / 10} KB`
+  return `${Math.round(size / 1024 / 1024 * 10) / 10} MB`
+}
+
+export default function AuditLogViewer() {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [user, setUser] = useState('')
+  const [path, setPath] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadEntries = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const params = new URLSearchParams()
+      if (user.trim()) params.set('user', user.trim())
+      if (path.trim()) params.set('path', path.trim())
+      if (from) params.set('from', from)
+      if (to) params.set('to', to)
+
+      const response = await fetch(getApiUrl(`/api/audit?${params}`))
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load the audit log')
+      }
+
+      setEntries(data.entries)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the audit log')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    // Only the initial load; filters apply when the button is pressed
+    loadEntries()
+  }, [])
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Audit Log</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-600 mb-4">
+          Every file change, publish, AI tool call and settings change, newest first. Without dates the last 30 days are shown.
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 mb-4">
+          <Input
+            value={user}
+            onChange={(e) => setUser(e.target.value)}
+            placeholder="User id or email"
+          />
+          <Input
+            value={path}
+            onChange={(e) => setPath(e.target.value)}
+            placeholder="Path or folder"
+          />
+          <Input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            aria-label="From"
+          />
+          <Input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            aria-label="To"
+          />
+        </div>
+
+        <Button onClick={loadEntries} disabled={loading} className="mb-4">
+          {loading ? 'Loading...' : 'Search Audit Log'}
+        </Button>
+
+        {error && (
+          <p className="text-sm mb-4 text-red-600">{error}</p>
+        )}
+
+        {!error && entries.length === 0 && !loading && (
+          <p className="text-sm text-gray-500">No matching entries</p>
+        )}
+
+        {entries.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b-2 border-black">
+                  <th className="py-2 pr-2">When</th>
+                  <th className="py-2 pr-2">User</th>
+                  <th className="py-2 pr-2">Action</th>
+                  <th className="py-2 pr-2">Paths</th>
+                  <th className="py-2 pr-2">Size</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr key={entry.id} className="border-b border-gray-200 align-top">
+                    <td className="py-2 pr-2 whitespace-nowrap">{new Date(entry.at).toLocaleString()}</td>
+                    <td className="py-2 pr-2">
+                      <div>{entry.email || entry.userId || 'System'}</div>
+                      <div className="text-xs text-gray-500">{entry.role}</div>
+                    </td>
+                    <td className="py-2 pr-2 font-mono">{entry.action}</td>
+                    <td className="py-2 pr-2 font-mono break-all">
+                      {entry.paths.slice(0, 3).map(entryPath => (
+                        <div key={entryPath}>/{entryPath}</div>
+                      ))}
+                      {entry.paths.length > 3 && (
+                        <div className="text-xs text-gray-500">and {entry.paths.length - 3} more</div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-2 whitespace-nowrap">
+                      {formatSize(entry.sizeBefore)} → {formatSize(entry.sizeAfter)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,13 +1,22 @@
 'use client'
 
-import { useState, useEffect, useImperativeHandle, forwardRef } from 'react'
+import { useState, useEffect, useRef, useImperativeHandle, forwardRef } from 'react'
 import { getApiUrl } from '@/lib/utils/api'
 import FileContextMenu from './FileContextMenu'
 import FileModal from './FileModal'
 import MoveModal from './MoveModal'
 import FileBrowserToolbar from './FileBrowserToolbar'
 import FileTreeRenderer from './FileTreeRenderer'
+import TrashView from './TrashView'
+import SearchResults from './SearchResults'
+import SchedulePublishModal, { type PublishSchedule } from './SchedulePublishModal'
+import ImportModal from './ImportModal'
+import LinkCheckModal from './LinkCheckModal'
+import ReferenceUpdatesModal from './ReferenceUpdatesModal'
 import { FileNode } from '@/lib/types'
+import { isOptimizableImage } from '@/lib/files/image-paths'
+import type { ReferenceUpdate } from '@/lib/files/references'
+import { resolveRole, type Role } from '@/lib/auth/roles'
 
 interface FileBrowserProps {
   onFileSelect: (file: FileNode) => void
@@ -29,6 +38,7 @@ const FileBrowser = forwardRef<FileBrowserRef, FileBrowserProps>(({ onFileSelect
   const [searchTerm, setSearchTerm] = useState('')
   const [sortBy, setSortBy] = useState<SortBy>('name')
   const [sortOrder, setSortOrder] = useState<SortOrder>('asc')
+  const [showTrash, setShowTrash] = useState(false)
   
   // Context menu state
   const [contextMenu, setContextMenu] = useState<{
@@ -40,27 +50,58 @@ const FileBrowser = forwardRef<FileBrowserRef, FileBrowserProps>(({ onFileSelect
   
   // Modal state
   const [modal, setModal] = useState<{
-    type: 'newFile' | 'newFolder' | 'rename' | 'delete' | 'fileType' | 'move' | null
+    type: 'newFile' | 'newFolder' | 'rename' | 'delete' | 'fileType' | 'move' | 'schedule' | 'import' | 'linkCheck' | null
     node?: FileNode
   }>({ type: null })
   
+  // The user's role decides which actions the context menu offers
+  const [role, setRole] = useState<Role>('viewer')
+  
+  // Files whose links were rewritten by the last move or rename, for review
+  const [referenceUpdates, setReferenceUpdates] = useState<ReferenceUpdate[] | null>(null)
+  
   // Drag and drop state
   const [draggedItem, setDraggedItem] = useState<FileNode | null>(null)
   const [dragOverFolder, setDragOverFolder] = useState<string | null>(null)
+  
+  // Latest expanded folders for reloads triggered from stale closures (e.g. the ref handle)
+  const expandedFoldersRef = useRef(expandedFolders)
+  expandedFoldersRef.current = expandedFolders
+  const loadingFoldersRef = useRef<Set<string>>(new Set())
+
+  // Hidden file picker for "Upload Files..." and the folder it uploads into
+  const uploadInputRef = useRef<HTMLInputElement>(null)
+  const uploadFolderRef = useRef('')
+
+  // Fetch the direct children of one folder; subfolders come back unloaded
+  const loadFolder = async (folderPath: string): Promise<FileNode[]> => {
+    const response = await fetch(getApiUrl(`/api/files/list?folder=${encodeURIComponent(folderPath)}&depth=1`))
+    
+    if (!response.ok) {
+      throw new Error('Failed to load files')
+    }
+    
+    const data = await response.json()
+    return data.files.children || []
+  }
 
   const loadFiles = async () => {
     try {
       setLoading(true)
-      const response = await fetch(getApiUrl('/api/files/list'))
+      let tree: FileNode = { name: 'root', type: 'folder', path: '', children: await loadFolder('') }
       
-      if (!response.ok) {
-        throw new Error('Failed to load files')
-      }
-      
-      const data = await response.json()
-      setFiles(data.files)
+      // Reload every folder that is open, parents before children
+      const openFolders = Array.from(expandedFoldersRef.current)
+        .filter(path => path && path !== '/')
+        .sort((a, b) => a.split('/').length - b.split('/').length)
       
+      for (const folderPath of openFolders) {
+        if (findNode(tree, folderPath)) {
+          tree = withChildren(tree, folderPath, await loadFolder(folderPath))
+        }
+      }
       
+      setFiles(tree)
       setError(null)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load files')
@@ -73,6 +114,13 @@ const FileBrowser = forwardRef<FileBrowserRef, FileBrowserProps>(({ onFileSelect
     loadFiles()
   }, [])
 
+  useEffect(() => {
+    fetch(getApiUrl('/api/auth/me'))
+      .then(response => response.ok ? response.json() : null)
+      .then(user => setRole(resolveRole(user?.role)))
+      .catch(err => console.error('Failed to load user role:', err))
+  }, [])
+
   // Expose loadFiles method via ref
   useImperativeHandle(ref, () => ({
     refreshFiles: loadFiles
@@ -99,6 +147,22 @@ const FileBrowser = forwardRef<FileBrowserRef, FileBrowserProps>(({ onFileSelect
     setExpandedFolders(newExpanded)
   }
 
+  // Load a folder's contents the first time it is opened
+  useEffect(() => {
+    if (!files) return
+    
+    expandedFolders.forEach(path => {
+      const node = findNode(files, path)
+      if (!node || node.children || loadingFoldersRef.current.has(path)) return
+      
+      loadingFoldersRef.current.add(path)
+      loadFolder(path)
+        .then(children => setFiles(current => current ? withChildren(current, path, children) : current))
+        .catch(err => setError(err instanceof Error ? err.message : 'Failed to load files'))
+        .finally(() => loadingFoldersRef.current.delete(path))
+    })
+  }, [expandedFolders, files])
+
   const handleNewFile = async (parentPath: string, fileName: string, fileType: string) => {
     try {
       // Generate template content based on file type
@@ -312,7 +376,12 @@ Add your notes about this folder here...
     }
   }
 
-  const handleRename = async (node: FileNode, newName: string) => {
+  const handleRename = async (
+    node: FileNode,
+    newName: string,
+    updateReferences: boolean = false,
+    overwrite: boolean = false
+  ): Promise<void> => {
     try {
       const response = await fetch(getApiUrl('/api/files/rename'), {
         method: 'POST',
@@ -320,14 +389,29 @@ Add your notes about this folder here...
         body: JSON.stringify({
           oldPath: node.path,
           newName,
-          type: node.type
+          type: node.type,
+          updateReferences,
+          overwrite
         })
       })
+
+      // The new name is taken; only replace it when the user says so
+      if (response.status === 409) {
+        const data = await response.json()
+        if (confirm(`${data.error}. Replace it?`)) {
+          return handleRename(node, newName, updateReferences, true)
+        }
+        return
+      }
       
       if (response.ok) {
         const data = await response.json()
         await loadFiles()
         
+        if (data.updatedFiles?.length > 0) {
+          setReferenceUpdates(data.updatedFiles)
+        }
+        
         // If the renamed file was selected, update selection with new path
         if (selectedFile?.path === node.path) {
           onFileSelect({
@@ -361,23 +445,29 @@ Add your notes about this folder here...
     }
   }
 
+  // Publish, unpublish or schedule a page; throws with the server's message on failure
+  const updatePublishState = async (node: FileNode, change: {
+    status: 'draft' | 'published' | 'scheduled'
+    publishAt?: string | null
+    unpublishAt?: string | null
+  }) => {
+    const response = await fetch(getApiUrl('/api/files/publish'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ path: node.path, ...change })
+    })
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      throw new Error(data.error || 'Failed to update publish state')
+    }
+
+    await loadFiles()
+  }
+
   const handlePublish = async (node: FileNode) => {
     try {
-      // Move file out of unpublished folder
-      const targetPath = node.path.replace('/unpublished/', '/')
-      
-      const response = await fetch(getApiUrl('/api/files/move'), {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          sourcePath: node.path,
-          targetPath
-        })
-      })
-      
-      if (response.ok) {
-        await loadFiles()
-      }
+      await updatePublishState(node, { status: 'published' })
     } catch (error) {
       console.error('Failed to publish:', error)
     }
@@ -385,30 +475,72 @@ Add your notes about this folder here...
 
   const handleUnpublish = async (node: FileNode) => {
     try {
-      // Move file into unpublished folder
-      const pathParts = node.path.split('/')
-      const fileName = pathParts.pop()
-      pathParts.push('unpublished', fileName!)
-      const targetPath = pathParts.join('/')
-      
-      const response = await fetch(getApiUrl('/api/files/move'), {
+      await updatePublishState(node, { status: 'draft' })
+    } catch (error) {
+      console.error('Failed to unpublish:', error)
+    }
+  }
+
+  const handleSchedule = async (node: FileNode, schedule: PublishSchedule) => {
+    // Without a publish time the page goes live now and only the unpublish is scheduled
+    await updatePublishState(node, {
+      status: schedule.publishAt ? 'scheduled' : 'published',
+      ...schedule
+    })
+    setModal({ type: null })
+  }
+
+  // Generate AVIF/WebP variants at responsive widths for an uploaded image
+  const handleOptimizeImage = async (node: FileNode) => {
+    try {
+      const response = await fetch(getApiUrl('/api/files/images'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          sourcePath: node.path,
-          targetPath
-        })
+        body: JSON.stringify({ path: node.path })
       })
-      
-      if (response.ok) {
-        await loadFiles()
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to optimise image')
       }
+
+      await loadFiles()
     } catch (error) {
-      console.error('Failed to unpublish:', error)
+      console.error('Failed to optimise image:', error)
+      alert(`Failed to optimise image: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
   }
 
-  const handleMove = async (sourcePath: string, targetFolder: string, isFolder: boolean = false) => {
+  // Download the published files of a folder ('' for the whole site) as a zip
+  const handleExport = async (folderPath: string) => {
+    try {
+      const response = await fetch(getApiUrl(`/api/export?folder=${encodeURIComponent(folderPath)}`))
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        alert(data.error || 'Failed to export')
+        return
+      }
+
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'site.zip'
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = fileName
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Failed to export:', error)
+    }
+  }
+
+  const handleMove = async (
+    sourcePath: string,
+    targetFolder: string,
+    isFolder: boolean = false,
+    updateReferences: boolean = false,
+    overwrite: boolean = false
+  ): Promise<void> => {
     if (!sourcePath || targetFolder === undefined) {
       console.error('Source path and target folder are required')
       return
@@ -424,14 +556,29 @@ Add your notes about this folder here...
         body: JSON.stringify({
           sourcePath,
           targetFolder,
-          isFolder
+          isFolder,
+          updateReferences,
+          overwrite
         })
       })
+
+      // Something with that name is already there; only replace it when the user says so
+      if (response.status === 409) {
+        const data = await response.json()
+        if (confirm(`${data.error}. Replace it?`)) {
+          return handleMove(sourcePath, targetFolder, isFolder, updateReferences, true)
+        }
+        return
+      }
       
       if (response.ok) {
         const data = await response.json()
         await loadFiles()
         
+        if (data.updatedFiles?.length > 0) {
+          setReferenceUpdates(data.updatedFiles)
+        }
+        
         // Update selected file if it was moved
         if (selectedFile?.path === sourcePath) {
           // The API returns newPath which is the new location
@@ -461,9 +608,42 @@ Add your notes about this folder here...
     e.dataTransfer.setData('text/plain', node.path)
   }
 
+  // Upload files dragged in from the desktop; existing names get a numbered copy
+  const handleUpload = async (folderPath: string, fileList: FileList) => {
+    try {
+      const formData = new FormData()
+      formData.append('folder', folderPath)
+      formData.append('conflict', 'rename')
+      Array.from(fileList).forEach(file => formData.append('file', file))
+
+      const response = await fetch(getApiUrl('/api/files/upload'), {
+        method: 'POST',
+        body: formData
+      })
+      const data = await response.json().catch(() => ({}))
+
+      const rejected: { name: string; reason: string }[] = data.report?.rejected || []
+      if (!response.ok && rejected.length === 0) {
+        throw new Error(data.error || 'Upload failed')
+      }
+      if (rejected.length > 0) {
+        alert(`Some files were not uploaded:\n${rejected.map(item => `${item.name}: ${item.reason}`).join('\n')}`)
+      }
+
+      if (folderPath) {
+        setExpandedFolders(prev => new Set([...prev, folderPath]))
+      }
+      await loadFiles()
+    } catch (error) {
+      console.error('Failed to upload:', error)
+      alert(`Failed to upload: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
   const handleDragOver = (e: React.DragEvent, targetPath?: string) => {
     e.preventDefault()
-    e.dataTransfer.dropEffect = 'move'
+    // Files from the desktop are copied in, tree items are moved
+    e.dataTransfer.dropEffect = draggedItem ? 'move' : 'copy'
     setDragOverFolder(targetPath || null)
   }
 
@@ -475,12 +655,23 @@ Add your notes about this folder here...
     e.preventDefault()
     setDragOverFolder(null)
     
-    if (!draggedItem) return
+    if (!draggedItem) {
+      if (e.dataTransfer.files.length > 0 && targetFolder?.type === 'folder') {
+        handleUpload(targetFolder.path === '/' ? '' : targetFolder.path, e.dataTransfer.files)
+      }
+      return
+    }
     
     const targetPath = targetFolder?.type === 'folder' ? targetFolder.path : '/'
     
-    // Don't allow dropping onto itself or its children
-    if (draggedItem.path === targetPath || targetPath.startsWith(draggedItem.path + '/')) {
+    // Don't allow dropping onto itself, its children or the folder it is already in
+    const currentFolder = draggedItem.path.replace(/^\/+/, '').split('/').slice(0, -1).join('/')
+    if (
+      draggedItem.path === targetPath ||
+      targetPath.startsWith(draggedItem.path + '/') ||
+      targetPath.replace(/^\/+|\/+$/g, '') === currentFolder
+    ) {
+      setDraggedItem(null)
       return
     }
     
@@ -552,9 +743,14 @@ Add your notes about this folder here...
           sortOrder={sortOrder}
           onSortOrderChange={setSortOrder}
           onRefresh={loadFiles}
+          showTrash={showTrash}
+          onToggleTrash={() => setShowTrash(!showTrash)}
         />
 
-        {/* File tree */}
+        {showTrash ? (
+          <TrashView onRestored={loadFiles} />
+        ) : (
+        /* File tree */
         <div 
           className="flex-1 overflow-y-auto py-2"
           onContextMenu={(e) => handleContextMenu(e, undefined, true)}
@@ -601,27 +797,61 @@ Add your notes about this folder here...
                   <div className="text-xs mt-1">Right-click to create your first file</div>
                 </div>
               )}
+              
+              {/* Pages whose content matches the search, including unloaded folders */}
+              <SearchResults
+                query={searchTerm}
+                selectedFile={selectedFile}
+                onFileSelect={onFileSelect}
+              />
             </>
           )}
         </div>
+        )}
       </div>
 
+      <input
+        ref={uploadInputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          if (e.target.files && e.target.files.length > 0) {
+            handleUpload(uploadFolderRef.current, e.target.files)
+          }
+          e.target.value = ''
+        }}
+      />
+
       {/* Context Menu */}
       {contextMenu && (() => {
         const shouldShowItemOptions = contextMenu.node && !contextMenu.isRoot
+        // Pages under an unpublished/ folder stay drafts until moved out
+        const canPublish = shouldShowItemOptions && !contextMenu.node!.path.split('/').includes('unpublished')
+        const isLiveOrScheduled = contextMenu.node?.isPublished || contextMenu.node?.publishStatus === 'scheduled'
         return (
           <FileContextMenu
             x={contextMenu.x}
             y={contextMenu.y}
             onClose={() => setContextMenu(null)}
+            role={role}
             onNewFile={() => setModal({ type: 'fileType', node: contextMenu.node })}
             onNewFolder={() => setModal({ type: 'newFolder', node: contextMenu.node })}
             onRename={shouldShowItemOptions ? () => setModal({ type: 'rename', node: contextMenu.node }) : undefined}
             onDelete={shouldShowItemOptions ? () => setModal({ type: 'delete', node: contextMenu.node }) : undefined}
             onDuplicate={shouldShowItemOptions ? () => handleDuplicate(contextMenu.node!) : undefined}
             onMove={shouldShowItemOptions ? () => setModal({ type: 'move', node: contextMenu.node }) : undefined}
-            onPublish={contextMenu.node?.path.includes('/unpublished/') ? () => handlePublish(contextMenu.node!) : undefined}
-            onUnpublish={contextMenu.node && !contextMenu.node.path.includes('/unpublished/') ? () => handleUnpublish(contextMenu.node!) : undefined}
+            onPublish={canPublish && !contextMenu.node!.isPublished ? () => handlePublish(contextMenu.node!) : undefined}
+            onUnpublish={canPublish && isLiveOrScheduled ? () => handleUnpublish(contextMenu.node!) : undefined}
+            onSchedule={canPublish ? () => setModal({ type: 'schedule', node: contextMenu.node }) : undefined}
+            onExport={contextMenu.isRoot || contextMenu.node?.type === 'folder' ? () => handleExport(contextMenu.isRoot ? '' : contextMenu.node!.path) : undefined}
+            onUpload={contextMenu.isRoot || contextMenu.node?.type === 'folder' ? () => {
+              uploadFolderRef.current = contextMenu.isRoot ? '' : contextMenu.node!.path
+              uploadInputRef.current?.click()
+            } : undefined}
+            onOptimizeImage={shouldShowItemOptions && contextMenu.node!.type === 'file' && isOptimizableImage(contextMenu.node!.path) ? () => handleOptimizeImage(contextMenu.node!) : undefined}
+            onCheckLinks={contextMenu.isRoot || contextMenu.node?.type === 'folder' ? () => setModal({ type: 'linkCheck', node: contextMenu.isRoot ? undefined : contextMenu.node }) : undefined}
+            onImport={contextMenu.isRoot || contextMenu.node?.type === 'folder' ? () => setModal({ type: 'import', node: contextMenu.isRoot ? undefined : contextMenu.node }) : undefined}
             isRoot={contextMenu.isRoot || false}
             itemType={contextMenu.node?.type}
             fileName={contextMenu.node?.name}
@@ -693,9 +923,9 @@ Add your notes about this folder here...
           }}
           title={`Delete ${modal.node.type === 'folder' ? 'Folder' : 'File'}`}
           type="confirm"
-          message={`Are you sure you want to delete "${modal.node.name}"?${
-            modal.node.type === 'folder' ? ' This will delete all files inside the folder.' : ''
-          }`}
+          message={`Move "${modal.node.name}" to the trash?${
+            modal.node.type === 'folder' ? ' All files inside the folder will be moved with it.' : ''
+          } You can restore it from the trash.`}
         />
       )}
 
@@ -703,8 +933,8 @@ Add your notes about this folder here...
         <FileModal
           isOpen={true}
           onClose={() => setModal({ type: null })}
-          onConfirm={(newName) => {
-            handleRename(modal.node!, newName!)
+          onConfirm={(newName, updateReferences) => {
+            handleRename(modal.node!, newName!, updateReferences)
             setModal({ type: null })
           }}
           title={`Rename ${modal.node.type === 'folder' ? 'Folder' : 'File'}`}
@@ -712,6 +942,7 @@ Add your notes about this folder here...
           inputLabel="New name"
           inputPlaceholder={modal.node.name}
           initialValue={modal.node.name.replace(/\.[^/.]+$/, '')} // Remove extension for files
+          checkboxLabel="Update links that point to it"
         />
       )}
 
@@ -719,18 +950,86 @@ Add your notes about this folder here...
         <MoveModal
           isOpen={true}
           onClose={() => setModal({ type: null })}
-          onConfirm={(targetPath) => {
-            handleMove(modal.node!.path, targetPath, modal.node!.type === 'folder')
+          onConfirm={(targetPath, updateReferences) => {
+            handleMove(modal.node!.path, targetPath, modal.node!.type === 'folder', updateReferences)
             setModal({ type: null })
           }}
           itemName={modal.node.name}
           currentPath={modal.node.path}
         />
       )}
+
+      {modal.type === 'import' && (
+        <ImportModal
+          isOpen={true}
+          onClose={() => setModal({ type: null })}
+          onImported={loadFiles}
+          targetFolder={modal.node?.path || ''}
+        />
+      )}
+
+      {modal.type === 'linkCheck' && (
+        <LinkCheckModal
+          isOpen={true}
+          onClose={() => setModal({ type: null })}
+          onOpenPage={(path) => {
+            onFileSelect({ name: path.split('/').pop() || path, type: 'file', path })
+            setModal({ type: null })
+          }}
+          folder={modal.node?.path || ''}
+        />
+      )}
+
+      {referenceUpdates && (
+        <ReferenceUpdatesModal
+          isOpen={true}
+          onClose={() => setReferenceUpdates(null)}
+          onOpenFile={(path) => {
+            onFileSelect({ name: path.split('/').pop() || path, type: 'file', path })
+            setReferenceUpdates(null)
+          }}
+          updates={referenceUpdates}
+        />
+      )}
+
+      {modal.type === 'schedule' && modal.node && (
+        <SchedulePublishModal
+          isOpen={true}
+          onClose={() => setModal({ type: null })}
+          onConfirm={(schedule) => handleSchedule(modal.node!, schedule)}
+          node={modal.node}
+        />
+      )}
     </>
   )
 })
 
 FileBrowser.displayName = 'FileBrowser'
 
+function findNode(node: FileNode, path: string): FileNode | null {
+  if (node.path === path) return node
+  for (const child of node.children || []) {
+    if (child.type === 'folder' && (path === child.path || path.startsWith(`${child.path}/`))) {
+      return findNode(child, path)
+    }
+  }
+  return null
+}
+
+// Return a copy of the tree with the folder at `path` given new children
+function withChildren(node: FileNode, path: string, children: FileNode[]): FileNode {
+  if (node.path === path) {
+    return { ...node, children }
+  }
+  if (!node.children) return node
+  return {
+    ...node,
+    children: node.children.map(child =>
+      child.type === 'folder' && (path === child.path || path.startsWith(`${child.path}/`))
+        ? withChildren(child, path, children)
+        : child
+    )
+  }
+}
+
 export default FileBrowser
\ No newline at end of file
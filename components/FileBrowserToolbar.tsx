@@ -12,6 +12,8 @@ interface FileBrowserToolbarProps {
   sortOrder: 'asc' | 'desc'
   onSortOrderChange: (order: 'asc' | 'desc') => void
   onRefresh: () => void
+  showTrash: boolean
+  onToggleTrash: () => void
 }
 
 export default function FileBrowserToolbar({
@@ -21,7 +23,9 @@ export default function FileBrowserToolbar({
   onSortByChange,
   sortOrder,
   onSortOrderChange,
-  onRefresh
+  onRefresh,
+  showTrash,
+  onToggleTrash
 }: FileBrowserToolbarProps) {
   return (
     <div className="border-b-2 border-black p-2 space-y-2">
@@ -62,6 +66,15 @@ export default function FileBrowserToolbar({
         >
           🔄
         </Button>
+        
+        <Button
+          variant={showTrash ? 'default' : 'outline'}
+          size="sm"
+          onClick={onToggleTrash}
+          title={showTrash ? 'Back to files' : 'Trash'}
+        >
+          🗑️
+        </Button>
       </div>
     </div>
   )
@@ -2,6 +2,7 @@
 
 import { useEffect, useRef } from 'react'
 import { Globe } from 'lucide-react'
+import { hasPermission, type Role } from '@/lib/auth/roles'
 
 interface FileContextMenuProps {
   x: number
@@ -15,10 +16,17 @@ interface FileContextMenuProps {
   onMove?: () => void
   onPublish?: () => void
   onUnpublish?: () => void
+  onSchedule?: () => void
+  onExport?: () => void
+  onImport?: () => void
+  onCheckLinks?: () => void
+  onUpload?: () => void
+  onOptimizeImage?: () => void
   isRoot?: boolean
   itemType?: 'file' | 'folder'
   fileName?: string
   filePath?: string
+  role?: Role // Actions the role doesn't allow are hidden
 }
 
 export default function FileContextMenu({
@@ -33,12 +41,20 @@ export default function FileContextMenu({
   onMove,
   onPublish,
   onUnpublish,
+  onSchedule,
+  onExport,
+  onImport,
+  onCheckLinks,
+  onUpload,
+  onOptimizeImage,
   isRoot = false,
   itemType,
   fileName,
-  filePath
+  role = 'viewer'
 }: FileContextMenuProps) {
   const menuRef = useRef<HTMLDivElement>(null)
+  const canWrite = hasPermission(role, 'write')
+  const canPublish = hasPermission(role, 'publish')
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -68,34 +84,90 @@ export default function FileContextMenu({
       className="fixed bg-white border-2 border-black rounded-md shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] z-50 py-1 min-w-[180px]"
       style={{ left: x, top: y }}
     >
-      {/* Create operations - always available */}
-      <button
-        onClick={() => {
-          onNewFile()
-          onClose()
-        }}
-        className="w-full px-3 py-2 text-left hover:bg-blue-50 flex items-center gap-2 text-sm"
-      >
-        <span>📄</span>
-        <span>New File</span>
-      </button>
-      
-      <button
-        onClick={() => {
-          onNewFolder()
-          onClose()
-        }}
-        className="w-full px-3 py-2 text-left hover:bg-blue-50 flex items-center gap-2 text-sm"
-      >
-        <span>📁</span>
-        <span>New Folder</span>
-      </button>
+      {/* Create operations - for anyone who can change files */}
+      {canWrite && (
+        <>
+          <button
+            onClick={() => {
+              onNewFile()
+              onClose()
+            }}
+            className="w-full px-3 py-2 text-left hover:bg-blue-50 flex items-center gap-2 text-sm"
+          >
+            <span>📄</span>
+            <span>New File</span>
+          </button>
+          
+          <button
+            onClick={() => {
+              onNewFolder()
+              onClose()
+            }}
+            className="w-full px-3 py-2 text-left hover:bg-blue-50 flex items-center gap-2 text-sm"
+          >
+            <span>📁</span>
+            <span>New Folder</span>
+          </button>
+        </>
+      )}
+
+      {canWrite && onUpload && (
+        <button
+          onClick={() => {
+            onUpload()
+            onClose()
+          }}
+          className="w-full px-3 py-2 text-left hover:bg-blue-50 flex items-center gap-2 text-sm"
+        >
+          <span>⬆️</span>
+          <span>Upload Files...</span>
+        </button>
+      )}
+
+      {onExport && (
+        <button
+          onClick={() => {
+            onExport()
+            onClose()
+          }}
+          className="w-full px-3 py-2 text-left hover:bg-blue-50 flex items-center gap-2 text-sm"
+        >
+          <span>📦</span>
+          <span>Export as Zip</span>
+        </button>
+      )}
+
+      {canWrite && onImport && (
+        <button
+          onClick={() => {
+            onImport()
+            onClose()
+          }}
+          className="w-full px-3 py-2 text-left hover:bg-blue-50 flex items-center gap-2 text-sm"
+        >
+          <span>📥</span>
+          <span>Import Zip...</span>
+        </button>
+      )}
+
+      {onCheckLinks && (
+        <button
+          onClick={() => {
+            onCheckLinks()
+            onClose()
+          }}
+          className="w-full px-3 py-2 text-left hover:bg-blue-50 flex items-center gap-2 text-sm"
+        >
+          <span>🔗</span>
+          <span>Check Links...</span>
+        </button>
+      )}
 
       {/* Separator */}
       {!isRoot && <div className="border-t border-gray-200 my-1" />}
 
       {/* Item-specific operations */}
-      {!isRoot && onRename && (
+      {!isRoot && canWrite && onRename && (
         <button
           onClick={() => {
             onRename()
@@ -108,7 +180,7 @@ export default function FileContextMenu({
         </button>
       )}
 
-      {!isRoot && onDuplicate && (
+      {!isRoot && canWrite && onDuplicate && (
         <button
           onClick={() => {
             onDuplicate()
@@ -121,7 +193,7 @@ export default function FileContextMenu({
         </button>
       )}
 
-      {!isRoot && onMove && (
+      {!isRoot && canWrite && onMove && (
         <button
           onClick={() => {
             onMove()
@@ -134,10 +206,23 @@ export default function FileContextMenu({
         </button>
       )}
 
+      {!isRoot && canWrite && onOptimizeImage && (
+        <button
+          onClick={() => {
+            onOptimizeImage()
+            onClose()
+          }}
+          className="w-full px-3 py-2 text-left hover:bg-blue-50 flex items-center gap-2 text-sm"
+        >
+          <span>🖼️</span>
+          <span>Generate Responsive Images</span>
+        </button>
+      )}
+
       {/* Publish/Unpublish for HTML files */}
-      {!isRoot && itemType === 'file' && fileName?.endsWith('.html') && (
+      {!isRoot && canPublish && itemType === 'file' && fileName?.endsWith('.html') && (
         <>
-          {filePath?.includes('/unpublished/') && onPublish && (
+          {onPublish && (
             <button
               onClick={() => {
                 onPublish()
@@ -150,7 +235,7 @@ export default function FileContextMenu({
             </button>
           )}
           
-          {!filePath?.includes('/unpublished/') && onUnpublish && (
+          {onUnpublish && (
             <button
               onClick={() => {
                 onUnpublish()
@@ -159,13 +244,26 @@ export default function FileContextMenu({
               className="w-full px-3 py-2 text-left hover:bg-orange-50 text-orange-600 flex items-center gap-2 text-sm"
             >
               <span>🔒</span>
-              <span>Move to Unpublished</span>
+              <span>Unpublish</span>
+            </button>
+          )}
+
+          {onSchedule && (
+            <button
+              onClick={() => {
+                onSchedule()
+                onClose()
+              }}
+              className="w-full px-3 py-2 text-left hover:bg-blue-50 flex items-center gap-2 text-sm"
+            >
+              <span>🕒</span>
+              <span>Schedule...</span>
             </button>
           )}
         </>
       )}
 
-      {!isRoot && onDelete && (
+      {!isRoot && canWrite && onDelete && (
         <>
           <div className="border-t border-gray-200 my-1" />
           <button
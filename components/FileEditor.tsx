@@ -3,8 +3,9 @@
 import { useState, useRef, memo, useCallback } from 'react'
 import { FileNode } from '@/lib/types'
 import { Button } from '@/components/ui/button'
-import { RotateCcw, Smartphone, Monitor, Copy, FileText, Globe, Maximize2 } from 'lucide-react'
+import { RotateCcw, Smartphone, Monitor, Copy, FileText, Globe, Maximize2, History } from 'lucide-react'
 import FileEditorContent, { FileEditorContentRef } from './FileEditorContent'
+import FileHistoryPanel from './FileHistoryPanel'
 
 // Memoized header component to prevent visual refresh
 const FileEditorHeader = memo(({ 
@@ -19,7 +20,9 @@ const FileEditorHeader = memo(({
   onSave, 
   saving,
   onSetPreviewMode,
-  onToggleFullScreen
+  onToggleFullScreen,
+  showHistory,
+  onToggleHistory
 }: {
   file: FileNode | null
   hasChanges: boolean
@@ -33,6 +36,8 @@ const FileEditorHeader = memo(({
   saving: boolean
   onSetPreviewMode: (mode: 'mobile' | 'desktop') => void
   onToggleFullScreen: () => void
+  showHistory: boolean
+  onToggleHistory: () => void
 }) => {
   if (!file) return null
 
@@ -103,6 +108,18 @@ const FileEditorHeader = memo(({
           <RotateCcw className="w-3 h-3" />
         </Button>
         
+        {file.type === 'file' && (
+          <Button
+            variant={showHistory ? "default" : "outline"}
+            size="sm"
+            onClick={onToggleHistory}
+            title="Version history"
+            className="w-6 h-6 p-0"
+          >
+            <History className="w-3 h-3" />
+          </Button>
+        )}
+        
         {file.isPublished && file.publicUrl && (
           <Button
             variant="success"
@@ -163,6 +180,7 @@ export default function FileEditor({ file, onToggleFullScreen }: FileEditorProps
   const [preview, setPreview] = useState(false)
   const [previewMode, setPreviewMode] = useState<'mobile' | 'desktop'>('desktop')
   const [loading, setLoading] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
   const contentRef = useRef<FileEditorContentRef>(null)
 
   const handleContentChange = useCallback((content: string, originalContent: string) => {
@@ -197,6 +215,8 @@ export default function FileEditor({ file, onToggleFullScreen }: FileEditorProps
   const handleEdit = useCallback(() => setPreview(false), [])
   const handlePreview = useCallback(() => setPreview(true), [])
   const handleSetPreviewMode = useCallback((mode: 'mobile' | 'desktop') => setPreviewMode(mode), [])
+  const handleToggleHistory = useCallback(() => setShowHistory(prev => !prev), [])
+  const handleCloseHistory = useCallback(() => setShowHistory(false), [])
 
   if (!file) {
     return (
@@ -224,6 +244,8 @@ export default function FileEditor({ file, onToggleFullScreen }: FileEditorProps
         saving={saving}
         onSetPreviewMode={handleSetPreviewMode}
         onToggleFullScreen={onToggleFullScreen || (() => {})}
+        showHistory={showHistory}
+        onToggleHistory={handleToggleHistory}
       />
 
 
@@ -234,16 +256,27 @@ export default function FileEditor({ file, onToggleFullScreen }: FileEditorProps
         </div>
       )}
 
-      {/* Content Area - Only this part reloads when file changes */}
-      <FileEditorContent
-        ref={contentRef}
-        file={file}
-        preview={preview}
-        previewMode={previewMode}
-        onContentChange={handleContentChange}
-        onError={setError}
-        onLoadingChange={setLoading}
-      />
+      <div className="flex-1 min-h-0 flex">
+        {/* Content Area - Only this part reloads when file changes */}
+        <FileEditorContent
+          ref={contentRef}
+          file={file}
+          preview={preview}
+          previewMode={previewMode}
+          onContentChange={handleContentChange}
+          onError={setError}
+          onLoadingChange={setLoading}
+        />
+
+        {/* Version history for the selected file */}
+        {showHistory && file.type === 'file' && (
+          <FileHistoryPanel
+            file={file}
+            onRestored={handleRefresh}
+            onClose={handleCloseHistory}
+          />
+        )}
+      </div>
     </div>
   )
 }
\ No newline at end of file
@@ -3,6 +3,9 @@
 import { useState, useEffect, forwardRef, useImperativeHandle } from 'react'
 import { getApiUrl } from '@/lib/utils/api'
 import { FileNode } from '@/lib/types'
+import { mergeWithConflictMarkers } from '@/lib/utils/diff'
+import { getContentType, isTextContentType } from '@/lib/files/content-types'
+import SaveConflictModal from './SaveConflictModal'
 
 interface FileEditorContentProps {
   file: FileNode | null
@@ -24,10 +27,25 @@ const FileEditorContent = forwardRef<FileEditorContentRef, FileEditorContentProp
     const [content, setContent] = useState<string>('')
     const [originalContent, setOriginalContent] = useState<string>('')
     const [loading, setLoading] = useState(false)
+    // Version token of the content the editor was loaded from, sent as If-Match on save
+    const [etag, setEtag] = useState<string | null>(null)
+    const [conflict, setConflict] = useState<{ serverContent: string | null; etag: string | null } | null>(null)
+
+    // Images, fonts, PDFs and other binaries are previewed from their URL, not edited as text
+    const contentType = file?.type === 'file' ? getContentType(file.name) : ''
+    const isBinary = file?.type === 'file' && !isTextContentType(contentType)
 
     const loadFileContent = async () => {
       if (!file || file.type !== 'file' || !file.url) return
       
+      if (isBinary) {
+        setContent('')
+        setOriginalContent('')
+        setEtag(null)
+        onContentChange('', '')
+        return
+      }
+      
       try {
         setLoading(true)
         onLoadingChange(true)
@@ -49,6 +67,7 @@ const FileEditorContent = forwardRef<FileEditorContentRef, FileEditorContentProp
         const data = await response.json()
         setContent(data.content)
         setOriginalContent(data.content)
+        setEtag(data.etag || null)
         onContentChange(data.content, data.content)
       } catch (err) {
         onError(err instanceof Error ? err.message : 'Failed to load file')
@@ -80,17 +99,20 @@ const FileEditorContent = forwardRef<FileEditorContentRef, FileEditorContentProp
           const data = await response.json()
           setContent(data.content || '')
           setOriginalContent(data.content || '')
+          setEtag(data.etag || null)
           onContentChange(data.content || '', data.content || '')
         } else {
           // No notes file exists yet, start with empty content
           setContent('')
           setOriginalContent('')
+          setEtag(null)
           onContentChange('', '')
         }
       } catch (err) {
         // No notes file exists yet, that's ok - start with empty content
         setContent('')
         setOriginalContent('')
+        setEtag(null)
         onContentChange('', '')
       } finally {
         setLoading(false)
@@ -98,34 +120,37 @@ const FileEditorContent = forwardRef<FileEditorContentRef, FileEditorContentProp
       }
     }
 
-    const saveFile = async () => {
+    const saveFile = async (expectedEtag: string | null = etag) => {
       if (!file) return
       
       try {
         onError(null)
         
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+        if (expectedEtag) {
+          headers['If-Match'] = expectedEtag
+        }
+        
+        let response: Response
+        
         // For folders, save as .notes.md
         if (file.type === 'folder') {
           const notesPath = file.path === '/' ? '.notes.md' : `${file.path}/.notes.md`
           
-          const response = await fetch(getApiUrl('/api/files/save'), {
+          response = await fetch(getApiUrl('/api/files/save'), {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers,
             body: JSON.stringify({
               path: notesPath,
               content,
               contentType: 'text/markdown'
             })
           })
-          
-          if (!response.ok) {
-            throw new Error('Failed to save folder notes')
-          }
         } else {
           // Regular file save
-          const response = await fetch(getApiUrl('/api/files/save'), {
+          response = await fetch(getApiUrl('/api/files/save'), {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers,
             body: JSON.stringify({
               path: file.path,
               content,
@@ -135,12 +160,21 @@ const FileEditorContent = forwardRef<FileEditorContentRef, FileEditorContentProp
                            'text/html'
             })
           })
-          
-          if (!response.ok) {
-            throw new Error('Failed to save file')
-          }
         }
         
+        if (response.status === 409) {
+          // Someone else saved since we loaded - let the user decide what to keep
+          const data = await response.json()
+          setConflict({ serverContent: data.currentContent, etag: data.etag })
+          throw new Error('This file was changed by someone else. Choose how to resolve the conflict.')
+        }
+        
+        if (!response.ok) {
+          throw new Error(file.type === 'folder' ? 'Failed to save folder notes' : 'Failed to save file')
+        }
+        
+        const data = await response.json()
+        setEtag(data.etag || null)
         setOriginalContent(content)
         onContentChange(content, content)
         alert('Saved successfully!')
@@ -150,6 +184,38 @@ const FileEditorContent = forwardRef<FileEditorContentRef, FileEditorContentProp
       }
     }
 
+    // Keep both versions in the editor, marked up for manual resolution
+    const mergeConflict = () => {
+      if (!conflict || conflict.serverContent === null) return
+      const merged = mergeWithConflictMarkers(conflict.serverContent, content)
+      setContent(merged)
+      setOriginalContent(conflict.serverContent)
+      setEtag(conflict.etag)
+      onContentChange(merged, conflict.serverContent)
+      setConflict(null)
+      onError(null)
+    }
+
+    // Save our content over whatever is on the server now
+    const overwriteConflict = async () => {
+      if (!conflict) return
+      const serverEtag = conflict.etag
+      setConflict(null)
+      // A deleted file has no version to match, so save unconditionally
+      await saveFile(serverEtag).catch(() => {})
+    }
+
+    // Drop our changes and take the server version
+    const discardLocalChanges = () => {
+      if (!conflict || conflict.serverContent === null) return
+      setContent(conflict.serverContent)
+      setOriginalContent(conflict.serverContent)
+      setEtag(conflict.etag)
+      onContentChange(conflict.serverContent, conflict.serverContent)
+      setConflict(null)
+      onError(null)
+    }
+
     const refreshContent = () => {
       if (file) {
         if (file.type === 'file') {
@@ -162,7 +228,7 @@ const FileEditorContent = forwardRef<FileEditorContentRef, FileEditorContentProp
 
     // Expose methods to parent component
     useImperativeHandle(ref, () => ({
-      saveFile,
+      saveFile: () => saveFile(),
       refreshContent,
       getContent: () => content
     }))
@@ -199,8 +265,51 @@ const FileEditorContent = forwardRef<FileEditorContentRef, FileEditorContentProp
       )
     }
 
+    if (isBinary) {
+      return (
+        <div className="flex-1 min-h-0 overflow-auto p-4 flex flex-col items-center justify-center gap-4">
+          {contentType.startsWith('image/') ? (
+            <img
+              src={file.url}
+              alt={file.name}
+              className="max-w-full max-h-[70vh] object-contain border-2 border-black rounded-md bg-[repeating-conic-gradient(#eee_0%_25%,#fff_0%_50%)] bg-[length:16px_16px]"
+            />
+          ) : contentType === 'application/pdf' ? (
+            <iframe src={file.url} title={file.name} className="w-full h-full min-h-[60vh] border-2 border-black rounded-md" />
+          ) : contentType.startsWith('video/') ? (
+            <video src={file.url} controls className="max-w-full max-h-[70vh]" />
+          ) : contentType.startsWith('audio/') ? (
+            <audio src={file.url} controls />
+          ) : (
+            <div className="text-5xl">📦</div>
+          )}
+          <div className="text-sm text-gray-600 text-center">
+            <div className="font-medium text-black">{file.name}</div>
+            <div>
+              {contentType}
+              {file.size !== undefined && ` · ${(file.size / 1024).toFixed(1)} KB`}
+            </div>
+            <a href={file.url} download={file.name} className="text-blue-600 hover:underline">
+              Download
+            </a>
+          </div>
+        </div>
+      )
+    }
+
     return (
       <div className="flex-1 min-h-0 overflow-hidden">
+        {conflict && (
+          <SaveConflictModal
+            fileName={file.name}
+            serverContent={conflict.serverContent}
+            localContent={content}
+            onMerge={mergeConflict}
+            onOverwrite={overwriteConflict}
+            onDiscard={discardLocalChanges}
+            onClose={() => setConflict(null)}
+          />
+        )}
         {preview ? (
           <div className="h-full overflow-hidden">
             {file.name.endsWith('.html') ? (
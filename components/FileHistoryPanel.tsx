@@ -0,0 +1,195 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { getApiUrl } from '@/lib/utils/api'
+import { FileNode } from '@/lib/types'
+import { Button } from '@/components/ui/button'
+import { X, Loader2 } from 'lucide-react'
+import type { FileRevision } from '@/lib/files/versions'
+import type { DiffLine, DiffSummary } from '@/lib/utils/diff'
+
+interface FileHistoryPanelProps {
+  file: FileNode
+  onRestored: () => void
+  onClose: () => void
+}
+
+export default function FileHistoryPanel({ file, onRestored, onClose }: FileHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<FileRevision[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null)
+  const [diff, setDiff] = useState<{ lines: DiffLine[]; summary: DiffSummary } | null>(null)
+  const [diffLoading, setDiffLoading] = useState(false)
+  const [restoring, setRestoring] = useState(false)
+
+  const loadRevisions = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const response = await fetch(getApiUrl(`/api/files/versions?path=${encodeURIComponent(file.path)}`))
+
+      if (!response.ok) {
+        throw new Error('Failed to load history')
+      }
+
+      const data = await response.json()
+      setRevisions(data.revisions || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setSelectedVersion(null)
+    setDiff(null)
+    loadRevisions()
+  }, [file.path])
+
+  const selectVersion = async (version: number) => {
+    setSelectedVersion(version)
+
+    try {
+      setDiffLoading(true)
+      const response = await fetch(getApiUrl(
+        `/api/files/versions/diff?path=${encodeURIComponent(file.path)}&from=${version}&to=current`
+      ))
+
+      if (!response.ok) {
+        throw new Error('Failed to load diff')
+      }
+
+      const data = await response.json()
+      setDiff({ lines: data.lines, summary: data.summary })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load diff')
+    } finally {
+      setDiffLoading(false)
+    }
+  }
+
+  const restoreVersion = async (version: number) => {
+    if (!confirm(`Restore version ${version}? The current content will stay in the history.`)) return
+
+    try {
+      setRestoring(true)
+      const response = await fetch(getApiUrl('/api/files/versions/restore'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ path: file.path, version })
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to restore version')
+      }
+
+      setSelectedVersion(null)
+      setDiff(null)
+      await loadRevisions()
+      onRestored()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore version')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  return (
+    <div className="w-80 h-full flex flex-col bg-white border-l-2 border-black">
+      <div className="flex items-center justify-between px-3 py-2 border-b-2 border-black">
+        <span className="text-sm font-semibold">History</span>
+        <button onClick={onClose} title="Close history" className="text-gray-600 hover:text-black">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {error && (
+        <div className="px-3 py-2 text-xs text-red-600 border-b border-gray-200">{error}</div>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+        {loading ? (
+          <div className="p-4 text-center text-gray-500 text-sm">Loading history...</div>
+        ) : revisions.length === 0 ? (
+          <div className="p-4 text-center text-gray-500 text-sm">No saved versions yet</div>
+        ) : (
+          [...revisions].reverse().map((revision, index) => (
+            <div
+              key={revision.version}
+              className={`px-3 py-2 border-b border-gray-200 cursor-pointer hover:bg-gray-50 ${
+                selectedVersion === revision.version ? 'bg-blue-50' : ''
+              }`}
+              onClick={() => selectVersion(revision.version)}
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">
+                  v{revision.version}{index === 0 && <span className="text-xs text-gray-500"> (latest)</span>}
+                </span>
+                <span className="text-xs text-gray-500">{formatSize(revision.size)}</span>
+              </div>
+              <div className="text-xs text-gray-500">
+                {new Date(revision.createdAt).toLocaleString()}
+              </div>
+              <div className="text-xs text-gray-500 truncate">
+                {revision.author || 'Unknown author'}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {selectedVersion !== null && (
+        <div className="h-1/2 flex flex-col border-t-2 border-black">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+            <span className="text-xs text-gray-600">
+              v{selectedVersion} → current
+              {diff && (
+                <>
+                  {' '}<span className="text-green-700">+{diff.summary.added}</span>
+                  {' '}<span className="text-red-700">-{diff.summary.removed}</span>
+                </>
+              )}
+            </span>
+            <Button
+              variant="default"
+              size="sm"
+              onClick={() => restoreVersion(selectedVersion)}
+              disabled={restoring}
+              className="text-xs px-2 py-1"
+            >
+              {restoring ? 'Restoring...' : 'Restore'}
+            </Button>
+          </div>
+          <div className="flex-1 overflow-auto font-mono text-xs">
+            {diffLoading || !diff ? (
+              <div className="p-3 flex items-center gap-2 text-gray-500">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                Loading diff...
+              </div>
+            ) : (
+              diff.lines.map((line, index) => (
+                <div
+                  key={index}
+                  className={`px-2 whitespace-pre ${
+                    line.type === 'add' ? 'bg-green-50 text-green-800' :
+                    line.type === 'remove' ? 'bg-red-50 text-red-800' :
+                    'text-gray-600'
+                  }`}
+                >
+                  {line.type === 'add' ? '+ ' : line.type === 'remove' ? '- ' : '  '}{line.text}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  return `${(bytes / 1024).toFixed(1)} KB`
+}
@@ -7,7 +7,7 @@ import { Input } from '@/components/ui/input'
 interface FileModalProps {
   isOpen: boolean
   onClose: () => void
-  onConfirm: (value?: string) => void
+  onConfirm: (value?: string, checked?: boolean) => void
   title: string
   type: 'input' | 'confirm' | 'select'
   message?: string
@@ -16,6 +16,7 @@ interface FileModalProps {
   defaultValue?: string
   initialValue?: string
   options?: { label: string; value: string; icon?: string }[]
+  checkboxLabel?: string // Optional extra choice passed to onConfirm
 }
 
 export default function FileModal({
@@ -29,17 +30,19 @@ export default function FileModal({
   inputPlaceholder,
   defaultValue = '',
   initialValue,
-  options = []
+  options = [],
+  checkboxLabel
 }: FileModalProps) {
   const [inputValue, setInputValue] = useState(initialValue || defaultValue)
   const [selectedOption, setSelectedOption] = useState(options[0]?.value || '')
+  const [checked, setChecked] = useState(false)
 
   if (!isOpen) return null
 
   const handleConfirm = () => {
     if (type === 'input') {
       if (inputValue.trim()) {
-        onConfirm(inputValue.trim())
+        onConfirm(inputValue.trim(), checked)
         setInputValue('')
       }
     } else if (type === 'select') {
@@ -82,6 +85,17 @@ export default function FileModal({
           </div>
         )}
 
+        {checkboxLabel && (
+          <label className="flex items-center gap-2 text-sm mb-4 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={checked}
+              onChange={(e) => setChecked(e.target.checked)}
+            />
+            {checkboxLabel}
+          </label>
+        )}
+
         {type === 'select' && (
           <div className="mb-4">
             <div className="grid grid-cols-2 gap-2">
@@ -128,6 +128,11 @@ export default function FileTreeRenderer({
       </div>
 
       {/* Render children if folder is expanded */}
+      {node.type === 'folder' && isExpanded && !node.children && (
+        <div className="py-1 text-xs text-gray-500" style={{ paddingLeft: `${(level + 1) * 16 + 8}px` }}>
+          Loading...
+        </div>
+      )}
       {node.type === 'folder' && isExpanded && (
         <div>
           {sortedChildren.map((child, childIndex) => (
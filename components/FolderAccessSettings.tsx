@@ -0,0 +1,198 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { getApiUrl } from '@/lib/utils/api'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { FolderGrant, FolderAccessLevel } from '@/lib/files/folder-access'
+
+export default function FolderAccessSettings() {
+  const [grants, setGrants] = useState<FolderGrant[]>([])
+  const [restricted, setRestricted] = useState<string[]>([])
+  const [user, setUser] = useState('')
+  const [folder, setFolder] = useState('')
+  const [access, setAccess] = useState<FolderAccessLevel>('write')
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const loadGrants = async () => {
+    try {
+      const response = await fetch(getApiUrl('/api/settings/folder-access'))
+      if (!response.ok) {
+        throw new Error('Failed to load folder access')
+      }
+      const data = await response.json()
+      setGrants(data.grants)
+      setRestricted(data.restricted || [])
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to load folder access' })
+    }
+  }
+
+  useEffect(() => {
+    loadGrants()
+  }, [])
+
+  const addGrant = async () => {
+    try {
+      setSaving(true)
+      setMessage(null)
+      const response = await fetch(getApiUrl('/api/settings/folder-access'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ user, folder, access })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save folder access')
+      }
+
+      setUser('')
+      setFolder('')
+      setMessage({ type: 'success', text: `${data.grant.user} can now ${data.grant.access} /${data.grant.folder}` })
+      await loadGrants()
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to save folder access' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Restricted users whose grants were all removed; they see nothing until the restriction is lifted
+  const usersWithoutGrants = restricted.filter(restrictedUser => !grants.some(grant => grant.user === restrictedUser))
+
+  const removeGrant = async (grant: FolderGrant) => {
+    const isLast = grants.filter(existing => existing.user === grant.user).length === 1
+    if (isLast && !confirm(`This is the last grant of ${grant.user}. They will have no access to any folder until you grant one or lift the restriction. Continue?`)) {
+      return
+    }
+
+    try {
+      setMessage(null)
+      const response = await fetch(getApiUrl(`/api/settings/folder-access?id=${encodeURIComponent(grant.id)}`), {
+        method: 'DELETE'
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to remove folder access')
+      }
+
+      await loadGrants()
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to remove folder access' })
+    }
+  }
+
+  const liftRestriction = async (restrictedUser: string) => {
+    if (!confirm(`Give ${restrictedUser} access to the whole site again, as far as their role allows?`)) {
+      return
+    }
+
+    try {
+      setMessage(null)
+      const response = await fetch(getApiUrl(`/api/settings/folder-access?user=${encodeURIComponent(restrictedUser)}`), {
+        method: 'DELETE'
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to lift the restriction')
+      }
+
+      setMessage({ type: 'success', text: `${restrictedUser} can work on the whole site again` })
+      await loadGrants()
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to lift the restriction' })
+    }
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Folder Access</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-600 mb-4">
+          Users who were never granted a folder can work on the whole site, as far as their role allows. Once a user has a grant, they can only open or change files inside their granted folders, and removing their last grant leaves them with no access. Lift the restriction to give them the whole site back. Admins are never restricted.
+        </p>
+
+        {grants.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-4">No folder grants yet</p>
+        ) : (
+          <table className="w-full text-sm mb-4">
+            <thead>
+              <tr className="text-left border-b-2 border-black">
+                <th className="py-2">User</th>
+                <th className="py-2">Folder</th>
+                <th className="py-2">Access</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {grants.map(grant => (
+                <tr key={grant.id} className="border-b border-gray-200">
+                  <td className="py-2">{grant.user}</td>
+                  <td className="py-2 font-mono">/{grant.folder}</td>
+                  <td className="py-2">{grant.access === 'write' ? 'Read & write' : 'Read only'}</td>
+                  <td className="py-2 text-right">
+                    <Button variant="outline" size="sm" onClick={() => removeGrant(grant)}>
+                      Remove
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {usersWithoutGrants.length > 0 && (
+          <div className="mb-4">
+            <p className="text-sm font-medium mb-2">Restricted users without any folder</p>
+            {usersWithoutGrants.map(restrictedUser => (
+              <div key={restrictedUser} className="flex items-center justify-between py-2 border-b border-gray-200 text-sm">
+                <span>{restrictedUser} <span className="text-red-600">has no access</span></span>
+                <Button variant="outline" size="sm" onClick={() => liftRestriction(restrictedUser)}>
+                  Lift Restriction
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mb-4">
+          <Input
+            value={user}
+            onChange={(e) => setUser(e.target.value)}
+            placeholder="User id or email"
+          />
+          <Input
+            value={folder}
+            onChange={(e) => setFolder(e.target.value)}
+            placeholder="Folder, e.g. clients/acme"
+          />
+          <select
+            value={access}
+            onChange={(e) => setAccess(e.target.value as FolderAccessLevel)}
+            className="px-3 py-2 border-2 border-black rounded-md text-sm"
+          >
+            <option value="write">Read & write</option>
+            <option value="read">Read only</option>
+          </select>
+        </div>
+
+        {message && (
+          <p className={`text-sm mb-4 ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>
+            {message.text}
+          </p>
+        )}
+
+        <Button onClick={addGrant} disabled={saving || !user.trim()}>
+          {saving ? 'Saving...' : 'Grant Folder Access'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,151 @@
+'use client'
+
+import { useState } from 'react'
+import { getApiUrl } from '@/lib/utils/api'
+import { Button } from '@/components/ui/button'
+
+type ConflictPolicy = 'skip' | 'overwrite' | 'rename'
+
+interface ImportReport {
+  created: string[]
+  overwritten: string[]
+  renamed: { from: string; to: string }[]
+  skipped: { path: string; reason: string }[]
+}
+
+interface ImportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onImported: () => void
+  targetFolder: string
+}
+
+const CONFLICT_OPTIONS: { value: ConflictPolicy; label: string }[] = [
+  { value: 'skip', label: 'Skip files that already exist' },
+  { value: 'overwrite', label: 'Overwrite existing files' },
+  { value: 'rename', label: 'Keep both (rename imported files)' }
+]
+
+export default function ImportModal({
+  isOpen,
+  onClose,
+  onImported,
+  targetFolder
+}: ImportModalProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [conflict, setConflict] = useState<ConflictPolicy>('skip')
+  const [importing, setImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [report, setReport] = useState<ImportReport | null>(null)
+
+  const handleImport = async () => {
+    if (!file) return
+
+    setImporting(true)
+    setError(null)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('targetFolder', targetFolder)
+      formData.append('conflict', conflict)
+
+      const response = await fetch(getApiUrl('/api/files/import'), {
+        method: 'POST',
+        body: formData
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import')
+      }
+
+      setReport(data.report)
+      onImported()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white border-2 border-black rounded-lg shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] p-6 max-w-md w-full mx-4 max-h-[80vh] flex flex-col">
+        <h2 className="text-xl font-bold mb-4">Import Zip into /{targetFolder}</h2>
+
+        {report ? (
+          <div className="flex-1 overflow-y-auto text-sm mb-4 space-y-3">
+            <div>
+              {report.created.length} created, {report.overwritten.length} overwritten,{' '}
+              {report.renamed.length} renamed, {report.skipped.length} skipped
+            </div>
+            {report.renamed.length > 0 && (
+              <div>
+                <div className="font-medium mb-1">Renamed</div>
+                {report.renamed.map(item => (
+                  <div key={item.to} className="text-gray-600 truncate">{item.from} → {item.to}</div>
+                ))}
+              </div>
+            )}
+            {report.skipped.length > 0 && (
+              <div>
+                <div className="font-medium mb-1">Skipped</div>
+                {report.skipped.map(item => (
+                  <div key={item.path} className="text-gray-600 truncate">{item.path} ({item.reason})</div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <>
+            <input
+              type="file"
+              accept=".zip,application/zip"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              className="mb-4 text-sm"
+            />
+
+            <div className="mb-4 space-y-1">
+              {CONFLICT_OPTIONS.map(option => (
+                <label key={option.value} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="radio"
+                    name="conflict"
+                    value={option.value}
+                    checked={conflict === option.value}
+                    onChange={() => setConflict(option.value)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </>
+        )}
+
+        {error && (
+          <div className="text-sm text-red-600 mb-4">{error}</div>
+        )}
+
+        <div className="flex gap-2 justify-end">
+          <Button
+            variant="outline"
+            onClick={onClose}
+          >
+            {report ? 'Close' : 'Cancel'}
+          </Button>
+          {!report && (
+            <Button
+              variant="default"
+              onClick={handleImport}
+              disabled={!file || importing}
+            >
+              {importing ? 'Importing...' : 'Import'}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
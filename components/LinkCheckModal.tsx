@@ -0,0 +1,113 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { getApiUrl } from '@/lib/utils/api'
+import { Button } from '@/components/ui/button'
+import type { LinkCheckReport } from '@/lib/files/link-check'
+
+interface LinkCheckModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onOpenPage: (path: string) => void
+  folder: string
+}
+
+export default function LinkCheckModal({
+  isOpen,
+  onClose,
+  onOpenPage,
+  folder
+}: LinkCheckModalProps) {
+  const [report, setReport] = useState<LinkCheckReport | null>(null)
+  const [checking, setChecking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const runCheck = async () => {
+    setChecking(true)
+    setError(null)
+    try {
+      const response = await fetch(getApiUrl(`/api/files/links?folder=${encodeURIComponent(folder)}`))
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to check links')
+      }
+
+      setReport(data.report)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check links')
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  useEffect(() => {
+    if (isOpen) {
+      runCheck()
+    }
+  }, [isOpen, folder])
+
+  if (!isOpen) return null
+
+  const brokenCount = report?.pages.reduce((total, page) => total + page.broken.length, 0) || 0
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white border-2 border-black rounded-lg shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] p-6 max-w-2xl w-full mx-4 max-h-[80vh] flex flex-col">
+        <h2 className="text-xl font-bold mb-4">Link Check for /{folder}</h2>
+
+        {checking && (
+          <div className="text-sm text-gray-600 mb-4">Checking links...</div>
+        )}
+
+        {report && !checking && (
+          <div className="flex-1 overflow-y-auto text-sm mb-4 space-y-3">
+            <div>
+              {report.pagesChecked} pages and {report.linksChecked} internal links checked,{' '}
+              {brokenCount === 0 ? 'no broken links found' : `${brokenCount} broken on ${report.pages.length} pages`}
+            </div>
+            {report.pages.map(page => (
+              <div key={page.path}>
+                <button
+                  onClick={() => onOpenPage(page.path)}
+                  className="font-medium mb-1 hover:underline text-left"
+                >
+                  {page.path}
+                </button>
+                {page.broken.map((link, index) => (
+                  <div key={`${link.line}-${index}`} className="text-gray-600 truncate">
+                    <span className="text-gray-400">line {link.line}</span>{' '}
+                    {link.kind === 'asset' ? 'Missing image' : 'Broken link'}: {link.url}
+                    {link.target !== null && link.target !== link.url && (
+                      <span className="text-gray-400"> → /{link.target}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div className="text-sm text-red-600 mb-4">{error}</div>
+        )}
+
+        <div className="flex gap-2 justify-end">
+          <Button
+            variant="outline"
+            onClick={runCheck}
+            disabled={checking}
+          >
+            Check Again
+          </Button>
+          <Button
+            variant="default"
+            onClick={onClose}
+          >
+            Close
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -8,7 +8,7 @@ import { Button } from '@/components/ui/button'
 interface MoveModalProps {
   isOpen: boolean
   onClose: () => void
-  onConfirm: (targetPath: string) => void
+  onConfirm: (targetPath: string, updateReferences: boolean) => void
   itemName: string
   currentPath: string
 }
@@ -24,6 +24,7 @@ export default function MoveModal({
   const [loading, setLoading] = useState(true)
   const [selectedPath, setSelectedPath] = useState<string>('/')
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set(['']))
+  const [updateReferences, setUpdateReferences] = useState(false)
 
   useEffect(() => {
     if (isOpen) {
@@ -64,7 +65,9 @@ export default function MoveModal({
     if (currentPath === folderPath || folderPath.startsWith(currentPath + '/')) {
       return false
     }
-    return true
+    // Nor to the folder it is already in
+    const parent = currentPath.replace(/^\/+/, '').split('/').slice(0, -1).join('/')
+    return folderPath.replace(/^\/+|\/+$/g, '') !== parent
   }
 
   const renderFolder = (node: FileNode, level: number = 0): React.ReactNode => {
@@ -158,6 +161,15 @@ export default function MoveModal({
           )}
         </div>
 
+        <label className="flex items-center gap-2 text-sm mb-4 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={updateReferences}
+            onChange={(e) => setUpdateReferences(e.target.checked)}
+          />
+          Update links that point to "{itemName}"
+        </label>
+
         <div className="flex gap-2 justify-end">
           <Button
             variant="outline"
@@ -167,7 +179,7 @@ export default function MoveModal({
           </Button>
           <Button
             variant="default"
-            onClick={() => onConfirm(selectedPath)}
+            onClick={() => onConfirm(selectedPath, updateReferences)}
             disabled={!canMoveToFolder(selectedPath)}
           >
             Move Here
@@ -2,9 +2,10 @@
 
 import { useState, useRef, useEffect } from 'react'
 import { getApiUrl } from '@/lib/utils/api'
+import { readStreamEvents } from '@/lib/ai/stream-events'
 import { FileNode } from '@/lib/types'
 import { Button } from '@/components/ui/button'
-import { ChevronLeft, ChevronRight, Send, Loader2, Trash2 } from 'lucide-react'
+import { ChevronLeft, ChevronRight, Send, Loader2, Trash2, Check, X, Undo2 } from 'lucide-react'
 
 interface PageAwareAIChatProps {
   currentFolder: string
@@ -17,14 +18,24 @@ interface PageAwareAIChatProps {
   getCurrentPageHTML?: () => string
 }
 
+interface ToolActivity {
+  id?: string
+  tool: string
+  input: any
+  result?: any
+}
+
 interface Message {
   id: string
   role: 'user' | 'assistant'
   content: string
   timestamp?: Date
-  tools?: any[]
+  tools?: ToolActivity[]
 }
 
+// Tools whose success means the file tree needs a refresh
+const FILE_CHANGING_TOOLS = ['create_file', 'edit_file', 'delete_file', 'rename_file']
+
 export default function PageAwareAIChat({ 
   currentFolder, 
   selectedFile, 
@@ -39,6 +50,9 @@ export default function PageAwareAIChat({
   const [input, setInput] = useState('')
   const [loading, setLoading] = useState(false)
   const [historyLoading, setHistoryLoading] = useState(true)
+  const [streamingId, setStreamingId] = useState<string | null>(null)
+  const [undoableIds, setUndoableIds] = useState<Set<string>>(new Set())
+  const [undoingId, setUndoingId] = useState<string | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   
   // Get the current page ID (use file path as ID)
@@ -70,6 +84,13 @@ export default function PageAwareAIChat({
           if (data.messages && data.messages.length > 0) {
             setMessages(data.messages)
           }
+          
+          // Messages with file changes that have not been reverted yet can be undone
+          setUndoableIds(new Set(
+            (data.operations || [])
+              .filter((op: any) => op.messageId && op.revertible && !op.revertedAt)
+              .map((op: any) => op.messageId)
+          ))
         }
       } catch (error) {
         console.error('Failed to load history:', error)
@@ -113,6 +134,38 @@ export default function PageAwareAIChat({
     }
   }
 
+  // Undo every file change made by an assistant message
+  const undoMessage = async (messageId: string) => {
+    if (undoingId) return
+    
+    try {
+      setUndoingId(messageId)
+      const response = await fetch(getApiUrl('/api/ai/operations/revert'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ pageId, messageId })
+      })
+      
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to undo changes')
+      }
+      
+      setUndoableIds(prev => {
+        const next = new Set(prev)
+        next.delete(messageId)
+        return next
+      })
+      onFilesChanged()
+    } catch (error) {
+      console.error('Failed to undo:', error)
+      alert(`Failed to undo: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setUndoingId(null)
+    }
+  }
+
   // Send message with streaming
   const sendMessage = async () => {
     if (!input.trim() || loading) return
@@ -141,39 +194,74 @@ export default function PageAwareAIChat({
         folderPath: currentFolder
       }
 
-      const response = await fetch(getApiUrl('/api/ai/stream'), {
+      // Assistant message id is shared with the server so its file changes can be undone
+      const assistantId = `assistant-${Date.now()}`
+
+      const response = await fetch(getApiUrl('/api/ai/stream-v2'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
         body: JSON.stringify({
           message: userMessage.content,
           pageContext,
-          conversationHistory: messages
+          conversationHistory: messages,
+          messageId: assistantId
         })
       })
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         throw new Error('Failed to get AI response')
       }
 
-      const data = await response.json()
-      
-      // Create assistant message
-      const assistantMessage: Message = {
-        id: `assistant-${Date.now()}`,
+      // Add an empty assistant message and fill it in as events arrive
+      // The server saves the finished message to history itself
+      setStreamingId(assistantId)
+      setMessages(prev => [...prev, {
+        id: assistantId,
         role: 'assistant',
-        content: data.message || 'Done!',
+        content: '',
         timestamp: new Date(),
-        tools: data.tools
+        tools: []
+      }])
+
+      const updateAssistant = (update: (msg: Message) => Message) => {
+        setMessages(prev => prev.map(msg => msg.id === assistantId ? update(msg) : msg))
       }
 
-      setMessages(prev => [...prev, assistantMessage])
-      await saveMessage(assistantMessage)
+      let filesChanged = false
+
+      await readStreamEvents(response.body, (event) => {
+        switch (event.type) {
+          case 'text-delta':
+            updateAssistant(msg => ({ ...msg, content: msg.content + event.text }))
+            break
+          case 'tool-call-start':
+            updateAssistant(msg => ({
+              ...msg,
+              tools: [...(msg.tools || []), { id: event.id, tool: event.tool, input: event.input }]
+            }))
+            break
+          case 'tool-result':
+            updateAssistant(msg => ({
+              ...msg,
+              tools: (msg.tools || []).map(t => t.id === event.id ? { ...t, result: event.result } : t)
+            }))
+            if (!event.isError && FILE_CHANGING_TOOLS.includes(event.tool)) {
+              filesChanged = true
+            }
+            break
+          case 'finish':
+            updateAssistant(msg => ({ ...msg, content: msg.content || 'Done!' }))
+            break
+          case 'error':
+            updateAssistant(msg => ({ ...msg, content: `${msg.content}${msg.content ? '\n\n' : ''}Error: ${event.error}` }))
+            break
+        }
+      })
       
       // Notify if files changed
-      if (data.tools?.some((t: any) => 
-        ['create_file', 'edit_file', 'delete_file', 'rename_file'].includes(t.tool)
-      )) {
+      if (filesChanged) {
+        setUndoableIds(prev => new Set([...prev, assistantId]))
         onFilesChanged()
       }
 
@@ -186,6 +274,7 @@ export default function PageAwareAIChat({
       }])
     } finally {
       setLoading(false)
+      setStreamingId(null)
     }
   }
 
@@ -269,14 +358,40 @@ export default function PageAwareAIChat({
                 : 'bg-gray-50 mr-8'
             } rounded-lg p-3`}
           >
-            <div className="text-sm font-medium mb-1">
-              {msg.role === 'user' ? 'You' : 'AI'}
+            <div className="flex items-center justify-between mb-1">
+              <div className="text-sm font-medium">
+                {msg.role === 'user' ? 'You' : 'AI'}
+              </div>
+              {msg.role === 'assistant' && undoableIds.has(msg.id) && msg.id !== streamingId && (
+                <button
+                  onClick={() => undoMessage(msg.id)}
+                  disabled={undoingId !== null}
+                  className="flex items-center gap-1 text-xs px-2 py-0.5 bg-white border-2 border-black rounded-md hover:bg-gray-100 disabled:opacity-50"
+                  title="Undo the file changes from this message"
+                >
+                  {undoingId === msg.id ? (
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                  ) : (
+                    <Undo2 className="w-3 h-3" />
+                  )}
+                  Undo
+                </button>
+              )}
             </div>
-            <div className="text-sm whitespace-pre-wrap">{msg.content}</div>
+            {msg.content && (
+              <div className="text-sm whitespace-pre-wrap">{msg.content}</div>
+            )}
+            {msg.tools && msg.tools.length > 0 && (
+              <div className="mt-2 space-y-1">
+                {msg.tools.map((activity, index) => (
+                  <ToolActivityRow key={activity.id || index} activity={activity} />
+                ))}
+              </div>
+            )}
           </div>
         ))}
 
-        {loading && (
+        {loading && !messages.some(msg => msg.id === streamingId && (msg.content || msg.tools?.length)) && (
           <div className="bg-gray-50 rounded-lg p-3 mr-8">
             <div className="flex items-center gap-2">
               <Loader2 className="w-4 h-4 animate-spin" />
@@ -331,4 +446,26 @@ export default function PageAwareAIChat({
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+function ToolActivityRow({ activity }: { activity: ToolActivity }) {
+  const target = activity.input?.filename || activity.input?.path || activity.input?.oldName || ''
+  const failed = activity.result?.success === false
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-gray-600">
+      {activity.result === undefined ? (
+        <Loader2 className="w-3 h-3 animate-spin" />
+      ) : failed ? (
+        <X className="w-3 h-3 text-red-600" />
+      ) : (
+        <Check className="w-3 h-3 text-green-600" />
+      )}
+      <span className="font-mono">{activity.tool}</span>
+      {target && <span className="truncate">{target}</span>}
+      {failed && activity.result?.error && (
+        <span className="text-red-600 truncate">{activity.result.error}</span>
+      )}
+    </div>
+  )
+}
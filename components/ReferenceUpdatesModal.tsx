@@ -0,0 +1,54 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import type { ReferenceUpdate } from '@/lib/files/references'
+
+interface ReferenceUpdatesModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onOpenFile: (path: string) => void
+  updates: ReferenceUpdate[]
+}
+
+export default function ReferenceUpdatesModal({
+  isOpen,
+  onClose,
+  onOpenFile,
+  updates
+}: ReferenceUpdatesModalProps) {
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white border-2 border-black rounded-lg shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] p-6 max-w-md w-full mx-4 max-h-[80vh] flex flex-col">
+        <h2 className="text-xl font-bold mb-4">Updated References</h2>
+
+        <p className="text-gray-600 mb-4 text-sm">
+          Links were rewritten in {updates.length} {updates.length === 1 ? 'file' : 'files'}. Each change is saved as a new version.
+        </p>
+
+        <div className="flex-1 overflow-y-auto text-sm mb-4 space-y-1">
+          {updates.map(update => (
+            <button
+              key={update.path}
+              onClick={() => onOpenFile(update.path)}
+              className="block w-full text-left truncate hover:underline"
+            >
+              {update.path}{' '}
+              <span className="text-gray-400">({update.links} {update.links === 1 ? 'link' : 'links'})</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          <Button
+            variant="default"
+            onClick={onClose}
+          >
+            Close
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
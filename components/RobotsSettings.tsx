@@ -0,0 +1,121 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { getApiUrl } from '@/lib/utils/api'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { RobotsSettings as RobotsSettingsValues } from '@/lib/files/seo'
+
+export default function RobotsSettings() {
+  const [allowIndexing, setAllowIndexing] = useState(true)
+  const [disallow, setDisallow] = useState('')
+  const [extraRules, setExtraRules] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const applySettings = (settings: RobotsSettingsValues) => {
+    setAllowIndexing(settings.allowIndexing)
+    setDisallow(settings.disallow.join('\n'))
+    setExtraRules(settings.extraRules)
+  }
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response = await fetch(getApiUrl('/api/settings/robots'))
+        if (!response.ok) {
+          throw new Error('Failed to load robots.txt settings')
+        }
+        const data = await response.json()
+        applySettings(data.settings)
+      } catch (err) {
+        setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to load robots.txt settings' })
+      }
+    }
+    loadSettings()
+  }, [])
+
+  const saveSettings = async () => {
+    try {
+      setSaving(true)
+      setMessage(null)
+      const response = await fetch(getApiUrl('/api/settings/robots'), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allowIndexing,
+          disallow: disallow.split('\n').map(path => path.trim()).filter(Boolean),
+          extraRules
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save robots.txt settings')
+      }
+
+      applySettings(data.settings)
+      setMessage({ type: 'success', text: 'robots.txt settings saved' })
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to save robots.txt settings' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Search Engines</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-600 mb-4">
+          sitemap.xml and robots.txt are served at the root of your site and updated whenever pages are published, unpublished, moved or deleted.
+        </p>
+
+        <label className="flex items-center gap-2 text-sm font-medium mb-4 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={allowIndexing}
+            onChange={(e) => setAllowIndexing(e.target.checked)}
+          />
+          Allow search engines to index the site
+        </label>
+
+        <label className="block text-sm font-medium mb-1" htmlFor="robots-disallow">
+          Paths to keep out of search results, one per line (e.g. /drafts/)
+        </label>
+        <textarea
+          id="robots-disallow"
+          value={disallow}
+          onChange={(e) => setDisallow(e.target.value)}
+          disabled={!allowIndexing}
+          rows={4}
+          className="w-full px-3 py-2 border-2 border-black rounded-md font-mono text-sm mb-4 disabled:opacity-50"
+        />
+
+        <label className="block text-sm font-medium mb-1" htmlFor="robots-extra">
+          Additional robots.txt rules
+        </label>
+        <textarea
+          id="robots-extra"
+          value={extraRules}
+          onChange={(e) => setExtraRules(e.target.value)}
+          rows={4}
+          placeholder={'User-agent: GPTBot\nDisallow: /'}
+          className="w-full px-3 py-2 border-2 border-black rounded-md font-mono text-sm mb-4"
+        />
+
+        {message && (
+          <p className={`text-sm mb-4 ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>
+            {message.text}
+          </p>
+        )}
+
+        <Button onClick={saveSettings} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Search Engine Settings'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,69 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { diffLines, summarizeDiff } from '@/lib/utils/diff'
+
+interface SaveConflictModalProps {
+  fileName: string
+  serverContent: string | null
+  localContent: string
+  onMerge: () => void
+  onOverwrite: () => void
+  onDiscard: () => void
+  onClose: () => void
+}
+
+export default function SaveConflictModal({
+  fileName,
+  serverContent,
+  localContent,
+  onMerge,
+  onOverwrite,
+  onDiscard,
+  onClose
+}: SaveConflictModalProps) {
+  const deleted = serverContent === null
+  const summary = deleted ? null : summarizeDiff(diffLines(serverContent, localContent))
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white border-2 border-black rounded-lg shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] p-6 max-w-md w-full mx-4">
+        <h2 className="text-xl font-bold mb-4">Save conflict</h2>
+
+        <p className="text-gray-600 mb-4">
+          {deleted
+            ? `"${fileName}" was deleted by someone else while you were editing it.`
+            : `"${fileName}" was changed by someone else while you were editing it.`}
+        </p>
+
+        {summary && (
+          <div className="bg-yellow-50 border-2 border-yellow-400 rounded p-3 mb-4 text-sm">
+            Your version differs from theirs by{' '}
+            <span className="text-green-700">+{summary.added}</span>{' '}
+            <span className="text-red-700">-{summary.removed}</span> lines.
+            Merging keeps both versions with conflict markers for you to resolve.
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2 justify-end">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          {!deleted && (
+            <Button variant="outline" onClick={onDiscard}>
+              Use theirs
+            </Button>
+          )}
+          {!deleted && (
+            <Button variant="default" onClick={onMerge}>
+              Merge
+            </Button>
+          )}
+          <Button variant="destructive" onClick={onOverwrite}>
+            {deleted ? 'Save anyway' : 'Overwrite'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
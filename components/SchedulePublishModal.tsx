@@ -0,0 +1,111 @@
+'use client'
+
+import { useState } from 'react'
+import { FileNode } from '@/lib/types'
+import { Button } from '@/components/ui/button'
+
+export interface PublishSchedule {
+  publishAt: string | null
+  unpublishAt: string | null
+}
+
+interface SchedulePublishModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onConfirm: (schedule: PublishSchedule) => Promise<void>
+  node: FileNode
+}
+
+// datetime-local inputs work in local time without a zone suffix
+function toLocalInput(iso: string | null | undefined): string {
+  if (!iso) return ''
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+function fromLocalInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null
+}
+
+export default function SchedulePublishModal({
+  isOpen,
+  onClose,
+  onConfirm,
+  node
+}: SchedulePublishModalProps) {
+  const [publishAt, setPublishAt] = useState(toLocalInput(node.publishAt))
+  const [unpublishAt, setUnpublishAt] = useState(toLocalInput(node.unpublishAt))
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleConfirm = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      await onConfirm({
+        publishAt: fromLocalInput(publishAt),
+        unpublishAt: fromLocalInput(unpublishAt)
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to schedule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white border-2 border-black rounded-lg shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] p-6 max-w-md w-full mx-4">
+        <h2 className="text-xl font-bold mb-4">Schedule "{node.name}"</h2>
+
+        <p className="text-gray-600 mb-4 text-sm">
+          Leave "Publish at" empty to publish now. Leave "Unpublish at" empty to keep the page live.
+        </p>
+
+        <label className="block text-sm font-medium mb-1" htmlFor="publish-at">
+          Publish at
+        </label>
+        <input
+          id="publish-at"
+          type="datetime-local"
+          value={publishAt}
+          onChange={(e) => setPublishAt(e.target.value)}
+          className="w-full px-3 py-2 border-2 border-black rounded-md mb-4"
+        />
+
+        <label className="block text-sm font-medium mb-1" htmlFor="unpublish-at">
+          Unpublish at
+        </label>
+        <input
+          id="unpublish-at"
+          type="datetime-local"
+          value={unpublishAt}
+          onChange={(e) => setUnpublishAt(e.target.value)}
+          className="w-full px-3 py-2 border-2 border-black rounded-md mb-4"
+        />
+
+        {error && (
+          <div className="text-sm text-red-600 mb-4">{error}</div>
+        )}
+
+        <div className="flex gap-2 justify-end">
+          <Button
+            variant="outline"
+            onClick={onClose}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="default"
+            onClick={handleConfirm}
+            disabled={saving || (!publishAt && !unpublishAt)}
+          >
+            {saving ? 'Saving...' : 'Schedule'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { getApiUrl } from '@/lib/utils/api'
+import { FileNode } from '@/lib/types'
+import { FileText } from 'lucide-react'
+import type { SearchResult } from '@/lib/files/search'
+
+interface SearchResultsProps {
+  query: string
+  selectedFile?: FileNode | null
+  onFileSelect: (file: FileNode) => void
+}
+
+// Wait for typing to pause before hitting the search endpoint
+const SEARCH_DELAY_MS = 300
+const MIN_QUERY_LENGTH = 2
+
+export default function SearchResults({ query, selectedFile, onFileSelect }: SearchResultsProps) {
+  const [results, setResults] = useState<(SearchResult & { url?: string })[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    const trimmed = query.trim()
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setResults([])
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        setLoading(true)
+        const response = await fetch(getApiUrl(`/api/files/search?q=${encodeURIComponent(trimmed)}`))
+        if (!response.ok) {
+          throw new Error('Search failed')
+        }
+        const data = await response.json()
+        if (!cancelled) setResults(data.results || [])
+      } catch (err) {
+        console.error('Content search failed:', err)
+        if (!cancelled) setResults([])
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }, SEARCH_DELAY_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query])
+
+  if (query.trim().length < MIN_QUERY_LENGTH) {
+    return null
+  }
+
+  return (
+    <div className="border-t-2 border-black">
+      <div className="px-2 py-1 text-xs font-semibold text-gray-600">
+        {loading ? 'Searching page content...' : `Content matches (${results.length})`}
+      </div>
+      {results.map(result => (
+        <div
+          key={result.path}
+          className={`px-2 py-1 cursor-pointer hover:bg-gray-100 ${
+            selectedFile?.path === result.path ? 'bg-blue-100 border-l-4 border-blue-500' : ''
+          }`}
+          onClick={() => onFileSelect({
+            name: result.path.split('/').pop() || result.path,
+            type: 'file',
+            path: result.path,
+            url: result.url
+          })}
+        >
+          <div className="flex items-center gap-2">
+            <FileText className="w-4 h-4 text-gray-600 flex-shrink-0" />
+            <span className="text-sm truncate font-medium">{result.title}</span>
+          </div>
+          <div className="text-xs text-gray-500 truncate">{result.path}</div>
+          <div className="text-xs text-gray-700 mt-0.5">
+            <HighlightedText text={result.snippet} highlights={result.highlights} />
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function HighlightedText({ text, highlights }: { text: string; highlights: [number, number][] }) {
+  const parts: React.ReactNode[] = []
+  let position = 0
+
+  highlights.forEach(([start, end], index) => {
+    if (start > position) {
+      parts.push(text.slice(position, start))
+    }
+    parts.push(<mark key={index} className="bg-yellow-200">{text.slice(start, end)}</mark>)
+    position = end
+  })
+  parts.push(text.slice(position))
+
+  return <>{parts}</>
+}
@@ -131,7 +131,7 @@ export default function SimpleAIChat({ currentFolder, selectedFile, onClose, onF
       const data = await response.json()
       
       const assistantMessage: Message = {
-        id: `assistant-${Date.now()}`,
+        id: data.messageId || `assistant-${Date.now()}`,
         role: 'assistant',
         content: data.message || 'Done!',
         tools: data.tools
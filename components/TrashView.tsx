@@ -0,0 +1,169 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { getApiUrl } from '@/lib/utils/api'
+import { Button } from '@/components/ui/button'
+import type { TrashEntry } from '@/lib/files/trash'
+
+interface TrashViewProps {
+  onRestored: () => void
+}
+
+export default function TrashView({ onRestored }: TrashViewProps) {
+  const [entries, setEntries] = useState<TrashEntry[]>([])
+  const [retentionDays, setRetentionDays] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const loadTrash = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const response = await fetch(getApiUrl('/api/files/trash'))
+
+      if (!response.ok) {
+        throw new Error('Failed to load trash')
+      }
+
+      const data = await response.json()
+      setEntries(data.entries || [])
+      setRetentionDays(data.retentionDays)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load trash')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadTrash()
+  }, [])
+
+  const restoreEntry = async (entry: TrashEntry, overwrite = false) => {
+    try {
+      setBusyId(entry.id)
+      setError(null)
+      const response = await fetch(getApiUrl('/api/files/trash/restore'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: entry.id, overwrite })
+      })
+
+      if (response.status === 409) {
+        const data = await response.json()
+        if (confirm(`These files exist again and will be overwritten:\n${data.conflicts.join('\n')}\n\nRestore anyway?`)) {
+          await restoreEntry(entry, true)
+        }
+        return
+      }
+
+      if (!response.ok) {
+        throw new Error('Failed to restore')
+      }
+
+      await loadTrash()
+      onRestored()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const purge = async (ids?: string[]) => {
+    const message = ids
+      ? 'Delete this item forever? This cannot be undone.'
+      : 'Empty the trash? Everything in it will be deleted forever.'
+    if (!confirm(message)) return
+
+    try {
+      setBusyId(ids ? ids[0] : 'all')
+      setError(null)
+      const response = await fetch(getApiUrl('/api/files/trash/purge'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids })
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to delete')
+      }
+
+      await loadTrash()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+        <span className="text-xs text-gray-600">
+          {retentionDays !== null && `Items are deleted forever after ${retentionDays} days`}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => purge()}
+          disabled={entries.length === 0 || busyId !== null}
+          className="text-xs px-2 py-1"
+        >
+          Empty trash
+        </Button>
+      </div>
+
+      {error && (
+        <div className="px-3 py-2 text-xs text-red-600 border-b border-gray-200">{error}</div>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+        {loading ? (
+          <div className="p-4 text-center text-gray-500">Loading trash...</div>
+        ) : entries.length === 0 ? (
+          <div className="p-4 text-center text-gray-500">
+            <div className="mb-2">🗑️</div>
+            <div className="text-sm">Trash is empty</div>
+          </div>
+        ) : (
+          entries.map(entry => (
+            <div key={entry.id} className="px-3 py-2 border-b border-gray-200">
+              <div className="flex items-center gap-2 text-sm">
+                <span>{entry.type === 'folder' ? '📁' : '📄'}</span>
+                <span className="truncate font-medium" title={entry.originalPath}>
+                  {entry.originalPath}
+                </span>
+              </div>
+              <div className="text-xs text-gray-500">
+                Deleted {new Date(entry.deletedAt).toLocaleString()}
+                {entry.type === 'folder' && ` · ${entry.files.length} files`}
+              </div>
+              <div className="flex gap-2 mt-1">
+                <Button
+                  variant="default"
+                  size="sm"
+                  onClick={() => restoreEntry(entry)}
+                  disabled={busyId !== null}
+                  className="text-xs px-2 py-1"
+                >
+                  {busyId === entry.id ? 'Working...' : 'Restore'}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => purge([entry.id])}
+                  disabled={busyId !== null}
+                  className="text-xs px-2 py-1"
+                >
+                  Delete forever
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
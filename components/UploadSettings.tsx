@@ -0,0 +1,110 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { getApiUrl } from '@/lib/utils/api'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { UploadPolicy } from '@/lib/files/uploads'
+
+const MB = 1024 * 1024
+
+export default function UploadSettings() {
+  const [maxSizeMb, setMaxSizeMb] = useState('')
+  const [allowedTypes, setAllowedTypes] = useState('')
+  const [maxAllowedMb, setMaxAllowedMb] = useState<number | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const applyPolicy = (policy: UploadPolicy) => {
+    setMaxSizeMb(String(Math.round(policy.maxFileSize / MB * 10) / 10))
+    setAllowedTypes(policy.allowedTypes.join('\n'))
+  }
+
+  useEffect(() => {
+    const loadPolicy = async () => {
+      try {
+        const response = await fetch(getApiUrl('/api/settings/uploads'))
+        if (!response.ok) {
+          throw new Error('Failed to load upload settings')
+        }
+        const data = await response.json()
+        applyPolicy(data.policy)
+        setMaxAllowedMb(data.maxAllowedFileSize / MB)
+      } catch (err) {
+        setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to load upload settings' })
+      }
+    }
+    loadPolicy()
+  }, [])
+
+  const savePolicy = async () => {
+    try {
+      setSaving(true)
+      setMessage(null)
+      const response = await fetch(getApiUrl('/api/settings/uploads'), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          maxFileSize: Math.round(parseFloat(maxSizeMb) * MB),
+          allowedTypes: allowedTypes.split(/[\s,]+/).filter(Boolean)
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save upload settings')
+      }
+
+      applyPolicy(data.policy)
+      setMessage({ type: 'success', text: 'Upload settings saved' })
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to save upload settings' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Uploads</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <label className="block text-sm font-medium mb-1" htmlFor="upload-max-size">
+          Maximum file size (MB{maxAllowedMb ? `, up to ${maxAllowedMb}` : ''})
+        </label>
+        <Input
+          id="upload-max-size"
+          type="number"
+          min="0.1"
+          step="0.1"
+          value={maxSizeMb}
+          onChange={(e) => setMaxSizeMb(e.target.value)}
+          className="mb-4 max-w-[200px]"
+        />
+
+        <label className="block text-sm font-medium mb-1" htmlFor="upload-allowed-types">
+          Allowed file types, one per line (e.g. image/* or application/pdf)
+        </label>
+        <textarea
+          id="upload-allowed-types"
+          value={allowedTypes}
+          onChange={(e) => setAllowedTypes(e.target.value)}
+          rows={6}
+          className="w-full px-3 py-2 border-2 border-black rounded-md font-mono text-sm mb-4"
+        />
+
+        {message && (
+          <p className={`text-sm mb-4 ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>
+            {message.text}
+          </p>
+        )}
+
+        <Button onClick={savePolicy} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Upload Settings'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
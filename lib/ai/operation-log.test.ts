@@ -0,0 +1,63 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { getStorage } from '@/lib/storage'
+import {
+  captureSnapshot,
+  captureAfterStates,
+  createOperation,
+  revertOperation,
+  RevertConflictError
+} from './operation-log'
+
+vi.mock('@/lib/files/sync', () => ({
+  onFilesWritten: vi.fn(async () => new Map()),
+  onFilesRemoved: vi.fn(),
+  onSitePagesChanged: vi.fn()
+}))
+
+const storageDir = mkdtempSync(join(tmpdir(), 'operation-log-test-'))
+
+beforeAll(() => {
+  process.env.STORAGE_DRIVER = 'local'
+  process.env.LOCAL_STORAGE_DIR = storageDir
+})
+
+afterAll(() => {
+  rmSync(storageDir, { recursive: true, force: true })
+})
+
+// An AI edit of a page from `before` to `after`
+async function aiEdit(pathname: string, before: string, after: string) {
+  const storage = getStorage()
+  await storage.put(pathname, before, { contentType: 'text/html' })
+  const snapshots = [await captureSnapshot(pathname)]
+  await storage.put(pathname, after, { contentType: 'text/html' })
+  await captureAfterStates(snapshots)
+  return createOperation('edit_file', { filename: pathname }, { success: true }, snapshots)!
+}
+
+describe('revertOperation', () => {
+  it('restores the content from before the edit', async () => {
+    const operation = await aiEdit('t1/index.html', '<p>old</p>', '<p>new</p>')
+
+    expect(await revertOperation('t1', operation)).toEqual(['t1/index.html'])
+    expect(await getStorage().readText('t1/index.html')).toBe('<p>old</p>')
+  })
+
+  it('refuses to overwrite changes made after the edit', async () => {
+    const operation = await aiEdit('t1/about.html', '<p>old</p>', '<p>new</p>')
+    await getStorage().put('t1/about.html', '<p>edited by hand</p>', { contentType: 'text/html' })
+
+    await expect(revertOperation('t1', operation)).rejects.toThrow(RevertConflictError)
+    expect(await getStorage().readText('t1/about.html')).toBe('<p>edited by hand</p>')
+  })
+
+  it('refuses to restore a file that was deleted after the edit', async () => {
+    const operation = await aiEdit('t1/gone.html', '<p>old</p>', '<p>new</p>')
+    await getStorage().delete('t1/gone.html')
+
+    await expect(revertOperation('t1', operation)).rejects.toMatchObject({ conflicts: ['gone.html'] })
+  })
+})
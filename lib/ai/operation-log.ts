@@ -0,0 +1,163 @@
+import { getStorage } from '@/lib/storage'
+import { computeETag } from '@/lib/files/etag'
+import { restoreFromTrash, getTrashEntry } from '@/lib/files/trash'
+import { onFilesWritten, onFilesRemoved } from '@/lib/files/sync'
+import type { PageOperation } from '@/lib/kv/chat-storage'
+
+/**
+ * State of a single file before and after an AI tool changed it
+ * A null `before` means the file did not exist yet; `after` is the ETag the
+ * tool left behind, or null when it left no file
+ */
+export interface FileSnapshot {
+  pathname: string
+  before: {
+    data: string // base64 encoded content
+    contentType?: string
+  } | null
+  after: string | null
+}
+
+/**
+ * Raised when files were changed again after the operation being reverted
+ */
+export class RevertConflictError extends Error {
+  constructor(public conflicts: string[]) {
+    super(`Files changed since the AI edited them: ${conflicts.join(', ')}`)
+    this.name = 'RevertConflictError'
+  }
+}
+
+// Tools that change files and therefore get an operation record
+const OPERATION_TYPES: Record<string, PageOperation['type']> = {
+  create_file: 'create',
+  edit_file: 'update',
+  delete_file: 'delete',
+  rename_file: 'rename'
+}
+
+/**
+ * Capture the current state of a file so it can be restored later
+ */
+export async function captureSnapshot(pathname: string): Promise<FileSnapshot> {
+  const existing = await getStorage().read(pathname)
+
+  return {
+    pathname,
+    before: existing
+      ? {
+          data: Buffer.from(existing.body).toString('base64'),
+          contentType: existing.object.contentType
+        }
+      : null,
+    after: null
+  }
+}
+
+/**
+ * Record the state each snapshotted file was left in once the tool has run
+ */
+export async function captureAfterStates(snapshots: FileSnapshot[]): Promise<void> {
+  const storage = getStorage()
+  for (const snapshot of snapshots) {
+    const current = await storage.read(snapshot.pathname)
+    snapshot.after = current ? computeETag(current.body) : null
+  }
+}
+
+/**
+ * Build the operation record for a tool execution
+ * Returns null for read-only tools, failed calls and calls that changed nothing
+ * Deletions are reverted from the trash entry instead of snapshots
+ */
+export function createOperation(
+  toolName: string,
+  input: any,
+  result: any,
+  snapshots: FileSnapshot[],
+  messageId?: string
+): PageOperation | null {
+  const type = OPERATION_TYPES[toolName]
+  const trashId: string | undefined = result?.trashId
+  if (!type || result?.success === false || (snapshots.length === 0 && !trashId)) {
+    return null
+  }
+
+  return {
+    id: `op-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    target: input?.path || input?.filename || input?.oldName,
+    changes: input,
+    timestamp: new Date(),
+    revertible: true,
+    tool: toolName,
+    messageId,
+    snapshots,
+    trashId
+  }
+}
+
+/**
+ * Tenant-relative paths that reverting an operation would write or delete
+ * Checked against the user's folder grants before anything is restored
+ */
+export async function revertPaths(tenantId: string, operation: PageOperation): Promise<string[]> {
+  if (operation.trashId) {
+    const entry = await getTrashEntry(tenantId, operation.trashId)
+    return entry ? entry.files.map(file => file.path) : []
+  }
+
+  return (operation.snapshots || []).map(snapshot => snapshot.pathname.substring(tenantId.length + 1))
+}
+
+/**
+ * Restore every file touched by an operation to its recorded before-state
+ * Snapshots are applied in reverse so multi-file operations unwind cleanly.
+ * Nothing is restored when any file no longer matches its after-state.
+ */
+export async function revertOperation(tenantId: string, operation: PageOperation): Promise<string[]> {
+  if (!operation.revertible) {
+    throw new Error(`Operation ${operation.id} cannot be reverted`)
+  }
+
+  if (operation.trashId) {
+    const entry = await restoreFromTrash(tenantId, operation.trashId)
+    if (!entry) {
+      throw new Error(`Trash entry for operation ${operation.id} no longer exists`)
+    }
+    return entry.files.map(file => `${tenantId}/${file.path}`)
+  }
+
+  if (!operation.snapshots) {
+    throw new Error(`Operation ${operation.id} cannot be reverted`)
+  }
+
+  const storage = getStorage()
+  const conflicts = new Set<string>()
+  for (const snapshot of operation.snapshots) {
+    const current = await storage.read(snapshot.pathname)
+    if ((current ? computeETag(current.body) : null) !== snapshot.after) {
+      conflicts.add(snapshot.pathname.substring(tenantId.length + 1))
+    }
+  }
+  if (conflicts.size > 0) {
+    throw new RevertConflictError([...conflicts])
+  }
+
+  const restored: string[] = []
+
+  for (const snapshot of [...operation.snapshots].reverse()) {
+    if (snapshot.before) {
+      const restoredObject = await storage.put(snapshot.pathname, Buffer.from(snapshot.before.data, 'base64'), {
+        contentType: snapshot.before.contentType
+      })
+      await onFilesWritten(tenantId, [restoredObject], null)
+    } else {
+      await storage.delete(snapshot.pathname)
+      await onFilesRemoved(tenantId, [snapshot.pathname])
+    }
+    restored.push(snapshot.pathname)
+  }
+
+  return restored
+}
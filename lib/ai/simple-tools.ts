@@ -1,14 +1,22 @@
-import { put, del, list } from '@vercel/blob'
+import type { JSONSchema7 } from 'ai'
+import { getStorage } from '@/lib/storage'
+import { listIndexedFiles } from '@/lib/kv/file-index'
+import { onFilesWritten, onFilesRemoved, onSitePagesChanged } from '@/lib/files/sync'
+import { captureSnapshot, captureAfterStates, type FileSnapshot } from './operation-log'
+import { moveToTrash } from '@/lib/files/trash'
+import { movePublishStates, recordNewPages } from '@/lib/files/publish'
+import { getSearchDocuments } from '@/lib/kv/search-index'
+import { searchDocuments } from '@/lib/files/search'
+import { getImageManifest, optimizeImage, buildPictureMarkup, carryImageVariants } from '@/lib/files/images'
+import { isOptimizableImage } from '@/lib/files/image-paths'
+import { TenantPathBuilder } from '@/lib/files/tenant-paths'
+import { FolderAccessError, UNRESTRICTED_ACCESS, type FolderAccess, type FolderAccessLevel } from '@/lib/files/folder-access'
 
 // Simple tool interface
 interface Tool {
   name: string
   description: string
-  input_schema: {
-    type: string
-    properties: Record<string, any>
-    required: string[]
-  }
+  input_schema: JSONSchema7 & { type: 'object' }
 }
 
 // Just 5 simple tools - that's all we need!
@@ -107,73 +115,127 @@ export const simpleTools: Tool[] = [
         newName: {
           type: 'string',
           description: 'New file name (with or without extension)'
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Replace a file that already has the new name; only when the user asked for it'
         }
       },
       required: ['oldName', 'newName']
     }
+  },
+  {
+    name: 'search_files',
+    description: 'Search the text of all HTML and markdown pages on the site and return the best matches with snippets',
+    input_schema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Words to search for'
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of results (default 10)'
+        }
+      },
+      required: ['query']
+    }
+  },
+  {
+    name: 'insert_image',
+    description: 'Insert a responsive <picture> for an uploaded image into a page, using its AVIF/WebP variants and srcset (variants are generated if missing)',
+    input_schema: {
+      type: 'object',
+      properties: {
+        image: {
+          type: 'string',
+          description: 'Image file (e.g., "images/hero.jpg")'
+        },
+        page: {
+          type: 'string',
+          description: 'HTML page to insert the image into'
+        },
+        alt: {
+          type: 'string',
+          description: 'Alternative text describing the image'
+        },
+        sizes: {
+          type: 'string',
+          description: 'sizes attribute, e.g. "(max-width: 768px) 100vw, 50vw" (default 100vw)'
+        },
+        find: {
+          type: 'string',
+          description: 'Text in the page to replace with the image; inserted before </body> when omitted'
+        }
+      },
+      required: ['image', 'page', 'alt']
+    }
   }
 ]
 
+// Recorded as the author of files the assistant changes
+const AI_AUTHOR = 'ai-assistant'
+
 // Simple tool executor - no complex path resolution!
 export async function executeSimpleTool(
   toolName: string,
   input: any,
   tenantId: string,
-  currentFolder: string = ''
+  currentFolder: string = '',
+  snapshots?: FileSnapshot[],
+  access: FolderAccess = UNRESTRICTED_ACCESS
 ): Promise<any> {
-  // Build the full path simply
-  const buildPath = (filename: string) => {
-    const parts = [tenantId]
-    if (currentFolder && currentFolder !== '/') {
-      // Clean the folder path - remove tenant ID if it's duplicated
-      let cleanFolder = currentFolder.replace(/^\/+|\/+$/g, '')
-      // Remove tenant ID if it's at the beginning of the folder path
-      cleanFolder = cleanFolder.replace(new RegExp(`^${tenantId}/?`), '')
-      if (cleanFolder) {
-        parts.push(cleanFolder)
-      }
+  // Build the full path; unsafe paths throw and come back as a tool error
+  const paths = new TenantPathBuilder(tenantId)
+  const buildPath = (filename: string) => paths.buildPath(filename, currentFolder)
+
+  // Build a path and make sure the user's folder grants allow touching it
+  const resolvePath = (filename: string, level: FolderAccessLevel) => {
+    const fullPath = buildPath(filename)
+    const relativePath = paths.toRelative(fullPath)
+    if (!access.can(relativePath, level)) {
+      throw new FolderAccessError(relativePath, level)
     }
-    if (filename) {
-      // Clean the filename - remove any path parts and tenant ID
-      let cleanFilename = filename.replace(/^\/+/, '')
-      // If filename contains tenant ID, remove it
-      cleanFilename = cleanFilename.replace(new RegExp(`^${tenantId}/?`), '')
-      // Also remove any folder path from filename if it's already in currentFolder
-      if (currentFolder && currentFolder !== '/' && cleanFilename.includes('/')) {
-        cleanFilename = cleanFilename.split('/').pop() || cleanFilename
-      }
-      parts.push(cleanFilename)
+    return fullPath
+  }
+
+  const storage = getStorage()
+
+  // Record a file's before-state when the caller wants the change to be revertible
+  const snapshot = async (pathname: string) => {
+    if (snapshots) {
+      snapshots.push(await captureSnapshot(pathname))
     }
-    return parts.filter(p => p).join('/')
   }
 
   try {
     switch (toolName) {
       case 'create_file': {
-        const fullPath = buildPath(input.filename)
-        const blob = await put(fullPath, input.content, {
-          access: 'public',
-          contentType: 'text/html',
-          addRandomSuffix: false,
-          allowOverwrite: true
+        const fullPath = resolvePath(input.filename, 'write')
+        const existed = await storage.head(fullPath)
+        await snapshot(fullPath)
+        const saved = await storage.put(fullPath, input.content, {
+          contentType: 'text/html'
         })
-        return { success: true, message: `Created ${input.filename}`, url: blob.url }
+        if (!existed) {
+          await recordNewPages(tenantId, [paths.toRelative(fullPath)], AI_AUTHOR)
+        }
+        await onFilesWritten(tenantId, [saved], AI_AUTHOR)
+        return { success: true, message: `Created ${input.filename}`, url: saved.url }
       }
 
       case 'edit_file': {
-        const fullPath = buildPath(input.filename)
+        const fullPath = resolvePath(input.filename, 'write')
         
         // If find/replace is specified, do partial edit
         if (input.find && input.replace !== undefined) {
           // First read the current content
-          const { blobs } = await list({ prefix: fullPath, limit: 1 })
-          if (blobs.length === 0) {
+          let content = await storage.readText(fullPath)
+          if (content === null) {
             throw new Error(`File not found: ${input.filename}`)
           }
           
-          const response = await fetch(blobs[0].url)
-          let content = await response.text()
-          
           // Perform the replacement
           if (!content.includes(input.find)) {
             throw new Error(`Text not found in file: "${input.find}"`)
@@ -182,111 +244,130 @@ export async function executeSimpleTool(
           content = content.replace(input.find, input.replace)
           
           // Save the updated content
-          const blob = await put(fullPath, content, {
-            access: 'public',
-            contentType: 'text/html',
-            addRandomSuffix: false,
-            allowOverwrite: true
+          await snapshot(fullPath)
+          const saved = await storage.put(fullPath, content, {
+            contentType: 'text/html'
           })
-          return { success: true, message: `Updated ${input.filename} (partial edit)`, url: blob.url }
+          await onFilesWritten(tenantId, [saved], AI_AUTHOR)
+          return { success: true, message: `Updated ${input.filename} (partial edit)`, url: saved.url }
         } else if (input.content) {
           // Full content replacement
-          const blob = await put(fullPath, input.content, {
-            access: 'public',
-            contentType: 'text/html',
-            addRandomSuffix: false,
-            allowOverwrite: true
+          const existed = await storage.head(fullPath)
+          await snapshot(fullPath)
+          const saved = await storage.put(fullPath, input.content, {
+            contentType: 'text/html'
           })
-          return { success: true, message: `Updated ${input.filename}`, url: blob.url }
+          if (!existed) {
+            await recordNewPages(tenantId, [paths.toRelative(fullPath)], AI_AUTHOR)
+          }
+          await onFilesWritten(tenantId, [saved], AI_AUTHOR)
+          return { success: true, message: `Updated ${input.filename}`, url: saved.url }
         } else {
           throw new Error('Either content or find/replace must be provided')
         }
       }
 
       case 'read_file': {
-        const fullPath = buildPath(input.filename)
-        const { blobs } = await list({ prefix: fullPath, limit: 1 })
+        const fullPath = resolvePath(input.filename, 'read')
+        const content = await storage.readText(fullPath)
         
-        if (blobs.length === 0) {
+        if (content === null) {
           throw new Error(`File not found: ${input.filename}`)
         }
         
-        const response = await fetch(blobs[0].url)
-        const content = await response.text()
-        
         return { success: true, content, filename: input.filename }
       }
 
       case 'delete_file': {
-        const fullPath = buildPath(input.path)
+        const fullPath = resolvePath(input.path, 'write')
+        const relativePath = paths.toRelative(fullPath)
+        
+        if (!relativePath) {
+          return { success: false, message: `Cannot delete: ${input.path}` }
+        }
         
-        // List all files with this prefix (handles folders too)
-        const { blobs } = await list({ prefix: fullPath })
+        // Exact file match first, otherwise treat the path as a folder
+        const type = await storage.head(fullPath) ? 'file' : 'folder'
         
-        if (blobs.length === 0) {
+        // Move to the trash so the deletion can be restored
+        const entry = await moveToTrash(tenantId, relativePath, type, AI_AUTHOR)
+        
+        if (!entry) {
           return { success: false, message: `Nothing found at: ${input.path}` }
         }
         
-        // Delete all files
-        await Promise.all(blobs.map(blob => del(blob.url)))
-        
         return { 
           success: true, 
           message: `Deleted ${input.path}`,
-          filesDeleted: blobs.length 
+          filesDeleted: entry.files.length,
+          trashId: entry.id
         }
       }
 
       case 'list_files': {
-        const prefix = buildPath('')
-        const { blobs } = await list({ prefix })
+        const folder = paths.toRelative(buildPath(''))
+        if (!access.canSee(folder)) {
+          throw new FolderAccessError(folder, 'read')
+        }
+        const entries = await listIndexedFiles(tenantId)
         
-        // Clean up the file list
-        const files = blobs.map(blob => {
-          const path = blob.pathname
-            .replace(tenantId + '/', '')
-            .replace(currentFolder, '')
-            .replace(/^\/+/, '')
-          
-          return {
-            name: path,
-            url: blob.url,
-            size: blob.size
-          }
-        })
+        // Clean up the file list; the index already leaves out internal folders
+        const files = entries
+          .filter(entry => !folder || entry.path.startsWith(`${folder}/`))
+          .filter(entry => access.can(entry.path, 'read'))
+          .map(entry => {
+            const path = entry.path
+              .replace(currentFolder, '')
+              .replace(/^\/+/, '')
+            
+            return {
+              name: path,
+              url: entry.url,
+              size: entry.size
+            }
+          })
         
         return { success: true, files, count: files.length }
       }
 
       case 'rename_file': {
-        const oldPath = buildPath(input.oldName)
+        const oldPath = resolvePath(input.oldName, 'write')
         
         // Ensure new name has .html extension if missing
         let newName = input.newName
         if (!newName.endsWith('.html') && !newName.includes('.')) {
           newName += '.html'
         }
-        const newPath = buildPath(newName)
+        const newPath = resolvePath(newName, 'write')
         
-        // Read the old file
-        const { blobs } = await list({ prefix: oldPath, limit: 1 })
-        if (blobs.length === 0) {
+        // Make sure the old file exists
+        const oldFile = await storage.head(oldPath)
+        if (!oldFile) {
           throw new Error(`File not found: ${input.oldName}`)
         }
+        if (newPath === oldPath) {
+          throw new Error(`${input.oldName} already has that name`)
+        }
+        if (!input.overwrite && await storage.head(newPath)) {
+          throw new Error(`${newName} already exists; pass overwrite to replace it`)
+        }
         
-        const response = await fetch(blobs[0].url)
-        const content = await response.text()
-        
-        // Create new file with same content
-        await put(newPath, content, {
-          access: 'public',
-          contentType: 'text/html',
-          addRandomSuffix: false,
-          allowOverwrite: true
-        })
+        // Copy to the new name, keeping the content type
+        await snapshot(newPath)
+        await snapshot(oldPath)
+        await movePublishStates(
+          tenantId,
+          paths.toRelative(oldPath),
+          paths.toRelative(newPath)
+        )
+        const renamed = await storage.copy(oldPath, newPath)
         
         // Delete old file
-        await del(blobs[0].url)
+        await storage.delete(oldPath)
+        await onFilesWritten(tenantId, [renamed], AI_AUTHOR)
+        await onFilesRemoved(tenantId, [oldPath])
+        await carryImageVariants(tenantId, paths.toRelative(oldPath), paths.toRelative(newPath), 'move')
+        await onSitePagesChanged(tenantId)
         
         return { 
           success: true, 
@@ -295,6 +376,76 @@ export async function executeSimpleTool(
         }
       }
 
+      case 'search_files': {
+        const documents = (await getSearchDocuments(tenantId))
+          .filter(document => access.can(document.path, 'read'))
+        const results = searchDocuments(documents, input.query || '', input.limit || 10)
+        
+        return {
+          success: true,
+          query: input.query,
+          results: results.map(result => ({
+            path: result.path,
+            title: result.title,
+            snippet: result.snippet
+          })),
+          count: results.length
+        }
+      }
+
+      case 'insert_image': {
+        const imagePath = paths.toRelative(resolvePath(input.image, 'read'))
+        const pageFullPath = resolvePath(input.page, 'write')
+        const pagePath = paths.toRelative(pageFullPath)
+        
+        if (!isOptimizableImage(imagePath)) {
+          throw new Error(`Not a JPEG, PNG, WebP, GIF or AVIF image: ${input.image}`)
+        }
+        
+        let content = await storage.readText(pageFullPath)
+        if (content === null) {
+          throw new Error(`File not found: ${input.page}`)
+        }
+        
+        let manifest = await getImageManifest(tenantId, imagePath)
+        if (!manifest) {
+          // Optimising writes the variants next to the image
+          if (!access.can(imagePath, 'write')) {
+            throw new FolderAccessError(imagePath, 'write')
+          }
+          manifest = await optimizeImage(tenantId, imagePath, AI_AUTHOR)
+        }
+        const markup = buildPictureMarkup(manifest, {
+          pagePath,
+          alt: input.alt || '',
+          sizes: input.sizes
+        })
+        
+        if (input.find) {
+          if (!content.includes(input.find)) {
+            throw new Error(`Text not found in file: "${input.find}"`)
+          }
+          content = content.replace(input.find, markup)
+        } else if (/<\/body>/i.test(content)) {
+          content = content.replace(/<\/body>/i, `${markup}\n</body>`)
+        } else {
+          content += `\n${markup}\n`
+        }
+        
+        await snapshot(pageFullPath)
+        const saved = await storage.put(pageFullPath, content, {
+          contentType: 'text/html'
+        })
+        await onFilesWritten(tenantId, [saved], AI_AUTHOR)
+        
+        return {
+          success: true,
+          message: `Inserted ${input.image} into ${input.page}`,
+          variants: manifest.variants.length,
+          markup
+        }
+      }
+
       default:
         throw new Error(`Unknown tool: ${toolName}`)
     }
@@ -304,5 +455,10 @@ export async function executeSimpleTool(
       success: false, 
       error: error instanceof Error ? error.message : 'Tool execution failed' 
     }
+  } finally {
+    // Reverting checks the files are still in this state, so later edits aren't lost
+    if (snapshots) {
+      await captureAfterStates(snapshots)
+    }
   }
 }
\ No newline at end of file
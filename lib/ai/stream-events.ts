@@ -0,0 +1,53 @@
+import type { ToolExecution } from './tool-loop'
+
+/**
+ * Events sent by /api/ai/stream-v2, one JSON object per line (NDJSON)
+ * Shared by the route that writes them and the chat UI that reads them
+ */
+export type AIStreamEvent =
+  | { type: 'text-delta'; text: string }
+  | { type: 'tool-call-start'; id: string; tool: string; input: any }
+  | { type: 'tool-result'; id: string; tool: string; input: any; result: any; isError: boolean }
+  | { type: 'finish'; message: string; tools: ToolExecution[]; steps: number; finishReason: string }
+  | { type: 'error'; error: string }
+
+export const STREAM_EVENTS_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8'
+
+/**
+ * Encode a single event as an NDJSON line
+ */
+export function encodeStreamEvent(event: AIStreamEvent): string {
+  return `${JSON.stringify(event)}\n`
+}
+
+/**
+ * Read NDJSON events from a streaming response body, calling onEvent for each
+ */
+export async function readStreamEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: AIStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      if (line.trim()) {
+        onEvent(JSON.parse(line) as AIStreamEvent)
+      }
+    }
+  }
+
+  buffer += decoder.decode()
+  if (buffer.trim()) {
+    onEvent(JSON.parse(buffer) as AIStreamEvent)
+  }
+}
@@ -13,6 +13,9 @@ You have access to these tools:
 4. delete_file - Delete a file or folder (requires: path)
 5. list_files - List all files in the current folder
 6. rename_file - Rename a file (requires: oldName, newName)
+7. search_files - Find pages by their text content (requires: query); paths are relative to the site root
+8. insert_image - Put an uploaded image into a page as a responsive <picture> with AVIF/WebP srcset (requires: image, page, alt)
+   - Prefer this over a plain <img> tag for JPEG, PNG, WebP, GIF and AVIF images
 
 IMPORTANT BEHAVIORAL RULES:
 
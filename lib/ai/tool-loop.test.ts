@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { resolveMaxSteps } from './tool-loop'
+
+// The tools reach storage and the tenant database, which these tests don't need
+vi.mock('./simple-tools', () => ({ simpleTools: [], executeSimpleTool: vi.fn() }))
+
+describe('resolveMaxSteps', () => {
+  const configured = process.env.AI_MAX_TOOL_STEPS
+
+  afterEach(() => {
+    if (configured === undefined) {
+      delete process.env.AI_MAX_TOOL_STEPS
+    } else {
+      process.env.AI_MAX_TOOL_STEPS = configured
+    }
+  })
+
+  it('defaults to 10 steps', () => {
+    delete process.env.AI_MAX_TOOL_STEPS
+    expect(resolveMaxSteps()).toBe(10)
+  })
+
+  it('uses AI_MAX_TOOL_STEPS as the limit', () => {
+    process.env.AI_MAX_TOOL_STEPS = '4'
+    expect(resolveMaxSteps()).toBe(4)
+    expect(resolveMaxSteps(20)).toBe(4)
+  })
+
+  it('ignores an invalid AI_MAX_TOOL_STEPS', () => {
+    process.env.AI_MAX_TOOL_STEPS = 'lots'
+    expect(resolveMaxSteps()).toBe(10)
+    process.env.AI_MAX_TOOL_STEPS = '-3'
+    expect(resolveMaxSteps()).toBe(10)
+  })
+
+  it('lets requests ask for fewer steps, rounding down', () => {
+    delete process.env.AI_MAX_TOOL_STEPS
+    expect(resolveMaxSteps(3)).toBe(3)
+    expect(resolveMaxSteps(2.9)).toBe(2)
+  })
+
+  it('ignores requests that are not positive numbers', () => {
+    delete process.env.AI_MAX_TOOL_STEPS
+    expect(resolveMaxSteps(0)).toBe(10)
+    expect(resolveMaxSteps(-1)).toBe(10)
+    expect(resolveMaxSteps('5')).toBe(10)
+    expect(resolveMaxSteps(null)).toBe(10)
+  })
+})
@@ -0,0 +1,199 @@
+import Anthropic from '@anthropic-ai/sdk'
+import { simpleTools, executeSimpleTool } from './simple-tools'
+import { getStorage } from '@/lib/storage'
+import { recordAudit, type AuditActor } from '@/lib/files/audit'
+import type { FileSnapshot } from './operation-log'
+import type { FolderAccess } from '@/lib/files/folder-access'
+
+// Default number of model calls per request when AI_MAX_TOOL_STEPS is not set
+const DEFAULT_MAX_STEPS = 10
+
+/**
+ * One entry in the ordered transcript of a tool loop run
+ */
+export type TranscriptEntry =
+  | { step: number; type: 'text'; text: string }
+  | { step: number; type: 'tool_call'; id: string; tool: string; input: any }
+  | { step: number; type: 'tool_result'; id: string; tool: string; result: any; isError: boolean }
+
+/**
+ * Tool execution summary, kept in the shape the chat UI already consumes
+ */
+export interface ToolExecution {
+  tool: string
+  input: any
+  result: any
+}
+
+export interface ToolLoopOptions {
+  anthropic: Anthropic
+  model: string
+  system: string
+  messages: Anthropic.MessageParam[]
+  tenantId: string
+  currentFolder: string
+  maxSteps?: number
+  maxTokens?: number
+  /** Folder grants of the requesting user; unrestricted when omitted */
+  folderAccess?: FolderAccess
+  /** Who asked; every tool call is written to the audit log when set */
+  auditActor?: AuditActor
+  /** Called after each tool runs, with the before-state of any files it changed */
+  onToolExecuted?: (execution: ToolExecution, snapshots: FileSnapshot[]) => Promise<void>
+}
+
+export interface ToolLoopResult {
+  message: string
+  tools: ToolExecution[]
+  transcript: TranscriptEntry[]
+  steps: number
+  stopReason: Anthropic.StopReason | 'max_steps' | null
+}
+
+/**
+ * Resolve the step limit for a request
+ * Requests may ask for fewer steps than AI_MAX_TOOL_STEPS, never more
+ */
+export function resolveMaxSteps(requested?: unknown): number {
+  const configured = parseInt(process.env.AI_MAX_TOOL_STEPS || '', 10)
+  const limit = configured > 0 ? configured : DEFAULT_MAX_STEPS
+
+  const value = typeof requested === 'number' ? Math.floor(requested) : NaN
+  return value > 0 ? Math.min(value, limit) : limit
+}
+
+/**
+ * Record a tool call in the tenant's audit log
+ * Sizes come from the before-snapshots and the files as they are afterwards;
+ * tools that took no snapshots (reads, deletions via the trash) have none
+ */
+export async function auditToolExecution(
+  tenantId: string,
+  actor: AuditActor,
+  execution: ToolExecution,
+  snapshots: FileSnapshot[]
+): Promise<void> {
+  const { input, result } = execution
+  const requested = [input?.filename, input?.path, input?.oldName, input?.newName, input?.page, input?.image]
+  const paths = snapshots.length > 0
+    ? snapshots.map(snapshot => snapshot.pathname.substring(tenantId.length + 1))
+    : requested.filter((path): path is string => typeof path === 'string')
+
+  let sizeBefore: number | null = null
+  let sizeAfter: number | null = null
+  if (snapshots.length > 0) {
+    sizeBefore = 0
+    sizeAfter = 0
+    for (const snapshot of snapshots) {
+      sizeBefore += snapshot.before ? Buffer.from(snapshot.before.data, 'base64').length : 0
+      sizeAfter += (await getStorage().head(snapshot.pathname))?.size ?? 0
+    }
+  }
+
+  await recordAudit(tenantId, actor, {
+    action: `ai.${execution.tool}`,
+    paths: [...new Set(paths)],
+    sizeBefore,
+    sizeAfter,
+    details: {
+      success: result?.success !== false,
+      error: result?.success === false ? result?.error || result?.message : undefined,
+      trashId: result?.trashId
+    }
+  })
+}
+
+/**
+ * Run Claude with the simple file tools until it stops asking for tools
+ * Every tool_use block is executed and sent back as a tool_result block,
+ * so the model can chain operations and see its own failures
+ */
+export async function runToolLoop({
+  anthropic,
+  model,
+  system,
+  messages,
+  tenantId,
+  currentFolder,
+  maxSteps = resolveMaxSteps(),
+  maxTokens = 4096,
+  folderAccess,
+  auditActor,
+  onToolExecuted
+}: ToolLoopOptions): Promise<ToolLoopResult> {
+  const conversation: Anthropic.MessageParam[] = [...messages]
+  const transcript: TranscriptEntry[] = []
+  const tools: ToolExecution[] = []
+  const textParts: string[] = []
+  let stopReason: ToolLoopResult['stopReason'] = null
+  let step = 0
+
+  while (step < maxSteps) {
+    step++
+
+    const response = await anthropic.messages.create({
+      model,
+      max_tokens: maxTokens,
+      system,
+      messages: conversation,
+      tools: simpleTools as Anthropic.Tool[]
+    })
+
+    stopReason = response.stop_reason
+    const toolResults: Anthropic.ToolResultBlockParam[] = []
+
+    for (const block of response.content) {
+      if (block.type === 'text') {
+        textParts.push(block.text)
+        transcript.push({ step, type: 'text', text: block.text })
+      } else if (block.type === 'tool_use') {
+        transcript.push({ step, type: 'tool_call', id: block.id, tool: block.name, input: block.input })
+
+        const snapshots: FileSnapshot[] = []
+        const result = await executeSimpleTool(
+          block.name,
+          block.input,
+          tenantId,
+          currentFolder,
+          snapshots,
+          folderAccess
+        )
+        const isError = result?.success === false
+        const execution = { tool: block.name, input: block.input, result }
+
+        tools.push(execution)
+        await onToolExecuted?.(execution, snapshots)
+        if (auditActor) {
+          await auditToolExecution(tenantId, auditActor, execution, snapshots)
+        }
+        transcript.push({ step, type: 'tool_result', id: block.id, tool: block.name, result, isError })
+        toolResults.push({
+          type: 'tool_result',
+          tool_use_id: block.id,
+          content: JSON.stringify(result),
+          is_error: isError
+        })
+      }
+    }
+
+    // Done once the model answers without requesting more tools
+    if (response.stop_reason !== 'tool_use' || toolResults.length === 0) {
+      break
+    }
+
+    conversation.push({ role: 'assistant', content: response.content })
+    conversation.push({ role: 'user', content: toolResults })
+
+    if (step >= maxSteps) {
+      stopReason = 'max_steps'
+    }
+  }
+
+  return {
+    message: textParts.join('\n\n'),
+    tools,
+    transcript,
+    steps: step,
+    stopReason
+  }
+}
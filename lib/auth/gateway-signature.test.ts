@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getRedisClient } from '@/lib/kv/redis-client'
+import {
+  verifyGatewaySignature,
+  signGatewayRequest,
+  signedRequestPath,
+  GatewaySignatureError,
+  type GatewaySignedFields
+} from './gateway-signature'
+
+vi.mock('@/lib/kv/redis-client', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/kv/redis-client')>(),
+  getRedisClient: vi.fn()
+}))
+
+const SECRET = 'test-secret'
+let nonceCounter = 0
+
+beforeEach(() => {
+  vi.stubEnv('REDIS_URL', '')
+  vi.stubEnv('KV_URL', '')
+  vi.stubEnv('KV_REST_API_URL', '')
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.mocked(getRedisClient).mockReset()
+})
+
+// Headers as the gateway sends them, signed for GET /page-builder/api/files/list?folder=blog
+function signedHeaders(overrides: Partial<GatewaySignedFields> = {}): Headers {
+  const fields: GatewaySignedFields = {
+    tenantId: 't1',
+    userId: 'u1',
+    email: 'ann@example.com',
+    role: 'editor',
+    timestamp: String(Math.floor(Date.now() / 1000)),
+    nonce: `nonce-${Date.now()}-${nonceCounter++}-abcdef`,
+    method: 'GET',
+    path: '/page-builder/api/files/list?folder=blog',
+    ...overrides
+  }
+
+  return new Headers({
+    'x-tenant-id': fields.tenantId,
+    'x-user-id': fields.userId,
+    'x-user-email': fields.email,
+    'x-user-role': fields.role,
+    'x-gateway-timestamp': fields.timestamp,
+    'x-gateway-nonce': fields.nonce,
+    'x-gateway-signature': signGatewayRequest(fields, SECRET)
+  })
+}
+
+const verify = (headers: Headers, path = '/page-builder/api/files/list?folder=blog') =>
+  verifyGatewaySignature(headers, 'GET', path, SECRET)
+
+describe('signedRequestPath', () => {
+  it('joins base path, path and query string', () => {
+    expect(signedRequestPath({ basePath: '/page-builder', pathname: '/api/files/list', search: '?folder=blog' }))
+      .toBe('/page-builder/api/files/list?folder=blog')
+    expect(signedRequestPath({ basePath: '', pathname: '/api/auth/me', search: '' })).toBe('/api/auth/me')
+  })
+})
+
+describe('verifyGatewaySignature', () => {
+  it('accepts a correctly signed request', async () => {
+    await expect(verify(signedHeaders())).resolves.toBeUndefined()
+  })
+
+  it('rejects a request whose query string was changed', async () => {
+    await expect(verify(signedHeaders(), '/page-builder/api/files/list?folder=admin'))
+      .rejects.toThrow('Invalid gateway signature')
+  })
+
+  it('rejects tampered identity headers', async () => {
+    const headers = signedHeaders()
+    headers.set('x-user-role', 'admin')
+    await expect(verify(headers)).rejects.toThrow('Invalid gateway signature')
+  })
+
+  it('rejects timestamps outside the skew window', async () => {
+    vi.stubEnv('GATEWAY_MAX_SKEW_SECONDS', '60')
+    const now = Math.floor(Date.now() / 1000)
+
+    await expect(verify(signedHeaders({ timestamp: String(now - 120) }))).rejects.toThrow('outside the allowed window')
+    await expect(verify(signedHeaders({ timestamp: String(now + 120) }))).rejects.toThrow('outside the allowed window')
+    await expect(verify(signedHeaders({ timestamp: String(now - 30) }))).resolves.toBeUndefined()
+  })
+
+  it('rejects a replayed nonce', async () => {
+    const headers = signedHeaders()
+
+    await verify(headers)
+    await expect(verify(headers)).rejects.toThrow('already used')
+  })
+
+  it('rejects missing headers and malformed nonces', async () => {
+    const headers = signedHeaders()
+    headers.delete('x-gateway-signature')
+    await expect(verify(headers)).rejects.toThrow(GatewaySignatureError)
+
+    await expect(verify(signedHeaders({ nonce: 'short' }))).rejects.toThrow('Invalid gateway nonce')
+  })
+
+  it('uses Redis for nonces when it is configured', async () => {
+    vi.stubEnv('REDIS_URL', 'redis://localhost:6379')
+    const set = vi.fn().mockResolvedValueOnce('OK').mockResolvedValueOnce(null)
+    vi.mocked(getRedisClient).mockResolvedValue({ set } as any)
+    const headers = signedHeaders()
+
+    await verify(headers)
+    await expect(verify(headers)).rejects.toThrow('already used')
+    expect(set).toHaveBeenCalledWith(expect.stringContaining(headers.get('x-gateway-nonce')!), '1', { NX: true, EX: 600 })
+  })
+
+  it('fails closed when Redis is configured but unavailable', async () => {
+    vi.stubEnv('REDIS_URL', 'redis://localhost:6379')
+    vi.mocked(getRedisClient).mockRejectedValue(new Error('connection refused'))
+
+    await expect(verify(signedHeaders())).rejects.toThrow('Replay protection is unavailable')
+  })
+})
@@ -0,0 +1,197 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { getRedisClient, hasRedisUrl } from '@/lib/kv/redis-client'
+import { logger } from '@/lib/utils/logger'
+
+/**
+ * Signed gateway headers
+ * NUMgate signs the identity headers it forwards with an HMAC over
+ * tenant/user/email/role/timestamp/nonce/method/path, using GATEWAY_SIGNING_SECRET.
+ * Middleware checks the signature, rejects timestamps outside the clock-skew
+ * window and remembers nonces so a captured request can't be replayed. Nonces
+ * are kept in Redis; only when no Redis URL is configured at all are they kept
+ * in memory, and a Redis failure rejects the request rather than weakening
+ * replay protection. The secret itself never travels with
+ * the request, so neither a leaked header nor a directly reachable origin is
+ * enough to act as another tenant.
+ */
+
+export const GATEWAY_SIGNATURE_HEADER = 'x-gateway-signature'
+export const GATEWAY_TIMESTAMP_HEADER = 'x-gateway-timestamp'
+export const GATEWAY_NONCE_HEADER = 'x-gateway-nonce'
+
+// Set by middleware once a request's signature checked out; never trusted from the client
+export const GATEWAY_VERIFIED_HEADER = 'x-gateway-verified'
+
+// Headers that carry identity and must only come from a verified gateway request
+export const GATEWAY_IDENTITY_HEADERS = ['x-tenant-id', 'x-user-id', 'x-user-email', 'x-user-role']
+
+const DEFAULT_MAX_SKEW_SECONDS = 300
+
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/
+
+const NONCE_KEY_PREFIX = 'gateway-nonce:'
+
+/**
+ * Raised when gateway headers are missing, stale, replayed or badly signed
+ */
+export class GatewaySignatureError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'GatewaySignatureError'
+  }
+}
+
+export interface GatewaySignedFields {
+  tenantId: string
+  userId: string
+  email: string
+  role: string
+  timestamp: string
+  nonce: string
+  method: string
+  path: string // See signedRequestPath
+}
+
+const memoryNonces = new Map<string, number>()
+
+export function getGatewaySigningSecret(): string | null {
+  return process.env.GATEWAY_SIGNING_SECRET || null
+}
+
+/**
+ * How far the gateway timestamp may be from our clock, in seconds
+ */
+export function getMaxSkewSeconds(): number {
+  const configured = parseInt(process.env.GATEWAY_MAX_SKEW_SECONDS || '', 10)
+  return configured > 0 ? configured : DEFAULT_MAX_SKEW_SECONDS
+}
+
+/**
+ * The path that is signed: the URL as the gateway forwards it to this app,
+ * without scheme and host, i.e. base path + path + query string. The query
+ * keeps its leading "?" and its encoding exactly as sent, and is left out
+ * entirely when empty. For example "/page-builder/api/files/list?folder=blog"
+ */
+export function signedRequestPath(url: { basePath: string; pathname: string; search: string }): string {
+  return `${url.basePath}${url.pathname}${url.search}`
+}
+
+/**
+ * The exact string that is signed, one field per line:
+ * tenant id, user id, email, role, timestamp, nonce, upper-case method and
+ * signedRequestPath, with "" for a missing email or role and no trailing newline
+ */
+export function buildSignaturePayload(fields: GatewaySignedFields): string {
+  return [
+    fields.tenantId,
+    fields.userId,
+    fields.email,
+    fields.role,
+    fields.timestamp,
+    fields.nonce,
+    fields.method.toUpperCase(),
+    fields.path
+  ].join('\n')
+}
+
+/**
+ * Hex HMAC-SHA256 of the signed fields; this is what the gateway sends
+ */
+export function signGatewayRequest(fields: GatewaySignedFields, secret: string): string {
+  return createHmac('sha256', secret).update(buildSignaturePayload(fields)).digest('hex')
+}
+
+let warnedMemoryNonces = false
+
+/**
+ * Remember a nonce for the length of the skew window
+ * Returns false when it was already used
+ */
+async function claimNonce(nonce: string, ttlSeconds: number): Promise<boolean> {
+  if (hasRedisUrl()) {
+    try {
+      const client = await getRedisClient()
+      const result = await client!.set(`${NONCE_KEY_PREFIX}${nonce}`, '1', { NX: true, EX: ttlSeconds })
+      return result === 'OK'
+    } catch (error) {
+      // Falling back to memory would let a replay through on any other instance
+      logger.error('Gateway nonce store failed, rejecting request:', error)
+      throw new GatewaySignatureError('Replay protection is unavailable')
+    }
+  }
+
+  if (!warnedMemoryNonces) {
+    warnedMemoryNonces = true
+    logger.warn('No Redis URL configured; gateway nonces are kept in memory of this instance only')
+  }
+
+  const now = Date.now()
+  for (const [key, expiresAt] of memoryNonces) {
+    if (expiresAt <= now) {
+      memoryNonces.delete(key)
+    }
+  }
+
+  if (memoryNonces.has(nonce)) {
+    return false
+  }
+  memoryNonces.set(nonce, now + ttlSeconds * 1000)
+  return true
+}
+
+/**
+ * Check the signature headers of a gateway request
+ * `path` is the signedRequestPath of the request.
+ * Throws GatewaySignatureError when the request must be rejected
+ */
+export async function verifyGatewaySignature(
+  headers: Headers,
+  method: string,
+  path: string,
+  secret: string
+): Promise<void> {
+  const signature = headers.get(GATEWAY_SIGNATURE_HEADER)
+  const timestamp = headers.get(GATEWAY_TIMESTAMP_HEADER)
+  const nonce = headers.get(GATEWAY_NONCE_HEADER)
+  const tenantId = headers.get('x-tenant-id')
+  const userId = headers.get('x-user-id')
+
+  if (!signature || !timestamp || !nonce) {
+    throw new GatewaySignatureError('Missing gateway signature')
+  }
+  if (!tenantId || !userId) {
+    throw new GatewaySignatureError('Missing required authentication headers')
+  }
+  if (!NONCE_PATTERN.test(nonce)) {
+    throw new GatewaySignatureError('Invalid gateway nonce')
+  }
+
+  const maxSkew = getMaxSkewSeconds()
+  const sentAt = Number(timestamp)
+  if (!/^\d+$/.test(timestamp) || Math.abs(Date.now() / 1000 - sentAt) > maxSkew) {
+    throw new GatewaySignatureError('Gateway timestamp is outside the allowed window')
+  }
+
+  const expected = Buffer.from(signGatewayRequest({
+    tenantId,
+    userId,
+    email: headers.get('x-user-email') || '',
+    role: headers.get('x-user-role') || '',
+    timestamp,
+    nonce,
+    method,
+    path
+  }, secret), 'hex')
+  const received = Buffer.from(signature, 'hex')
+
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    throw new GatewaySignatureError('Invalid gateway signature')
+  }
+
+  // Checked last so unsigned garbage can't fill the nonce store.
+  // Nonces live for both sides of the window, covering any timestamp still accepted.
+  if (!(await claimNonce(nonce, maxSkew * 2))) {
+    logger.warn('Gateway nonce replayed:', { tenantId, userId, method, path })
+    throw new GatewaySignatureError('Gateway request was already used')
+  }
+}
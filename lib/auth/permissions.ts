@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { logger } from '@/lib/utils/logger'
+import { getFolderAccess, type FolderAccess, type FolderAccessLevel } from '@/lib/files/folder-access'
+import { resolveRole, hasPermission, type Permission } from './roles'
+
+/**
+ * Wraps an API route handler so it only runs for roles with a permission
+ * Everyone else gets a 403 before the handler touches anything
+ */
+export function withPermission<T extends any[]>(
+  permission: Permission,
+  handler: (request: NextRequest, ...args: T) => Promise<Response>
+) {
+  return async (request: NextRequest, ...args: T): Promise<Response> => {
+    const role = resolveRole(request.headers.get('x-user-role'))
+
+    if (!hasPermission(role, permission)) {
+      logger.warn('Permission denied:', {
+        role,
+        permission,
+        method: request.method,
+        path: request.nextUrl.pathname
+      })
+      return NextResponse.json(
+        { error: `Your role (${role}) does not allow this action` },
+        { status: 403 }
+      )
+    }
+
+    return handler(request, ...args)
+  }
+}
+
+/**
+ * Folder access of the user making a request
+ */
+export async function getRequestFolderAccess(request: NextRequest, tenantId: string): Promise<FolderAccess> {
+  return getFolderAccess(tenantId, {
+    id: request.headers.get('x-user-id'),
+    email: request.headers.get('x-user-email'),
+    role: resolveRole(request.headers.get('x-user-role'))
+  })
+}
+
+/**
+ * Check folder grants for every path a request touches
+ * Paths may be tenant-relative or start with the tenant id.
+ * Returns a 403 response to send back, or null when access is allowed.
+ */
+export async function checkFolderAccess(
+  request: NextRequest,
+  tenantId: string,
+  paths: string[],
+  level: FolderAccessLevel
+): Promise<NextResponse | null> {
+  const access = await getRequestFolderAccess(request, tenantId)
+  const denied = paths
+    .map(path => path.startsWith(`${tenantId}/`) ? path.substring(tenantId.length + 1) : path)
+    .find(path => !access.can(path, level))
+
+  if (denied === undefined) {
+    return null
+  }
+
+  logger.warn('Folder access denied:', { path: denied, level, user: request.headers.get('x-user-id') })
+  return NextResponse.json(
+    { error: `You don't have ${level} access to /${denied.replace(/^\/+/, '')}` },
+    { status: 403 }
+  )
+}
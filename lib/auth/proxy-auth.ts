@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getGatewaySigningSecret, GATEWAY_VERIFIED_HEADER } from './gateway-signature'
 
 /**
  * Authentication context for proxied requests from NUMgate
@@ -29,6 +30,11 @@ export function requireProxyAuth(request: NextRequest): AuthContext {
   if (process.env.PROXY_SECRET && proxySecret !== process.env.PROXY_SECRET) {
     throw new Error('Invalid proxy authentication')
   }
+
+  // With signing configured, middleware must have checked the gateway signature
+  if (isProxied && getGatewaySigningSecret() && request.headers.get(GATEWAY_VERIFIED_HEADER) !== '1') {
+    throw new Error('Invalid proxy authentication')
+  }
   
   // Extract authentication headers
   const tenantId = request.headers.get('x-tenant-id')
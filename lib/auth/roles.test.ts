@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { resolveRole, hasPermission, getRoleAliases } from './roles'
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('resolveRole', () => {
+  it('accepts the built-in roles in any case', () => {
+    expect(resolveRole('editor')).toBe('editor')
+    expect(resolveRole(' Publisher ')).toBe('publisher')
+    expect(resolveRole('ADMIN')).toBe('admin')
+  })
+
+  it('maps owner to admin', () => {
+    expect(resolveRole('owner')).toBe('admin')
+  })
+
+  it('keeps generic, unknown and missing roles read-only', () => {
+    expect(resolveRole('user')).toBe('viewer')
+    expect(resolveRole('member')).toBe('viewer')
+    expect(resolveRole('superuser')).toBe('viewer')
+    expect(resolveRole('')).toBe('viewer')
+    expect(resolveRole(null)).toBe('viewer')
+  })
+
+  it('uses aliases from ROLE_ALIASES', () => {
+    vi.stubEnv('ROLE_ALIASES', 'member=editor, Staff=Publisher')
+    expect(resolveRole('member')).toBe('editor')
+    expect(resolveRole('staff')).toBe('publisher')
+    expect(resolveRole('user')).toBe('viewer')
+  })
+})
+
+describe('getRoleAliases', () => {
+  it('ignores entries that do not name a role', () => {
+    vi.stubEnv('ROLE_ALIASES', 'member=root,=editor,user')
+    expect(getRoleAliases()).toEqual({ owner: 'admin' })
+  })
+})
+
+describe('hasPermission', () => {
+  it('gives each role the permissions of the roles before it', () => {
+    expect(hasPermission('viewer', 'read')).toBe(true)
+    expect(hasPermission('viewer', 'write')).toBe(false)
+    expect(hasPermission('editor', 'write')).toBe(true)
+    expect(hasPermission('editor', 'publish')).toBe(false)
+    expect(hasPermission('publisher', 'publish')).toBe(true)
+    expect(hasPermission('publisher', 'settings')).toBe(false)
+    expect(hasPermission('admin', 'purge')).toBe(true)
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * Roles and what they may do
+ * The gateway sends the user's role in x-user-role. Each role includes every
+ * permission of the roles before it: viewers read, editors also change files,
+ * publishers also publish, admins also purge the trash and change settings.
+ * Kept free of server-only imports so the file browser can use it
+ */
+
+export type Role = 'viewer' | 'editor' | 'publisher' | 'admin'
+
+export type Permission = 'read' | 'write' | 'publish' | 'purge' | 'settings'
+
+export const ROLES: Role[] = ['viewer', 'editor', 'publisher', 'admin']
+
+const MINIMUM_ROLE: Record<Permission, Role> = {
+  read: 'viewer',
+  write: 'editor',
+  publish: 'publisher',
+  purge: 'admin',
+  settings: 'admin'
+}
+
+// Gateway roles that predate this model. Generic roles such as "user" or
+// "member" say nothing about what someone may change, so they stay read-only
+// unless ROLE_ALIASES maps them
+const DEFAULT_ROLE_ALIASES: Record<string, Role> = {
+  owner: 'admin'
+}
+
+/**
+ * Gateway role aliases, extended by ROLE_ALIASES, e.g. "member=editor,staff=publisher"
+ * Entries that do not name one of ROLES are ignored
+ */
+export function getRoleAliases(): Record<string, Role> {
+  const aliases = { ...DEFAULT_ROLE_ALIASES }
+
+  for (const entry of (process.env.ROLE_ALIASES || '').split(',')) {
+    const [alias, role] = entry.split('=').map(part => part.trim().toLowerCase())
+    if (alias && (ROLES as string[]).includes(role)) {
+      aliases[alias] = role as Role
+    }
+  }
+
+  return aliases
+}
+
+/**
+ * Map an x-user-role value to a role; anything unknown or missing is read-only
+ */
+export function resolveRole(value: string | null | undefined): Role {
+  const role = (value || '').trim().toLowerCase()
+  if ((ROLES as string[]).includes(role)) {
+    return role as Role
+  }
+  return getRoleAliases()[role] || 'viewer'
+}
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(MINIMUM_ROLE[permission])
+}
@@ -0,0 +1,110 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+import { getStorage } from '@/lib/storage'
+import { getRedisClient } from '@/lib/kv/redis-client'
+import { recordAudit, queryAudit, AuditQueryError, SYSTEM_ACTOR, type AuditActor } from './audit'
+
+vi.mock('@/lib/kv/redis-client', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/kv/redis-client')>(),
+  getRedisClient: vi.fn()
+}))
+
+const storageDir = mkdtempSync(join(tmpdir(), 'audit-test-'))
+
+beforeAll(() => {
+  process.env.STORAGE_DRIVER = 'local'
+  process.env.LOCAL_STORAGE_DIR = storageDir
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.useRealTimers()
+})
+
+afterAll(() => {
+  rmSync(storageDir, { recursive: true, force: true })
+})
+
+// Just enough of a Redis client for the audit lists
+function fakeRedis() {
+  const lists = new Map<string, string[]>()
+  return {
+    lists,
+    rPush: async (key: string, values: string[]) => {
+      lists.set(key, [...(lists.get(key) || []), ...values])
+      return lists.get(key)!.length
+    },
+    lRange: async (key: string) => lists.get(key) || []
+  }
+}
+
+function useRedis() {
+  vi.stubEnv('REDIS_URL', 'redis://localhost:6379')
+  const client = fakeRedis()
+  vi.mocked(getRedisClient).mockResolvedValue(client as any)
+  return client
+}
+
+const ann: AuditActor = { userId: 'u1', email: 'Ann@Example.com', role: 'editor', requestId: 'r1' }
+
+describe('audit log', () => {
+  it('returns matching entries newest first', async () => {
+    useRedis()
+    vi.useFakeTimers({ now: new Date('2026-03-01T10:00:00Z'), toFake: ['Date'] })
+    await recordAudit('t1', ann, { action: 'file.save', paths: ['blog/post.html'], sizeBefore: 1, sizeAfter: 2 })
+    vi.setSystemTime(new Date('2026-03-02T10:00:00Z'))
+    await recordAudit('t1', SYSTEM_ACTOR, { action: 'publish', paths: ['index.html'] })
+    await recordAudit('t1', ann, { action: 'file.delete', paths: ['blog'] })
+
+    const all = await queryAudit('t1')
+    expect(all.map(entry => entry.action)).toEqual(['file.delete', 'publish', 'file.save'])
+
+    expect((await queryAudit('t1', { user: 'ann@example.com' })).map(entry => entry.action))
+      .toEqual(['file.delete', 'file.save'])
+    expect((await queryAudit('t1', { path: '/blog/' })).map(entry => entry.action))
+      .toEqual(['file.delete', 'file.save'])
+    expect((await queryAudit('t1', { from: new Date('2026-03-02T00:00:00Z') })).map(entry => entry.action))
+      .toEqual(['file.delete', 'publish'])
+    expect(await queryAudit('t1', { limit: 1 })).toHaveLength(1)
+  })
+
+  it('keeps entries out of blob storage', async () => {
+    const client = useRedis()
+    await recordAudit('t2', ann, { action: 'file.save', paths: ['a.html'] })
+
+    expect([...client.lists.keys()]).toEqual([expect.stringMatching(/^audit:t2:\d{4}-\d{2}-\d{2}$/)])
+    expect(await getStorage().list({ prefix: 't2/' })).toMatchObject({ objects: [] })
+  })
+
+  it('skips corrupt entries', async () => {
+    const client = useRedis()
+    await recordAudit('t3', ann, { action: 'file.save', paths: ['a.html'] })
+    const [key] = client.lists.keys()
+    client.lists.get(key)!.push('{not json', 'null', '{"at":"2026-01-01"}')
+
+    expect((await queryAudit('t3')).map(entry => entry.action)).toEqual(['file.save'])
+  })
+
+  it('never throws when the write fails', async () => {
+    vi.stubEnv('REDIS_URL', 'redis://localhost:6379')
+    vi.mocked(getRedisClient).mockRejectedValue(new Error('connection refused'))
+
+    await expect(recordAudit('t5', ann, { action: 'file.save', paths: ['a.html'] })).resolves.toBeUndefined()
+  })
+
+  it('keeps entries in memory without Redis', async () => {
+    vi.stubEnv('REDIS_URL', '')
+    vi.stubEnv('KV_URL', '')
+    vi.stubEnv('KV_REST_API_URL', '')
+    await recordAudit('t6', ann, { action: 'file.save', paths: ['a.html'] })
+
+    expect((await queryAudit('t6')).map(entry => entry.action)).toEqual(['file.save'])
+  })
+
+  it('rejects inverted and overlong date ranges', async () => {
+    await expect(queryAudit('t1', { from: new Date('2026-02-01'), to: new Date('2026-01-01') })).rejects.toThrow(AuditQueryError)
+    await expect(queryAudit('t1', { from: new Date('2024-01-01'), to: new Date('2026-01-01') })).rejects.toThrow(AuditQueryError)
+  })
+})
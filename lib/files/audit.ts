@@ -0,0 +1,216 @@
+import { randomUUID } from 'crypto'
+import type { NextRequest } from 'next/server'
+import { getRedisClient, hasRedisUrl } from '@/lib/kv/redis-client'
+import { resolveRole, type Role } from '@/lib/auth/roles'
+import { logger } from '@/lib/utils/logger'
+
+/**
+ * Tenant audit log
+ * Every file change made through /api/files, every AI tool call, every publish
+ * and every settings change is appended to a Redis list per tenant and day,
+ * audit:{tenantId}:{day}. Entries are only ever added, never rewritten or
+ * purged, so concurrent requests can't lose each other's records. Audit data
+ * never goes to blob storage, where objects are publicly readable. Without a
+ * Redis URL the log is kept in memory.
+ * Admins query the log by user, path and date range, newest first.
+ */
+
+export interface AuditActor {
+  userId: string | null
+  email: string | null
+  role: Role | 'system' // 'system' for scheduled jobs
+  requestId: string | null
+}
+
+export interface AuditEntry extends AuditActor {
+  id: string
+  at: string
+  action: string // e.g. file.save, file.delete, publish, ai.edit_file, settings.robots
+  paths: string[] // Tenant-relative
+  sizeBefore: number | null // Total bytes of the affected files, when known
+  sizeAfter: number | null
+  details?: Record<string, unknown>
+}
+
+export interface AuditEvent {
+  action: string
+  paths: string[]
+  sizeBefore?: number | null
+  sizeAfter?: number | null
+  details?: Record<string, unknown>
+}
+
+export interface AuditQuery {
+  user?: string // User id or email
+  path?: string // The path itself or anything inside it
+  from?: Date
+  to?: Date
+  limit?: number
+}
+
+/**
+ * Raised when an audit query makes no sense
+ */
+export class AuditQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AuditQueryError'
+  }
+}
+
+export const SYSTEM_ACTOR: AuditActor = { userId: null, email: null, role: 'system', requestId: null }
+
+const DAY_MS = 86400 * 1000
+const DEFAULT_QUERY_DAYS = 30
+const MAX_QUERY_DAYS = 366
+const DEFAULT_LIMIT = 100
+export const MAX_AUDIT_LIMIT = 500
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function dayListKey(tenantId: string, day: string): string {
+  return `audit:${tenantId}:${day}`
+}
+
+// Without Redis; lost on restart and not shared between instances
+const memoryLog = new Map<string, string[]>()
+let warnedMemoryLog = false
+
+async function appendEntries(tenantId: string, day: string, raw: string[]): Promise<void> {
+  if (hasRedisUrl()) {
+    const client = await getRedisClient()
+    await client!.rPush(dayListKey(tenantId, day), raw)
+    return
+  }
+
+  if (!warnedMemoryLog) {
+    warnedMemoryLog = true
+    logger.warn('No Redis URL configured; the audit log is kept in memory of this instance only')
+  }
+  const key = dayListKey(tenantId, day)
+  memoryLog.set(key, [...(memoryLog.get(key) || []), ...raw])
+}
+
+// Every entry of one day in a single round trip
+async function readDay(tenantId: string, day: string): Promise<string[]> {
+  if (hasRedisUrl()) {
+    const client = await getRedisClient()
+    return client!.lRange(dayListKey(tenantId, day), 0, -1)
+  }
+  return memoryLog.get(dayListKey(tenantId, day)) || []
+}
+
+// Corrupt entries are skipped rather than failing the whole query
+function parseEntry(raw: string): AuditEntry | null {
+  try {
+    const entry = JSON.parse(raw)
+    return entry && typeof entry.at === 'string' && Array.isArray(entry.paths) ? entry as AuditEntry : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Who is making a request, as recorded in the audit log
+ */
+export function getAuditActor(request: NextRequest): AuditActor {
+  return {
+    userId: request.headers.get('x-user-id'),
+    email: request.headers.get('x-user-email'),
+    role: resolveRole(request.headers.get('x-user-role')),
+    requestId: request.headers.get('x-request-id') || randomUUID()
+  }
+}
+
+/**
+ * Total size of a set of files, for sizeBefore and sizeAfter
+ */
+export function totalSize(files: { size: number }[]): number {
+  return files.reduce((sum, file) => sum + file.size, 0)
+}
+
+/**
+ * Append an entry to the tenant's audit log
+ * Never throws: a failed audit write must not fail the change it describes
+ */
+export async function recordAudit(tenantId: string, actor: AuditActor, event: AuditEvent): Promise<void> {
+  const now = new Date()
+  const entry: AuditEntry = {
+    // Timestamp first so entries of a day list in the order they happened
+    id: `${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    at: now.toISOString(),
+    ...actor,
+    action: event.action,
+    paths: event.paths,
+    sizeBefore: event.sizeBefore ?? null,
+    sizeAfter: event.sizeAfter ?? null,
+    details: event.details
+  }
+
+  try {
+    await appendEntries(tenantId, dayKey(now), [JSON.stringify(entry)])
+  } catch (error) {
+    logger.error('Audit log write failed:', { action: event.action, paths: event.paths, error })
+  }
+}
+
+function matches(entry: AuditEntry, user: string, path: string, from: Date, to: Date): boolean {
+  const at = new Date(entry.at)
+  if (at < from || at > to) {
+    return false
+  }
+  if (user && entry.userId?.toLowerCase() !== user && entry.email?.toLowerCase() !== user) {
+    return false
+  }
+  if (path && !entry.paths.some(touched => touched === path || touched.startsWith(`${path}/`))) {
+    return false
+  }
+  return true
+}
+
+/**
+ * Audit entries matching a query, newest first
+ * Without dates the last 30 days are searched
+ */
+export async function queryAudit(tenantId: string, query: AuditQuery = {}): Promise<AuditEntry[]> {
+  const to = query.to || new Date()
+  const from = query.from || new Date(to.getTime() - DEFAULT_QUERY_DAYS * DAY_MS)
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    throw new AuditQueryError('from and to must be dates')
+  }
+  if (from > to) {
+    throw new AuditQueryError('from must be before to')
+  }
+  if (to.getTime() - from.getTime() > MAX_QUERY_DAYS * DAY_MS) {
+    throw new AuditQueryError(`Date ranges are limited to ${MAX_QUERY_DAYS} days`)
+  }
+
+  const limit = Math.min(Math.max(Math.floor(query.limit || DEFAULT_LIMIT), 1), MAX_AUDIT_LIMIT)
+  const user = (query.user || '').trim().toLowerCase()
+  const path = (query.path || '').replace(/^\/+|\/+$/g, '')
+
+  const entries: AuditEntry[] = []
+
+  // Walk the days from newest to oldest, stopping once there are enough entries
+  const firstDay = dayKey(from)
+  for (let day = new Date(to); dayKey(day) >= firstDay && entries.length < limit; day = new Date(day.getTime() - DAY_MS)) {
+    const dayEntries = [...await readDay(tenantId, dayKey(day))]
+      .reverse()
+      .map(parseEntry)
+      .filter((entry): entry is AuditEntry => entry !== null)
+      // Concurrent requests may append slightly out of order; the sort is stable for equal times
+      .sort((a, b) => b.at.localeCompare(a.at))
+
+    for (const entry of dayEntries) {
+      if (matches(entry, user, path, from, to)) {
+        entries.push(entry)
+        if (entries.length >= limit) break
+      }
+    }
+  }
+
+  return entries
+}
@@ -0,0 +1,53 @@
+/**
+ * Content types for the file extensions the builder stores and serves
+ */
+
+const CONTENT_TYPES: Record<string, string> = {
+  html: 'text/html',
+  htm: 'text/html',
+  css: 'text/css',
+  js: 'application/javascript',
+  mjs: 'application/javascript',
+  json: 'application/json',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  txt: 'text/plain',
+  xml: 'application/xml',
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  ico: 'image/x-icon',
+  pdf: 'application/pdf',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mp3: 'audio/mpeg'
+}
+
+const DEFAULT_CONTENT_TYPE = 'application/octet-stream'
+
+/**
+ * Look up the content type for a path by its extension
+ */
+export function getContentType(path: string): string {
+  const extension = path.split('/').pop()?.split('.').pop()?.toLowerCase() || ''
+  return CONTENT_TYPES[extension] || DEFAULT_CONTENT_TYPE
+}
+
+/**
+ * Whether a content type is text that can be edited in the builder
+ */
+export function isTextContentType(contentType: string): boolean {
+  return contentType.startsWith('text/')
+    || contentType === 'application/javascript'
+    || contentType === 'application/json'
+    || contentType === 'application/xml'
+    || contentType === 'image/svg+xml'
+}
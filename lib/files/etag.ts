@@ -0,0 +1,27 @@
+import { createHash } from 'crypto'
+
+/**
+ * Content-based version tokens for optimistic concurrency on save
+ * The token is a quoted hash of the file body, so it can be used directly
+ * as an HTTP ETag and compared against an If-Match request header
+ */
+
+export function computeETag(body: string | ArrayBuffer): string {
+  const data = typeof body === 'string' ? body : Buffer.from(body)
+  return `"${createHash('sha256').update(data).digest('hex').slice(0, 32)}"`
+}
+
+/**
+ * Check an If-Match header value against the current ETag
+ * Supports `*`, comma separated lists and weak validators; a missing file
+ * only matches `*` when the caller expects it to exist
+ */
+export function matchesIfMatch(ifMatch: string, currentETag: string | null): boolean {
+  const candidates = ifMatch.split(',').map(tag => tag.trim().replace(/^W\//, ''))
+
+  if (candidates.includes('*')) {
+    return currentETag !== null
+  }
+
+  return currentETag !== null && candidates.includes(currentETag)
+}
@@ -0,0 +1,137 @@
+import { getStorage, listAll } from '@/lib/storage'
+import { isInternalPath } from './internal-paths'
+import { getPublishRecords, resolvePublishRecord, isLive } from './publish'
+import { getContentType } from './content-types'
+import { createZip, ZipLimitError, MAX_ZIP_ENTRIES, MAX_ZIP_SIZE, type ZipEntry } from './zip'
+import { linkSourceKind, rewriteLinks, isExternalUrl, splitUrlSuffix, relativeLink } from './links'
+
+/**
+ * Static site export
+ * Bundles the published files of a tenant, or of one folder, into a zip that
+ * can be hosted anywhere. Links that point into the exported site are made
+ * relative, so the archive works from any directory on any host.
+ */
+
+export const EXPORT_MANIFEST_NAME = 'export-manifest.json'
+
+export interface ExportManifest {
+  generatedAt: string
+  folder: string
+  files: {
+    path: string
+    size: number
+    contentType: string
+    lastModified: string
+  }[]
+}
+
+export interface SiteExport {
+  zip: Buffer
+  manifest: ExportManifest
+}
+
+// Skips dotfiles and dot folders anywhere in the path, e.g. folder notes
+function isHiddenPath(path: string): boolean {
+  return path.split('/').some(segment => segment.startsWith('.'))
+}
+
+/**
+ * Build the zip for a folder ('' for the whole site)
+ * siteBases are the absolute and root-relative URL prefixes the site is served
+ * under; links starting with one of them or with "/" are treated as internal.
+ * Returns null when the folder has no published files.
+ */
+export async function buildSiteExport(
+  tenantId: string,
+  folder: string,
+  siteBases: string[]
+): Promise<SiteExport | null> {
+  const storage = getStorage()
+  const prefix = folder ? `${tenantId}/${folder}/` : `${tenantId}/`
+  const records = await getPublishRecords(tenantId)
+
+  const objects = (await listAll(storage, prefix)).filter(object => {
+    const path = object.pathname.substring(tenantId.length + 1)
+    return !isHiddenPath(path) && !isInternalPath(path) && isLive(resolvePublishRecord(records, path))
+  })
+
+  if (objects.length === 0) {
+    return null
+  }
+
+  // Fail before reading anything when the archive can't be written; one entry is the manifest
+  if (objects.length + 1 > MAX_ZIP_ENTRIES) {
+    throw new ZipLimitError(`Exports are limited to ${MAX_ZIP_ENTRIES - 1} files, this folder has ${objects.length}`)
+  }
+  if (objects.reduce((sum, object) => sum + object.size, 0) > MAX_ZIP_SIZE) {
+    throw new ZipLimitError('Exports are limited to 4 GB, export a smaller folder')
+  }
+
+  // Longest first, so "/{slug}/" wins over "/"
+  const bases = [...siteBases, '/'].sort((a, b) => b.length - a.length)
+
+  const entries: ZipEntry[] = []
+  const manifest: ExportManifest = {
+    generatedAt: new Date().toISOString(),
+    folder,
+    files: []
+  }
+
+  for (const object of objects) {
+    const file = await storage.read(object.pathname)
+    if (!file) continue
+
+    const tenantPath = object.pathname.substring(tenantId.length + 1)
+    const exportPath = tenantPath.substring(folder ? folder.length + 1 : 0)
+    const kind = linkSourceKind(tenantPath)
+
+    let data = Buffer.from(file.body)
+    if (kind) {
+      const content = rewriteLinks(data.toString('utf8'), kind, url =>
+        toRelativeLink(url, exportPath, folder, bases)
+      )
+      data = Buffer.from(content, 'utf8')
+    }
+
+    const lastModified = new Date(object.uploadedAt)
+    entries.push({ path: exportPath, data, modifiedAt: lastModified })
+    manifest.files.push({
+      path: exportPath,
+      size: data.length,
+      contentType: object.contentType || getContentType(tenantPath),
+      lastModified: lastModified.toISOString()
+    })
+  }
+
+  entries.push({
+    path: EXPORT_MANIFEST_NAME,
+    data: Buffer.from(JSON.stringify(manifest, null, 2), 'utf8')
+  })
+
+  return { zip: createZip(entries), manifest }
+}
+
+// Rewrite a site-internal link into one relative to the exported file
+// Links to pages outside the exported folder are left alone
+function toRelativeLink(url: string, fromExportPath: string, folder: string, bases: string[]): string | null {
+  const base = bases.find(candidate => url.startsWith(candidate))
+  if (!base || (base === '/' && isExternalUrl(url))) {
+    return null
+  }
+
+  const { path, suffix } = splitUrlSuffix(url.substring(base.length))
+  let tenantPath: string
+  try {
+    tenantPath = decodeURI(path)
+  } catch {
+    return null // Malformed escapes; leave the link as the author wrote it
+  }
+  const folderPrefix = folder ? `${folder}/` : ''
+
+  if (folder && tenantPath !== folder && !tenantPath.startsWith(folderPrefix)) {
+    return null
+  }
+
+  const target = tenantPath === folder ? '' : tenantPath.substring(folderPrefix.length)
+  return encodeURI(relativeLink(fromExportPath, target)) + suffix
+}
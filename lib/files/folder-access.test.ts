@@ -0,0 +1,109 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import {
+  folderAccessFromGrants,
+  getFolderAccess,
+  addFolderGrant,
+  removeFolderGrant,
+  liftFolderRestriction,
+  listRestrictedUsers,
+  FolderGrantError,
+  type FolderGrant
+} from './folder-access'
+
+const storageDir = mkdtempSync(join(tmpdir(), 'folder-access-test-'))
+
+beforeAll(() => {
+  process.env.STORAGE_DRIVER = 'local'
+  process.env.LOCAL_STORAGE_DIR = storageDir
+})
+
+afterAll(() => {
+  rmSync(storageDir, { recursive: true, force: true })
+})
+
+function grant(folder: string, access: FolderGrant['access']): FolderGrant {
+  return { id: folder, user: 'ann@example.com', folder, access, createdAt: '', createdBy: null }
+}
+
+const editor = (email: string) => ({ id: null, email, role: 'editor' as const })
+
+describe('folderAccessFromGrants', () => {
+  it('leaves users who were never restricted unrestricted', () => {
+    const access = folderAccessFromGrants([])
+    expect(access.restricted).toBe(false)
+    expect(access.can('anything.html', 'write')).toBe(true)
+  })
+
+  it('gives a restricted user without grants no access', () => {
+    const access = folderAccessFromGrants([], true)
+    expect(access.restricted).toBe(true)
+    expect(access.can('index.html', 'read')).toBe(false)
+    expect(access.canSee('')).toBe(true)
+    expect(access.canSee('clients')).toBe(false)
+  })
+
+  it('limits reads and writes to the granted folders', () => {
+    const access = folderAccessFromGrants([grant('clients/acme', 'write'), grant('shared', 'read')])
+
+    expect(access.can('clients/acme/index.html', 'write')).toBe(true)
+    expect(access.can('/clients/acme/', 'write')).toBe(true)
+    expect(access.can('shared/logo.png', 'read')).toBe(true)
+    expect(access.can('shared/logo.png', 'write')).toBe(false)
+    expect(access.can('clients/acme-old/index.html', 'read')).toBe(false)
+    expect(access.can('index.html', 'read')).toBe(false)
+  })
+
+  it('shows the parents of granted folders in listings', () => {
+    const access = folderAccessFromGrants([grant('clients/acme', 'write')])
+
+    expect(access.canSee('')).toBe(true)
+    expect(access.canSee('clients')).toBe(true)
+    expect(access.canSee('clients/other')).toBe(false)
+  })
+
+  it('treats a grant on the site root as the whole site', () => {
+    const access = folderAccessFromGrants([grant('', 'read')])
+    expect(access.can('any/page.html', 'read')).toBe(true)
+    expect(access.can('any/page.html', 'write')).toBe(false)
+  })
+})
+
+describe('folder grants', () => {
+  it('keeps a user restricted after their last grant is removed', async () => {
+    const created = await addFolderGrant('t1', { user: ' Ann@Example.com ', folder: '/clients/acme/', access: 'write' }, null)
+    expect(created.user).toBe('ann@example.com')
+    expect(created.folder).toBe('clients/acme')
+
+    expect(await removeFolderGrant('t1', created.id)).toEqual(created)
+
+    const access = await getFolderAccess('t1', editor('ann@example.com'))
+    expect(access.restricted).toBe(true)
+    expect(access.can('clients/acme/index.html', 'read')).toBe(false)
+    expect(await listRestrictedUsers('t1')).toEqual(['ann@example.com'])
+  })
+
+  it('gives the whole site back when the restriction is lifted', async () => {
+    await addFolderGrant('t2', { user: 'bob', folder: 'blog', access: 'read' }, null)
+
+    expect(await liftFolderRestriction('t2', 'BOB')).toBe(true)
+
+    expect((await getFolderAccess('t2', { id: 'bob', email: null, role: 'editor' })).restricted).toBe(false)
+    expect(await liftFolderRestriction('t2', 'bob')).toBe(false)
+  })
+
+  it('never restricts admins', async () => {
+    await addFolderGrant('t3', { user: 'root@example.com', folder: 'blog', access: 'read' }, null)
+    const access = await getFolderAccess('t3', { id: null, email: 'root@example.com', role: 'admin' })
+    expect(access.can('index.html', 'write')).toBe(true)
+  })
+
+  it('rejects grants on hidden or parent folders', async () => {
+    await expect(addFolderGrant('t4', { user: 'ann', folder: '.settings', access: 'read' }, null))
+      .rejects.toThrow(FolderGrantError)
+    await expect(addFolderGrant('t4', { user: 'ann', folder: 'a/../b', access: 'read' }, null))
+      .rejects.toThrow(FolderGrantError)
+  })
+})
@@ -0,0 +1,222 @@
+import type { Role } from '@/lib/auth/roles'
+import { readTenantSettings, writeTenantSettings } from './tenant-settings'
+
+/**
+ * Per-folder access grants
+ * Admins can limit a user to parts of the site, e.g. agency staff who may only
+ * edit clients/acme. A user who was never granted a folder keeps access to the
+ * whole site, as far as their role allows. The first grant makes a user
+ * restricted: they can only read or change files inside their granted folders,
+ * and removing their last grant leaves them with no access rather than all of
+ * it. Only lifting the restriction gives them the whole site back.
+ * Grants never widen a role: a viewer with a write grant is still read-only.
+ * Admins are never restricted.
+ * Grants are stored per tenant in .settings/folder-access.json.
+ */
+
+export type FolderAccessLevel = 'read' | 'write'
+
+export interface FolderGrant {
+  id: string
+  user: string // User id or email address, lowercase
+  folder: string // Tenant-relative, '' for the whole site
+  access: FolderAccessLevel
+  createdAt: string
+  createdBy: string | null
+}
+
+interface FolderAccessSettings {
+  grants: FolderGrant[]
+  restricted?: string[] // Users limited to their grants, even once they have none left
+}
+
+export interface FolderAccess {
+  restricted: boolean
+  // Whether a file or folder path may be read or changed
+  can: (path: string, level: FolderAccessLevel) => boolean
+  // Whether a path should show up in listings: readable, or a parent of a granted folder
+  canSee: (path: string) => boolean
+}
+
+/**
+ * Raised when a user tries to read or change a path outside their grants
+ */
+export class FolderAccessError extends Error {
+  constructor(path: string, level: FolderAccessLevel) {
+    super(`No ${level} access to /${path}`)
+    this.name = 'FolderAccessError'
+  }
+}
+
+/**
+ * Raised when an admin saves a grant that makes no sense
+ */
+export class FolderGrantError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FolderGrantError'
+  }
+}
+
+const SETTINGS_NAME = 'folder-access'
+
+const DEFAULT_SETTINGS: FolderAccessSettings = { grants: [] }
+
+export const UNRESTRICTED_ACCESS: FolderAccess = {
+  restricted: false,
+  can: () => true,
+  canSee: () => true
+}
+
+export function normalizeFolder(folder: string): string {
+  return folder.replace(/^\/+|\/+$/g, '')
+}
+
+function isInside(path: string, folder: string): boolean {
+  return folder === '' || path === folder || path.startsWith(`${folder}/`)
+}
+
+/**
+ * Access for a set of grants that all belong to one user
+ * A restricted user without grants can see the site root and nothing else
+ */
+export function folderAccessFromGrants(grants: FolderGrant[], restricted = grants.length > 0): FolderAccess {
+  if (!restricted) {
+    return UNRESTRICTED_ACCESS
+  }
+
+  const can = (path: string, level: FolderAccessLevel) => {
+    const normalized = normalizeFolder(path)
+    return grants.some(grant =>
+      isInside(normalized, grant.folder) && (level === 'read' || grant.access === 'write')
+    )
+  }
+
+  return {
+    restricted: true,
+    can,
+    canSee: (path: string) => {
+      const normalized = normalizeFolder(path)
+      return can(normalized, 'read')
+        || normalized === ''
+        || grants.some(grant => grant.folder.startsWith(`${normalized}/`))
+    }
+  }
+}
+
+export async function listFolderGrants(tenantId: string): Promise<FolderGrant[]> {
+  return (await readTenantSettings(tenantId, SETTINGS_NAME, DEFAULT_SETTINGS)).grants
+}
+
+/**
+ * Users limited to their grants, including those with no grants left
+ */
+export async function listRestrictedUsers(tenantId: string): Promise<string[]> {
+  const settings = await readTenantSettings(tenantId, SETTINGS_NAME, DEFAULT_SETTINGS)
+  return restrictedUsersOf(settings)
+}
+
+// Settings saved before the restricted list existed only know users by their grants
+function restrictedUsersOf(settings: FolderAccessSettings): string[] {
+  return [...new Set([...(settings.restricted || []), ...settings.grants.map(grant => grant.user)])]
+}
+
+/**
+ * Folder access of a user, looked up by user id and by email
+ */
+export async function getFolderAccess(
+  tenantId: string,
+  user: { id: string | null; email: string | null; role: Role }
+): Promise<FolderAccess> {
+  if (user.role === 'admin') {
+    return UNRESTRICTED_ACCESS
+  }
+
+  const identities = [user.id, user.email]
+    .filter((identity): identity is string => !!identity)
+    .map(identity => identity.toLowerCase())
+  const settings = await readTenantSettings(tenantId, SETTINGS_NAME, DEFAULT_SETTINGS)
+  const grants = settings.grants.filter(grant => identities.includes(grant.user))
+  const restricted = restrictedUsersOf(settings).some(user => identities.includes(user))
+
+  return folderAccessFromGrants(grants, restricted)
+}
+
+export async function addFolderGrant(
+  tenantId: string,
+  grant: { user: string; folder: string; access: FolderAccessLevel },
+  createdBy: string | null
+): Promise<FolderGrant> {
+  const user = typeof grant.user === 'string' ? grant.user.trim().toLowerCase() : ''
+  if (!user) {
+    throw new FolderGrantError('user must be a user id or email address')
+  }
+  if (typeof grant.folder !== 'string') {
+    throw new FolderGrantError('folder is required')
+  }
+  const folder = normalizeFolder(grant.folder)
+  if (folder.split('/').some(segment => segment === '..' || segment === '.' || segment.startsWith('.'))) {
+    throw new FolderGrantError('folder must be a site folder')
+  }
+  if (grant.access !== 'read' && grant.access !== 'write') {
+    throw new FolderGrantError('access must be read or write')
+  }
+
+  const settings = await readTenantSettings(tenantId, SETTINGS_NAME, DEFAULT_SETTINGS)
+  const created: FolderGrant = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    user,
+    folder,
+    access: grant.access,
+    createdAt: new Date().toISOString(),
+    createdBy
+  }
+
+  // One grant per user and folder; granting again replaces the access level
+  const grants = settings.grants.filter(existing => existing.user !== user || existing.folder !== folder)
+  await writeTenantSettings(tenantId, SETTINGS_NAME, {
+    grants: [...grants, created],
+    restricted: [...new Set([...restrictedUsersOf(settings), user])]
+  })
+
+  return created
+}
+
+/**
+ * Remove a grant; returns null when there was none with that id
+ * The user stays restricted, so removing their last grant leaves them without access
+ */
+export async function removeFolderGrant(tenantId: string, id: string): Promise<FolderGrant | null> {
+  const settings = await readTenantSettings(tenantId, SETTINGS_NAME, DEFAULT_SETTINGS)
+  const removed = settings.grants.find(grant => grant.id === id)
+
+  if (!removed) {
+    return null
+  }
+
+  await writeTenantSettings(tenantId, SETTINGS_NAME, {
+    grants: settings.grants.filter(grant => grant.id !== id),
+    restricted: restrictedUsersOf(settings)
+  })
+  return removed
+}
+
+/**
+ * Give a restricted user the whole site back, dropping all of their grants
+ * Returns false when the user was not restricted
+ */
+export async function liftFolderRestriction(tenantId: string, user: string): Promise<boolean> {
+  const settings = await readTenantSettings(tenantId, SETTINGS_NAME, DEFAULT_SETTINGS)
+  const normalized = user.trim().toLowerCase()
+  const restricted = restrictedUsersOf(settings)
+
+  if (!restricted.includes(normalized)) {
+    return false
+  }
+
+  await writeTenantSettings(tenantId, SETTINGS_NAME, {
+    grants: settings.grants.filter(grant => grant.user !== normalized),
+    restricted: restricted.filter(existing => existing !== normalized)
+  })
+  return true
+}
@@ -0,0 +1,33 @@
+/**
+ * Naming of responsive image variants
+ * Kept free of server-only imports so the file browser can use it
+ */
+
+const OPTIMIZABLE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp', 'gif', 'avif']
+
+const VARIANTS_SUFFIX = '.variants'
+
+/**
+ * Folder next to an image that holds its variants, e.g. images/hero.jpg.variants
+ */
+export function variantsFolder(path: string): string {
+  return `${path}${VARIANTS_SUFFIX}`
+}
+
+/**
+ * Whether a path is a variants folder or inside one
+ * Variants belong to their image: they move, copy and go to the trash with it
+ * and are left out of the file tree, the file index and the search index
+ */
+export function isVariantPath(path: string): boolean {
+  return path.split('/').some(segment => segment.endsWith(VARIANTS_SUFFIX))
+}
+
+/**
+ * Whether a file is a raster image that can get responsive variants
+ * Variants themselves are excluded so they are never optimised again
+ */
+export function isOptimizableImage(path: string): boolean {
+  const extension = path.split('.').pop()?.toLowerCase() || ''
+  return OPTIMIZABLE_EXTENSIONS.includes(extension) && !isVariantPath(path)
+}
@@ -0,0 +1,93 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { getStorage, listAll } from '@/lib/storage'
+import { isVariantPath } from './image-paths'
+import { carryImageVariants, rebaseImageManifests, getImageManifest, type ImageManifest } from './images'
+
+// Index, search and sitemap upkeep need Redis and the tenant database
+vi.mock('./sync', () => ({ onFilesWritten: vi.fn(async () => new Map()), onFilesRemoved: vi.fn() }))
+
+const storageDir = mkdtempSync(join(tmpdir(), 'images-test-'))
+
+beforeAll(() => {
+  process.env.STORAGE_DRIVER = 'local'
+  process.env.LOCAL_STORAGE_DIR = storageDir
+})
+
+afterAll(() => {
+  rmSync(storageDir, { recursive: true, force: true })
+})
+
+// An image with one variant and its manifest, as optimizeImage leaves them
+async function storeOptimizedImage(tenantId: string, path: string) {
+  const storage = getStorage()
+  const manifest: ImageManifest = {
+    source: path,
+    width: 800,
+    height: 600,
+    generatedAt: new Date().toISOString(),
+    variants: [{ path: `${path}.variants/400.webp`, width: 400, height: 300, format: 'webp', contentType: 'image/webp', size: 4 }]
+  }
+  await storage.put(`${tenantId}/${path}`, 'jpeg', { contentType: 'image/jpeg' })
+  await storage.put(`${tenantId}/${path}.variants/400.webp`, 'webp', { contentType: 'image/webp' })
+  await storage.put(`${tenantId}/${path}.variants/manifest.json`, JSON.stringify(manifest), { contentType: 'application/json' })
+}
+
+describe('isVariantPath', () => {
+  it('matches anything inside a variants folder', () => {
+    expect(isVariantPath('photo.jpg.variants')).toBe(true)
+    expect(isVariantPath('img/photo.jpg.variants/400.webp')).toBe(true)
+    expect(isVariantPath('img/photo.jpg')).toBe(false)
+    expect(isVariantPath('notes.variants.txt')).toBe(false)
+  })
+})
+
+describe('carryImageVariants', () => {
+  it('moves the variants folder and points the manifest at the new image', async () => {
+    await storeOptimizedImage('t1', 'img/photo.jpg')
+
+    await carryImageVariants('t1', 'img/photo.jpg', 'gallery/beach.jpg', 'move')
+
+    expect(await listAll(getStorage(), 't1/img/photo.jpg.variants/')).toEqual([])
+    const manifest = await getImageManifest('t1', 'gallery/beach.jpg')
+    expect(manifest?.source).toBe('gallery/beach.jpg')
+    expect(manifest?.variants.map(variant => variant.path)).toEqual(['gallery/beach.jpg.variants/400.webp'])
+    expect(await getStorage().readText('t1/gallery/beach.jpg.variants/400.webp')).toBe('webp')
+  })
+
+  it('keeps the original variants when copying', async () => {
+    await storeOptimizedImage('t2', 'photo.png')
+
+    await carryImageVariants('t2', 'photo.png', 'photo-1.png', 'copy')
+
+    expect((await getImageManifest('t2', 'photo.png'))?.source).toBe('photo.png')
+    expect((await getImageManifest('t2', 'photo-1.png'))?.source).toBe('photo-1.png')
+  })
+
+  it('does nothing for files that are not optimisable images', async () => {
+    await getStorage().put('t3/notes.txt.variants/manifest.json', '{}', { contentType: 'application/json' })
+
+    await carryImageVariants('t3', 'notes.txt', 'moved.txt', 'move')
+
+    expect(await getStorage().head('t3/notes.txt.variants/manifest.json')).not.toBeNull()
+  })
+})
+
+describe('rebaseImageManifests', () => {
+  it('rewrites manifests of images inside a moved folder', async () => {
+    const storage = getStorage()
+    await storeOptimizedImage('t4', 'old/photo.jpg')
+    const copied = []
+    for (const object of await listAll(storage, 't4/old/')) {
+      copied.push(await storage.copy(object.pathname, object.pathname.replace('t4/old/', 't4/new/')))
+    }
+
+    await rebaseImageManifests(copied, 'old', 'new')
+
+    const manifest = await getImageManifest('t4', 'new/photo.jpg')
+    expect(manifest?.source).toBe('new/photo.jpg')
+    expect(manifest?.variants[0].path).toBe('new/photo.jpg.variants/400.webp')
+  })
+})
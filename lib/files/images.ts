@@ -0,0 +1,274 @@
+import Vips from 'wasm-vips'
+import { getStorage, listAll, type StoredObject } from '@/lib/storage'
+import { onFilesWritten, onFilesRemoved } from './sync'
+import { relativeLink } from './links'
+import { variantsFolder, isOptimizableImage } from './image-paths'
+
+/**
+ * Responsive image variants
+ * An optimised image gets resized copies at a few standard widths, each as
+ * AVIF, WebP and a JPEG or PNG fallback. They are stored in a folder next to
+ * the original, {path}.variants/, together with a manifest.json describing
+ * them, so pages can reference them with <picture> and srcset.
+ * Encoding uses libvips compiled to WebAssembly, which runs on any CPU.
+ */
+
+export type VariantFormat = 'avif' | 'webp' | 'jpeg' | 'png'
+
+export interface ImageVariant {
+  path: string
+  width: number
+  height: number
+  format: VariantFormat
+  contentType: string
+  size: number
+}
+
+export interface ImageManifest {
+  source: string
+  width: number
+  height: number
+  generatedAt: string
+  variants: ImageVariant[]
+}
+
+/**
+ * Raised for files that are not images libvips can decode
+ */
+export class ImageProcessingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImageProcessingError'
+  }
+}
+
+export const RESPONSIVE_WIDTHS = [320, 640, 1024, 1600]
+
+// Originals wider than this are only ever served downsized
+const MAX_VARIANT_WIDTH = 2560
+
+const FORMATS: Record<VariantFormat, { extension: string; contentType: string; options: object }> = {
+  avif: { extension: 'avif', contentType: 'image/avif', options: { Q: 50, effort: 4 } },
+  webp: { extension: 'webp', contentType: 'image/webp', options: { Q: 80 } },
+  jpeg: { extension: 'jpg', contentType: 'image/jpeg', options: { Q: 82, interlace: true } },
+  png: { extension: 'png', contentType: 'image/png', options: { compression: 9 } }
+}
+
+let vipsPromise: ReturnType<typeof Vips> | null = null
+
+// The WASM module is large, so load it once per server instance and only when needed
+function getVips() {
+  if (!vipsPromise) {
+    vipsPromise = Vips({ dynamicLibraries: ['vips-heif.wasm'] })
+  }
+  return vipsPromise
+}
+
+function manifestPath(path: string): string {
+  return `${variantsFolder(path)}/manifest.json`
+}
+
+/**
+ * Widths to generate for an original of a given width, smallest first
+ */
+export function variantWidths(originalWidth: number): number[] {
+  const largest = Math.min(originalWidth, MAX_VARIANT_WIDTH)
+  const widths = RESPONSIVE_WIDTHS.filter(width => width < largest)
+  return [...widths, largest]
+}
+
+/**
+ * Generate and store the variants of an image that is already in storage
+ * Replaces any variants generated before
+ */
+export async function optimizeImage(
+  tenantId: string,
+  path: string,
+  updatedBy: string | null
+): Promise<ImageManifest> {
+  const storage = getStorage()
+  const file = await storage.read(`${tenantId}/${path}`)
+  if (!file) {
+    throw new ImageProcessingError(`Image not found: ${path}`)
+  }
+
+  const previous = await getImageManifest(tenantId, path)
+  const vips = await getVips()
+  const input = new Uint8Array(file.body)
+
+  let width: number
+  let height: number
+  let hasAlpha: boolean
+  try {
+    const original = vips.Image.newFromBuffer(input)
+    width = original.width
+    height = original.height
+    hasAlpha = original.hasAlpha()
+    original.delete()
+  } catch {
+    throw new ImageProcessingError(`Not a supported image: ${path}`)
+  }
+
+  const fallback: VariantFormat = hasAlpha ? 'png' : 'jpeg'
+  const variants: ImageVariant[] = []
+  const written: StoredObject[] = []
+
+  for (const targetWidth of variantWidths(width)) {
+    // thumbnailBuffer also applies EXIF orientation
+    const resized = vips.Image.thumbnailBuffer(input, targetWidth, { size: 'down' })
+
+    try {
+      for (const format of ['avif', 'webp', fallback] as VariantFormat[]) {
+        const { extension, contentType, options } = FORMATS[format]
+        const data = Buffer.from(resized.writeToBuffer(`.${extension}`, options))
+        const variantPath = `${variantsFolder(path)}/${resized.width}w.${extension}`
+
+        written.push(await storage.put(`${tenantId}/${variantPath}`, data, { contentType }))
+        variants.push({
+          path: variantPath,
+          width: resized.width,
+          height: resized.height,
+          format,
+          contentType,
+          size: data.length
+        })
+      }
+    } finally {
+      resized.delete()
+    }
+  }
+
+  const manifest: ImageManifest = {
+    source: path,
+    width,
+    height,
+    generatedAt: new Date().toISOString(),
+    variants
+  }
+
+  written.push(await storage.put(`${tenantId}/${manifestPath(path)}`, JSON.stringify(manifest, null, 2), {
+    contentType: 'application/json'
+  }))
+  await onFilesWritten(tenantId, written, updatedBy)
+
+  // Drop variants of an earlier run that this run didn't overwrite
+  const current = new Set(variants.map(variant => variant.path))
+  const stale = (previous?.variants || [])
+    .filter(variant => !current.has(variant.path))
+    .map(variant => `${tenantId}/${variant.path}`)
+  if (stale.length > 0) {
+    await storage.delete(stale)
+    await onFilesRemoved(tenantId, stale)
+  }
+
+  return manifest
+}
+
+/**
+ * Read the variant manifest of an image, or null if it was never optimised
+ */
+export async function getImageManifest(tenantId: string, path: string): Promise<ImageManifest | null> {
+  const raw = await getStorage().readText(`${tenantId}/${manifestPath(path)}`)
+  return raw ? JSON.parse(raw) as ImageManifest : null
+}
+
+// Path after `from` (an image or a folder) moved to `to`, including the image's variants folder
+function rebasePath(path: string, from: string, to: string): string {
+  if (path === from) return to
+  if (path.startsWith(`${from}/`)) return to + path.substring(from.length)
+  if (path.startsWith(`${variantsFolder(from)}/`)) return variantsFolder(to) + path.substring(variantsFolder(from).length)
+  return path
+}
+
+/**
+ * Point the variant manifests among objects copied from `from` to `to` at their new location
+ * Call after an image or a folder of images was moved, renamed or duplicated
+ */
+export async function rebaseImageManifests(
+  objects: StoredObject[],
+  from: string,
+  to: string
+): Promise<void> {
+  const storage = getStorage()
+  const manifests = objects.filter(object => object.pathname.endsWith('.variants/manifest.json'))
+
+  for (const object of manifests) {
+    const raw = await storage.readText(object.pathname)
+    if (!raw) continue
+
+    const manifest = JSON.parse(raw) as ImageManifest
+    manifest.source = rebasePath(manifest.source, from, to)
+    manifest.variants = manifest.variants.map(variant => ({ ...variant, path: rebasePath(variant.path, from, to) }))
+    await storage.put(object.pathname, JSON.stringify(manifest, null, 2), { contentType: 'application/json' })
+  }
+}
+
+/**
+ * Move or copy an image's variants along with the image itself
+ * Folder operations carry variants with everything else and only need rebaseImageManifests
+ */
+export async function carryImageVariants(
+  tenantId: string,
+  fromPath: string,
+  toPath: string,
+  mode: 'move' | 'copy'
+): Promise<void> {
+  if (!isOptimizableImage(fromPath)) return
+
+  const storage = getStorage()
+  const fromFolder = `${tenantId}/${variantsFolder(fromPath)}`
+  const toFolder = `${tenantId}/${variantsFolder(toPath)}`
+  const objects = await listAll(storage, `${fromFolder}/`)
+  if (objects.length === 0) return
+
+  const copied: StoredObject[] = []
+  for (const object of objects) {
+    copied.push(await storage.copy(object.pathname, toFolder + object.pathname.substring(fromFolder.length)))
+  }
+  await rebaseImageManifests(copied, fromPath, toPath)
+
+  if (mode === 'move') {
+    await storage.delete(objects.map(object => object.pathname))
+  }
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+}
+
+/**
+ * <picture> markup for an optimised image, with URLs relative to the page it goes into
+ */
+export function buildPictureMarkup(
+  manifest: ImageManifest,
+  options: { pagePath: string; alt: string; sizes?: string; className?: string }
+): string {
+  const url = (path: string) => encodeURI(relativeLink(options.pagePath, path))
+  const srcset = (format: VariantFormat) => manifest.variants
+    .filter(variant => variant.format === format)
+    .map(variant => `${url(variant.path)} ${variant.width}w`)
+    .join(', ')
+
+  const fallbackFormat: VariantFormat = manifest.variants.some(variant => variant.format === 'png') ? 'png' : 'jpeg'
+  const fallbacks = manifest.variants.filter(variant => variant.format === fallbackFormat)
+  const largest = fallbacks[fallbacks.length - 1]
+  const sizes = escapeAttribute(options.sizes || '100vw')
+
+  const img = [
+    `<img src="${url(largest.path)}"`,
+    `srcset="${srcset(fallbackFormat)}"`,
+    `sizes="${sizes}"`,
+    `width="${largest.width}" height="${largest.height}"`,
+    `alt="${escapeAttribute(options.alt)}"`,
+    options.className ? `class="${escapeAttribute(options.className)}"` : '',
+    'loading="lazy" decoding="async">'
+  ].filter(Boolean).join(' ')
+
+  return [
+    '<picture>',
+    `  <source type="image/avif" srcset="${srcset('avif')}" sizes="${sizes}">`,
+    `  <source type="image/webp" srcset="${srcset('webp')}" sizes="${sizes}">`,
+    `  ${img}`,
+    '</picture>'
+  ].join('\n')
+}
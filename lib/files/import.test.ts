@@ -0,0 +1,109 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { getStorage } from '@/lib/storage'
+import { createZip } from './zip'
+import { getPublishState } from './publish'
+import { EXPORT_MANIFEST_NAME } from './export'
+import { saveUploadPolicy } from './uploads'
+import { importZip, nextFreePath } from './import'
+
+// Index, search and sitemap upkeep need Redis and the tenant database
+vi.mock('./sync', () => ({ onFilesWritten: vi.fn(async () => new Map()) }))
+
+const storageDir = mkdtempSync(join(tmpdir(), 'import-test-'))
+
+beforeAll(() => {
+  process.env.STORAGE_DRIVER = 'local'
+  process.env.LOCAL_STORAGE_DIR = storageDir
+  delete process.env.REDIS_URL
+  delete process.env.KV_URL
+  delete process.env.KV_REST_API_URL
+})
+
+afterAll(() => {
+  rmSync(storageDir, { recursive: true, force: true })
+})
+
+function zipOf(files: Record<string, string>): Buffer {
+  return createZip(Object.entries(files).map(([path, content]) => ({ path, data: Buffer.from(content) })))
+}
+
+describe('nextFreePath', () => {
+  it('numbers the name before the extension', () => {
+    expect(nextFreePath('about.html', new Set())).toBe('about-1.html')
+    expect(nextFreePath('about.html', new Set(['about-1.html', 'about-2.html']))).toBe('about-3.html')
+  })
+
+  it('handles names without an extension and dotted folders', () => {
+    expect(nextFreePath('docs/README', new Set())).toBe('docs/README-1')
+    expect(nextFreePath('v1.2/notes', new Set())).toBe('v1.2/notes-1')
+  })
+})
+
+describe('importZip', () => {
+  it('skips hidden files, traversal and the export manifest', async () => {
+    const report = await importZip('tenant-skip', zipOf({
+      'index.html': 'home',
+      '../escape.html': 'nope',
+      '.env': 'secret',
+      '__MACOSX/index.html': 'resource fork',
+      [EXPORT_MANIFEST_NAME]: '{}'
+    }), { targetFolder: '', conflict: 'skip', importedBy: 'user-1' })
+
+    expect(report.created).toEqual(['index.html'])
+    expect(report.skipped.map(skipped => skipped.reason)).toEqual(
+      expect.arrayContaining(['Invalid path', 'Hidden file', 'Export manifest'])
+    )
+  })
+
+  it('applies the conflict policy to files that exist', async () => {
+    const storage = getStorage()
+    await storage.put('tenant-conflict/site/a.html', 'old a', {})
+    await storage.put('tenant-conflict/site/b.html', 'old b', {})
+    await storage.put('tenant-conflict/site/c.html', 'old c', {})
+    const archive = zipOf({ 'a.html': 'new a' })
+
+    const skipped = await importZip('tenant-conflict', archive, { targetFolder: 'site', conflict: 'skip', importedBy: null })
+    expect(skipped.skipped).toEqual([{ path: 'site/a.html', reason: 'Already exists' }])
+
+    const renamed = await importZip('tenant-conflict', archive, { targetFolder: 'site', conflict: 'rename', importedBy: null })
+    expect(renamed.renamed).toEqual([{ from: 'site/a.html', to: 'site/a-1.html' }])
+
+    const overwritten = await importZip('tenant-conflict', archive, { targetFolder: 'site', conflict: 'overwrite', importedBy: null })
+    expect(overwritten.overwritten).toEqual(['site/a.html'])
+    expect(await storage.readText('tenant-conflict/site/a.html')).toBe('new a')
+  })
+
+  it('imports new pages as drafts', async () => {
+    await importZip('tenant-drafts', zipOf({ 'new.html': 'new' }), { targetFolder: '', conflict: 'skip', importedBy: 'user-1' })
+
+    expect((await getPublishState('tenant-drafts', 'new.html')).status).toBe('draft')
+  })
+
+  it('skips files the upload policy does not allow', async () => {
+    await saveUploadPolicy('tenant-policy', { maxFileSize: 10, allowedTypes: ['text/html'] })
+
+    const report = await importZip('tenant-policy', zipOf({
+      'ok.html': 'small',
+      'big.html': 'far too long for the limit',
+      'run.exe': 'binary'
+    }), { targetFolder: '', conflict: 'skip', importedBy: null })
+
+    expect(report.created).toEqual(['ok.html'])
+    expect(report.skipped.map(skipped => skipped.path).sort()).toEqual(['big.html', 'run.exe'])
+    expect(await getStorage().head('tenant-policy/run.exe')).toBeNull()
+  })
+
+  it('treats existing image variants as taken', async () => {
+    await getStorage().put('tenant-variants/hero.jpg.variants/800.webp', 'old variant', {})
+
+    const report = await importZip('tenant-variants', zipOf({ 'hero.jpg.variants/800.webp': 'new variant' }), {
+      targetFolder: '', conflict: 'skip', importedBy: null
+    })
+
+    expect(report.skipped).toEqual([{ path: 'hero.jpg.variants/800.webp', reason: 'Already exists' }])
+    expect(await getStorage().readText('tenant-variants/hero.jpg.variants/800.webp')).toBe('old variant')
+  })
+})
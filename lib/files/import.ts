@@ -0,0 +1,158 @@
+import { getStorage, listAll, type StoredObject } from '@/lib/storage'
+import { listIndexedFiles } from '@/lib/kv/file-index'
+import { unsafePathReason } from './tenant-paths'
+import { getContentType } from './content-types'
+import { onFilesWritten } from './sync'
+import { recordNewPages } from './publish'
+import { getUploadPolicy, policyViolation } from './uploads'
+import { isVariantPath } from './image-paths'
+import { EXPORT_MANIFEST_NAME } from './export'
+import { readZip } from './zip'
+
+/**
+ * Zip import
+ * Unpacks an uploaded archive under a target folder. Files that already exist
+ * are skipped, overwritten or imported under a numbered name depending on the
+ * conflict policy. Entries go through the tenant's upload policy like single
+ * uploads, and the caller gets a report of what happened to each file.
+ */
+
+export type ConflictPolicy = 'skip' | 'overwrite' | 'rename'
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['skip', 'overwrite', 'rename']
+
+export interface ImportReport {
+  created: string[]
+  overwritten: string[]
+  renamed: { from: string; to: string }[]
+  skipped: { path: string; reason: string }[]
+}
+
+export const MAX_IMPORT_ENTRIES = 5000
+export const MAX_IMPORT_SIZE = 200 * 1024 * 1024 // Uncompressed bytes
+
+// Clean up an archive path, or explain why it can't be imported
+function normalizeEntryPath(path: string): { path: string } | { reason: string } {
+  const segments = path.replace(/\\/g, '/').split('/').filter(segment => segment !== '' && segment !== '.')
+
+  if (segments.length === 0 || segments.includes('..')) {
+    return { reason: 'Invalid path' }
+  }
+  if (segments[0] === '__MACOSX' || segments.some(segment => segment.startsWith('.'))) {
+    return { reason: 'Hidden file' }
+  }
+  if (segments.length === 1 && segments[0] === EXPORT_MANIFEST_NAME) {
+    return { reason: 'Export manifest' }
+  }
+
+  return { path: segments.join('/') }
+}
+
+/**
+ * about.html -> about-1.html, about-2.html, ... until a name not in `taken` is found
+ */
+export function nextFreePath(path: string, taken: Set<string>): string {
+  const slash = path.lastIndexOf('/')
+  const dot = path.lastIndexOf('.')
+  const hasExtension = dot > slash + 1
+  const base = hasExtension ? path.substring(0, dot) : path
+  const extension = hasExtension ? path.substring(dot) : ''
+
+  let counter = 1
+  while (taken.has(`${base}-${counter}${extension}`)) {
+    counter++
+  }
+  return `${base}-${counter}${extension}`
+}
+
+/**
+ * Paths that already exist in a tenant, for conflict checks
+ * Image variants are not in the file index, so they are listed from storage
+ * when the archive brings variants of its own (exports include them)
+ */
+async function existingPaths(tenantId: string, targetFolder: string, withVariants: boolean): Promise<Set<string>> {
+  const taken = new Set((await listIndexedFiles(tenantId)).map(entry => entry.path))
+
+  if (withVariants) {
+    const prefix = targetFolder ? `${tenantId}/${targetFolder}/` : `${tenantId}/`
+    for (const object of await listAll(getStorage(), prefix)) {
+      const path = object.pathname.substring(tenantId.length + 1)
+      if (isVariantPath(path)) {
+        taken.add(path)
+      }
+    }
+  }
+
+  return taken
+}
+
+/**
+ * Unpack a zip archive into a tenant folder ('' for the root)
+ */
+export async function importZip(
+  tenantId: string,
+  zip: Buffer,
+  options: { targetFolder: string; conflict: ConflictPolicy; importedBy: string | null }
+): Promise<ImportReport> {
+  const entries = readZip(zip, { maxEntries: MAX_IMPORT_ENTRIES, maxTotalSize: MAX_IMPORT_SIZE })
+  const storage = getStorage()
+  const policy = await getUploadPolicy(tenantId)
+
+  const report: ImportReport = { created: [], overwritten: [], renamed: [], skipped: [] }
+  const taken = await existingPaths(tenantId, options.targetFolder, entries.some(entry => isVariantPath(entry.path)))
+  const written: StoredObject[] = []
+
+  for (const entry of entries) {
+    const normalized = normalizeEntryPath(entry.path)
+    if ('reason' in normalized) {
+      report.skipped.push({ path: entry.path, reason: normalized.reason })
+      continue
+    }
+
+    const requestedPath = options.targetFolder
+      ? `${options.targetFolder}/${normalized.path}`
+      : normalized.path
+
+    const pathReason = unsafePathReason(requestedPath)
+    if (pathReason) {
+      report.skipped.push({ path: entry.path, reason: pathReason })
+      continue
+    }
+
+    const contentType = getContentType(requestedPath)
+    const policyReason = policyViolation(policy, entry.data.length, contentType)
+    if (policyReason) {
+      report.skipped.push({ path: entry.path, reason: policyReason })
+      continue
+    }
+
+    let path = requestedPath
+    const exists = taken.has(path)
+
+    if (exists && options.conflict === 'skip') {
+      report.skipped.push({ path, reason: 'Already exists' })
+      continue
+    }
+    if (exists && options.conflict === 'rename') {
+      path = nextFreePath(path, taken)
+    }
+
+    const saved = await storage.put(`${tenantId}/${path}`, entry.data, { contentType })
+    written.push(saved)
+
+    if (!exists) {
+      report.created.push(path)
+    } else if (path === requestedPath) {
+      report.overwritten.push(path)
+    } else {
+      report.renamed.push({ from: requestedPath, to: path })
+    }
+    taken.add(path)
+  }
+
+  // Imported pages start as drafts unless they replaced an existing page
+  await recordNewPages(tenantId, [...report.created, ...report.renamed.map(rename => rename.to)], options.importedBy)
+  await onFilesWritten(tenantId, written, options.importedBy)
+
+  return report
+}
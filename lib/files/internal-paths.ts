@@ -0,0 +1,19 @@
+/**
+ * Tenant-level folders the builder uses for its own bookkeeping
+ * They live next to user files in storage but are never shown or edited as pages
+ */
+export const VERSIONS_DIR = '.versions'
+export const TRASH_DIR = '.trash'
+export const PUBLISH_DIR = '.publish'
+export const SETTINGS_DIR = '.settings'
+export const AUDIT_DIR = '.audit'
+
+export const INTERNAL_DIRS: string[] = [VERSIONS_DIR, TRASH_DIR, PUBLISH_DIR, SETTINGS_DIR, AUDIT_DIR]
+
+/**
+ * Check whether a tenant-relative path points into an internal folder
+ */
+export function isInternalPath(relativePath: string): boolean {
+  const firstSegment = relativePath.replace(/^\/+/, '').split('/')[0]
+  return INTERNAL_DIRS.includes(firstSegment)
+}
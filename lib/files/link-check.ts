@@ -0,0 +1,126 @@
+import { getStorage, listAll } from '@/lib/storage'
+import { isInternalPath } from './internal-paths'
+import { findPageLinks, isExternalUrl, splitUrlSuffix, resolveRelativePath } from './links'
+
+/**
+ * Site-wide link checker
+ * Reads every HTML page of a tenant and resolves its <a href> and <img src>
+ * against the file tree, the same way the public site resolves requests.
+ * Links to pages that don't exist and images that are missing are reported
+ * per source page. External links are not fetched.
+ */
+
+export interface BrokenLink {
+  url: string // As written in the page
+  target: string | null // Tenant-relative path it resolved to, null when it climbs above the root
+  kind: 'page' | 'asset'
+  line: number
+}
+
+export interface LinkCheckReport {
+  checkedAt: string
+  folder: string
+  pagesChecked: number
+  linksChecked: number
+  pages: { path: string; broken: BrokenLink[] }[] // Only pages with broken links
+}
+
+// Skips dotfiles and dot folders anywhere in the path, e.g. folder notes and image variants
+function isHiddenPath(path: string): boolean {
+  return path.split('/').some(segment => segment.startsWith('.'))
+}
+
+// Mirrors resolveSitePath: folder index pages and extensionless .html fallbacks
+function targetExists(files: Set<string>, path: string): boolean {
+  if (path === '' || path.endsWith('/')) {
+    return files.has(`${path}index.html`)
+  }
+  return files.has(path)
+    || files.has(`${path}/index.html`)
+    || (!/\.[a-z0-9]+$/i.test(path) && files.has(`${path}.html`))
+}
+
+/**
+ * Resolve a link found in a page to a tenant-relative path
+ * Returns undefined for links that are not internal, null for ones above the root
+ */
+function resolveLink(url: string, fromPage: string, bases: string[]): string | null | undefined {
+  const base = bases.find(candidate => url.startsWith(candidate))
+  if (base) {
+    return decodePath(splitUrlSuffix(url.substring(base.length)).path)
+  }
+  if (isExternalUrl(url)) {
+    return undefined
+  }
+
+  const { path } = splitUrlSuffix(url)
+  const decoded = decodePath(path)
+  return decoded === undefined ? undefined : resolveRelativePath(fromPage, decoded)
+}
+
+function decodePath(path: string): string | undefined {
+  try {
+    return decodeURI(path)
+  } catch {
+    return undefined // Malformed escapes can't be matched to a file either way
+  }
+}
+
+/**
+ * Check the pages of a folder ('' for the whole site)
+ * Links may point anywhere in the site; only the source pages are limited to the folder.
+ * siteBases are the absolute and root-relative URL prefixes the site is served
+ * under; links starting with one of them or with "/" resolve from the site root.
+ */
+export async function checkLinks(
+  tenantId: string,
+  folder: string,
+  siteBases: string[]
+): Promise<LinkCheckReport> {
+  const storage = getStorage()
+  const objects = (await listAll(storage, `${tenantId}/`)).filter(object =>
+    !isInternalPath(object.pathname.substring(tenantId.length + 1))
+  )
+  const files = new Set(objects.map(object => object.pathname.substring(tenantId.length + 1)))
+
+  // Longest first, so "/{slug}/" wins over "/"
+  const bases = [...siteBases, '/'].sort((a, b) => b.length - a.length)
+  const folderPrefix = folder ? `${folder}/` : ''
+
+  const pagePaths = Array.from(files)
+    .filter(path => /\.html?$/i.test(path) && !isHiddenPath(path) && path.startsWith(folderPrefix))
+    .sort()
+
+  const report: LinkCheckReport = {
+    checkedAt: new Date().toISOString(),
+    folder,
+    pagesChecked: pagePaths.length,
+    linksChecked: 0,
+    pages: []
+  }
+
+  for (const pagePath of pagePaths) {
+    const html = await storage.readText(`${tenantId}/${pagePath}`)
+    if (html === null) continue
+
+    const broken: BrokenLink[] = []
+    for (const link of findPageLinks(html)) {
+      // Protocol-relative URLs look root-relative but point at another host
+      if (link.url.startsWith('//')) continue
+
+      const target = resolveLink(link.url, pagePath, bases)
+      if (target === undefined) continue
+
+      report.linksChecked++
+      if (target === null || !targetExists(files, target)) {
+        broken.push({ url: link.url, target, kind: link.tag === 'img' ? 'asset' : 'page', line: link.line })
+      }
+    }
+
+    if (broken.length > 0) {
+      report.pages.push({ path: pagePath, broken })
+    }
+  }
+
+  return report
+}
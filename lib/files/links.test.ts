@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import {
+  linkSourceKind,
+  rewriteLinks,
+  findPageLinks,
+  isExternalUrl,
+  splitUrlSuffix,
+  resolveRelativePath,
+  relativeLink
+} from './links'
+
+describe('linkSourceKind', () => {
+  it('recognises pages and stylesheets only', () => {
+    expect(linkSourceKind('index.HTML')).toBe('html')
+    expect(linkSourceKind('old/page.htm')).toBe('html')
+    expect(linkSourceKind('css/site.css')).toBe('css')
+    expect(linkSourceKind('app.js')).toBeNull()
+  })
+})
+
+describe('rewriteLinks', () => {
+  const upper = (url: string) => url.startsWith('keep') ? null : url.toUpperCase()
+
+  it('rewrites href, src and url() in HTML, keeping the quotes', () => {
+    const html = `<a href="a.html">A</a><img src='b.png'><div style="background: url(c.png)"></div>`
+    expect(rewriteLinks(html, 'html', upper)).toBe(
+      `<a href="A.HTML">A</a><img src='B.PNG'><div style="background: url(C.PNG)"></div>`
+    )
+  })
+
+  it('leaves links alone when the rewriter returns null', () => {
+    const html = '<a href="keep.html">x</a>'
+    expect(rewriteLinks(html, 'html', upper)).toBe(html)
+  })
+
+  it('only rewrites url() in stylesheets', () => {
+    const css = `body { background: url("bg.png") } /* href="x" */`
+    expect(rewriteLinks(css, 'css', upper)).toBe(`body { background: url("BG.PNG") } /* href="x" */`)
+  })
+})
+
+describe('findPageLinks', () => {
+  it('finds anchors and images with their line numbers', () => {
+    const html = '<p>\n<a class="x" href="about.html">About</a>\n<img alt="" src=logo.png>\n<script src="app.js"></script>'
+    expect(findPageLinks(html)).toEqual([
+      { tag: 'a', url: 'about.html', line: 2 },
+      { tag: 'img', url: 'logo.png', line: 3 }
+    ])
+  })
+
+  it('ignores anchors without an href', () => {
+    expect(findPageLinks('<a name="top"></a><a href=" spaced.html ">x</a>')).toEqual([
+      { tag: 'a', url: 'spaced.html', line: 1 }
+    ])
+  })
+})
+
+describe('isExternalUrl', () => {
+  it('treats other schemes, protocol-relative URLs and fragments as external', () => {
+    expect(isExternalUrl('https://example.com')).toBe(true)
+    expect(isExternalUrl('mailto:a@b.c')).toBe(true)
+    expect(isExternalUrl('//cdn.example.com/x.js')).toBe(true)
+    expect(isExternalUrl('#top')).toBe(true)
+    expect(isExternalUrl('')).toBe(true)
+    expect(isExternalUrl('about.html')).toBe(false)
+    expect(isExternalUrl('/about.html')).toBe(false)
+  })
+})
+
+describe('splitUrlSuffix', () => {
+  it('splits at the first ? or #', () => {
+    expect(splitUrlSuffix('a.html?x=1#y')).toEqual({ path: 'a.html', suffix: '?x=1#y' })
+    expect(splitUrlSuffix('a.html#y')).toEqual({ path: 'a.html', suffix: '#y' })
+    expect(splitUrlSuffix('a.html')).toEqual({ path: 'a.html', suffix: '' })
+  })
+})
+
+describe('resolveRelativePath', () => {
+  it('resolves against the folder of the linking file', () => {
+    expect(resolveRelativePath('blog/post.html', 'img/a.png')).toBe('blog/img/a.png')
+    expect(resolveRelativePath('blog/post.html', '../index.html')).toBe('index.html')
+    expect(resolveRelativePath('index.html', './about.html')).toBe('about.html')
+  })
+
+  it('returns null when the link climbs above the root', () => {
+    expect(resolveRelativePath('index.html', '../secret.html')).toBeNull()
+    expect(resolveRelativePath('a/b.html', '../../c.html')).toBeNull()
+  })
+})
+
+describe('relativeLink', () => {
+  it('walks up to the common folder and down to the target', () => {
+    expect(relativeLink('blog/post.html', 'blog/other.html')).toBe('other.html')
+    expect(relativeLink('blog/post.html', 'img/a.png')).toBe('../img/a.png')
+    expect(relativeLink('index.html', 'blog/post.html')).toBe('blog/post.html')
+  })
+
+  it('keeps a trailing slash and links to the own folder as ./', () => {
+    expect(relativeLink('index.html', 'blog/')).toBe('blog/')
+    expect(relativeLink('blog/post.html', 'blog/')).toBe('./')
+  })
+
+  it('round-trips with resolveRelativePath', () => {
+    const link = relativeLink('a/b/c.html', 'a/d/e.html')
+    expect(resolveRelativePath('a/b/c.html', link)).toBe('a/d/e.html')
+  })
+})
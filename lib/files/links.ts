@@ -0,0 +1,129 @@
+/**
+ * Finding and rewriting links inside pages and stylesheets
+ * HTML files have their href and src attributes rewritten, plus any CSS url()
+ * in style blocks and attributes; CSS files have their url() references rewritten
+ */
+
+export type LinkSourceKind = 'html' | 'css'
+
+/** Return a replacement URL, or null to leave the link unchanged */
+export type LinkRewriter = (url: string) => string | null
+
+const ATTRIBUTE_PATTERN = /(\s(?:href|src)\s*=\s*)(?:"([^"]*)"|'([^']*)')/gi
+const CSS_URL_PATTERN = /url\(\s*(["']?)([^"')]+)\1\s*\)/gi
+
+/**
+ * Which link syntax a file uses, or null for files that have no links to rewrite
+ */
+export function linkSourceKind(path: string): LinkSourceKind | null {
+  const lower = path.toLowerCase()
+  if (lower.endsWith('.html') || lower.endsWith('.htm')) return 'html'
+  if (lower.endsWith('.css')) return 'css'
+  return null
+}
+
+/**
+ * Apply a rewriter to every link in a file's content
+ */
+export function rewriteLinks(content: string, kind: LinkSourceKind, rewrite: LinkRewriter): string {
+  const withCss = content.replace(CSS_URL_PATTERN, (match, quote: string, url: string) => {
+    const replacement = rewrite(url.trim())
+    return replacement === null ? match : `url(${quote}${replacement}${quote})`
+  })
+
+  if (kind === 'css') {
+    return withCss
+  }
+
+  return withCss.replace(ATTRIBUTE_PATTERN, (match, prefix: string, doubleQuoted?: string, singleQuoted?: string) => {
+    const url = doubleQuoted ?? singleQuoted ?? ''
+    const replacement = rewrite(url.trim())
+    if (replacement === null) return match
+    return doubleQuoted !== undefined ? `${prefix}"${replacement}"` : `${prefix}'${replacement}'`
+  })
+}
+
+export interface PageLink {
+  tag: 'a' | 'img'
+  url: string
+  line: number
+}
+
+const TAG_PATTERN = /<(a|img)\b[^>]*>/gi
+const TAG_ATTRIBUTE_PATTERN = /\s(href|src)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi
+
+/**
+ * Every <a href> and <img src> of a page, with the line it is on
+ */
+export function findPageLinks(html: string): PageLink[] {
+  const links: PageLink[] = []
+
+  for (const tagMatch of html.matchAll(TAG_PATTERN)) {
+    const tag = tagMatch[1].toLowerCase() as PageLink['tag']
+    const wanted = tag === 'a' ? 'href' : 'src'
+
+    for (const attribute of tagMatch[0].matchAll(TAG_ATTRIBUTE_PATTERN)) {
+      if (attribute[1].toLowerCase() !== wanted) continue
+      links.push({
+        tag,
+        url: (attribute[2] ?? attribute[3] ?? attribute[4]).trim(),
+        line: html.substring(0, tagMatch.index).split('\n').length
+      })
+      break
+    }
+  }
+
+  return links
+}
+
+/**
+ * Links that point at another site or are not navigations at all
+ */
+export function isExternalUrl(url: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(url) || url.startsWith('//') || url.startsWith('#') || url === ''
+}
+
+/**
+ * Split a URL into its path and its ?query#hash suffix
+ */
+export function splitUrlSuffix(url: string): { path: string; suffix: string } {
+  const index = url.search(/[?#]/)
+  return index === -1
+    ? { path: url, suffix: '' }
+    : { path: url.substring(0, index), suffix: url.substring(index) }
+}
+
+/**
+ * Resolve a relative link against the file it appears in
+ * Returns a tenant-relative path, or null when it climbs above the root
+ */
+export function resolveRelativePath(fromFile: string, link: string): string | null {
+  const parts = fromFile.split('/').slice(0, -1)
+
+  for (const segment of link.split('/')) {
+    if (segment === '..') {
+      if (parts.length === 0) return null
+      parts.pop()
+    } else if (segment !== '.') {
+      parts.push(segment)
+    }
+  }
+
+  return parts.join('/')
+}
+
+/**
+ * Relative link from one file to a target path; a trailing slash on the target is kept
+ */
+export function relativeLink(fromFile: string, toPath: string): string {
+  const from = fromFile.split('/').slice(0, -1)
+  const to = toPath.split('/')
+
+  let common = 0
+  while (common < from.length && common < to.length - 1 && from[common] === to[common]) {
+    common++
+  }
+
+  const link = [...Array(from.length - common).fill('..'), ...to.slice(common)].join('/')
+  return link === '' ? './' : link
+}
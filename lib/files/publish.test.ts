@@ -0,0 +1,135 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import {
+  resolvePublishRecord,
+  isLive,
+  isPagePath,
+  recordNewPages,
+  setPublishState,
+  getPublishState,
+  getTenantsWithSchedules,
+  PublishValidationError,
+  type PublishRecord
+} from './publish'
+
+const storageDir = mkdtempSync(join(tmpdir(), 'publish-test-'))
+
+beforeAll(() => {
+  process.env.STORAGE_DRIVER = 'local'
+  process.env.LOCAL_STORAGE_DIR = storageDir
+  delete process.env.REDIS_URL
+  delete process.env.KV_URL
+  delete process.env.KV_REST_API_URL
+})
+
+afterAll(() => {
+  rmSync(storageDir, { recursive: true, force: true })
+})
+
+function record(overrides: Partial<PublishRecord>): PublishRecord {
+  return {
+    path: 'page.html',
+    status: 'published',
+    publishedAt: null,
+    publishAt: null,
+    unpublishAt: null,
+    updatedAt: new Date(0).toISOString(),
+    updatedBy: null,
+    ...overrides
+  }
+}
+
+describe('resolvePublishRecord', () => {
+  it('returns the explicit record of a page', () => {
+    const draft = record({ path: 'about.html', status: 'draft' })
+    expect(resolvePublishRecord({ 'about.html': draft }, 'about.html')).toBe(draft)
+  })
+
+  it('treats pages without a record as published', () => {
+    expect(resolvePublishRecord({}, 'about.html').status).toBe('published')
+    expect(resolvePublishRecord({}, 'images/logo.png').status).toBe('published')
+  })
+
+  it('keeps pages under an unpublished folder as drafts', () => {
+    expect(resolvePublishRecord({}, 'unpublished/about.html').status).toBe('draft')
+    expect(resolvePublishRecord({}, 'blog/unpublished/post.html').status).toBe('draft')
+  })
+})
+
+describe('isLive', () => {
+  const now = new Date('2026-06-01T12:00:00Z')
+
+  it('follows the status', () => {
+    expect(isLive(record({ status: 'published' }), now)).toBe(true)
+    expect(isLive(record({ status: 'draft' }), now)).toBe(false)
+  })
+
+  it('honours schedules before the cron job applies them', () => {
+    expect(isLive(record({ status: 'scheduled', publishAt: '2026-06-01T11:00:00Z' }), now)).toBe(true)
+    expect(isLive(record({ status: 'scheduled', publishAt: '2026-06-01T13:00:00Z' }), now)).toBe(false)
+    expect(isLive(record({ status: 'published', unpublishAt: '2026-06-01T11:00:00Z' }), now)).toBe(false)
+  })
+
+  it('never publishes pages under an unpublished folder', () => {
+    expect(isLive(record({ path: 'unpublished/page.html' }), now)).toBe(false)
+  })
+})
+
+describe('isPagePath', () => {
+  it('only counts HTML files as pages', () => {
+    expect(isPagePath('about.html')).toBe(true)
+    expect(isPagePath('blog/POST.HTM')).toBe(true)
+    expect(isPagePath('style.css')).toBe(false)
+    expect(isPagePath('images/logo.png')).toBe(false)
+  })
+})
+
+describe('recordNewPages', () => {
+  it('starts new pages as drafts and leaves assets alone', async () => {
+    await recordNewPages('tenant-new', ['new.html', 'logo.png'], 'user-1')
+
+    expect(await getPublishState('tenant-new', 'new.html')).toMatchObject({ status: 'draft', updatedBy: 'user-1' })
+    expect((await getPublishState('tenant-new', 'logo.png')).status).toBe('published')
+  })
+
+  it('keeps the state of pages that already have one', async () => {
+    await setPublishState('tenant-kept', 'live.html', { status: 'published' }, 'user-1')
+    await recordNewPages('tenant-kept', ['live.html'], 'user-2')
+
+    expect((await getPublishState('tenant-kept', 'live.html')).status).toBe('published')
+  })
+
+  it('keeps every page when several are created at once', async () => {
+    const paths = Array.from({ length: 5 }, (_, index) => `page-${index}.html`)
+    await Promise.all(paths.map(path => recordNewPages('tenant-race', [path], 'user-1')))
+
+    for (const path of paths) {
+      expect((await getPublishState('tenant-race', path)).status).toBe('draft')
+    }
+  })
+})
+
+describe('setPublishState', () => {
+  it('rejects schedules that are not in the future', async () => {
+    await expect(setPublishState('tenant-1', 'page.html', { status: 'scheduled' }, null))
+      .rejects.toBeInstanceOf(PublishValidationError)
+    await expect(setPublishState('tenant-1', 'page.html', { status: 'scheduled', publishAt: '2000-01-01T00:00:00Z' }, null))
+      .rejects.toBeInstanceOf(PublishValidationError)
+  })
+
+  it('refuses to publish pages under an unpublished folder', async () => {
+    await expect(setPublishState('tenant-1', 'unpublished/page.html', { status: 'published' }, null))
+      .rejects.toBeInstanceOf(PublishValidationError)
+  })
+})
+
+describe('getTenantsWithSchedules', () => {
+  it('finds tenants with pending schedules without Redis', async () => {
+    const publishAt = new Date(Date.now() + 3600 * 1000).toISOString()
+    await setPublishState('tenant-scheduled', 'later.html', { status: 'scheduled', publishAt }, null)
+
+    expect(await getTenantsWithSchedules()).toEqual(['tenant-scheduled'])
+  })
+})
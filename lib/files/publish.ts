@@ -0,0 +1,374 @@
+import { getStorage, listFolder } from '@/lib/storage'
+import { getRedisClient } from '@/lib/kv/redis-client'
+import { withLock } from '@/lib/kv/lock'
+import { logger } from '@/lib/utils/logger'
+import { PUBLISH_DIR } from './internal-paths'
+
+/**
+ * Per-page publish state
+ * Each tenant keeps a manifest at {tenantId}/.publish/index.json with one record
+ * per page that has been published, unpublished or scheduled. New pages get a
+ * draft record when they are created; pages without a record existed before
+ * publish states did and keep the old folder convention: live unless under an
+ * unpublished/ folder. Assets have no publish state and are live the same way.
+ * Tenants with pending schedules are listed in a Redis set for the cron job.
+ * Manifest updates for a tenant are serialised with a lock.
+ */
+
+export type PublishStatus = 'draft' | 'published' | 'scheduled'
+
+export interface PublishRecord {
+  path: string
+  status: PublishStatus
+  publishedAt: string | null
+  publishAt: string | null // Scheduled publish time
+  unpublishAt: string | null // Scheduled unpublish time
+  updatedAt: string
+  updatedBy: string | null
+}
+
+interface PublishManifest {
+  pages: Record<string, PublishRecord>
+}
+
+export interface PublishChange {
+  status: PublishStatus
+  publishAt?: string | null
+  unpublishAt?: string | null
+}
+
+/**
+ * Raised for publish requests that make no sense, e.g. a schedule in the past
+ */
+export class PublishValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PublishValidationError'
+  }
+}
+
+const SCHEDULE_REGISTRY_KEY = 'publish:scheduled-tenants'
+
+const PAGE_EXTENSIONS = ['.html', '.htm']
+
+function manifestPath(tenantId: string): string {
+  return `${tenantId}/${PUBLISH_DIR}/index.json`
+}
+
+async function readManifest(tenantId: string): Promise<PublishManifest> {
+  const raw = await getStorage().readText(manifestPath(tenantId))
+  return raw ? JSON.parse(raw) as PublishManifest : { pages: {} }
+}
+
+async function writeManifest(tenantId: string, manifest: PublishManifest): Promise<void> {
+  await getStorage().put(manifestPath(tenantId), JSON.stringify(manifest), {
+    contentType: 'application/json'
+  })
+  await updateScheduleRegistry(tenantId, hasPendingSchedule(manifest))
+}
+
+/**
+ * Run a manifest update while no other update of the tenant's publish states runs
+ */
+function withManifestLock<T>(tenantId: string, update: () => Promise<T>): Promise<T> {
+  return withLock(`publish-lock:${tenantId}`, update)
+}
+
+function hasPendingSchedule(manifest: PublishManifest): boolean {
+  return Object.values(manifest.pages).some(record =>
+    record.status === 'scheduled' || (record.status === 'published' && record.unpublishAt)
+  )
+}
+
+async function getClient() {
+  try {
+    return await getRedisClient()
+  } catch {
+    return null
+  }
+}
+
+async function updateScheduleRegistry(tenantId: string, pending: boolean): Promise<void> {
+  const client = await getClient()
+  if (!client) return
+
+  if (pending) {
+    await client.sAdd(SCHEDULE_REGISTRY_KEY, tenantId)
+  } else {
+    await client.sRem(SCHEDULE_REGISTRY_KEY, tenantId)
+  }
+}
+
+/**
+ * Without Redis, find tenants with pending schedules by reading every manifest
+ */
+async function scanForSchedules(): Promise<string[]> {
+  const { folders } = await listFolder(getStorage(), '')
+  const tenants: string[] = []
+
+  for (const folder of folders) {
+    const tenantId = folder.replace(/\/$/, '')
+    if (tenantId !== PUBLISH_DIR && hasPendingSchedule(await readManifest(tenantId))) {
+      tenants.push(tenantId)
+    }
+  }
+
+  return tenants
+}
+
+/**
+ * Whether a path is a page with a publish state of its own, rather than an asset
+ */
+export function isPagePath(path: string): boolean {
+  const lower = path.toLowerCase()
+  return PAGE_EXTENSIONS.some(extension => lower.endsWith(extension))
+}
+
+function isUnderUnpublishedFolder(path: string): boolean {
+  return path.split('/').includes('unpublished')
+}
+
+/**
+ * Publish state of a page, falling back to the folder convention when it has no record
+ * Only pages that predate publish states and assets have no record
+ */
+export function resolvePublishRecord(
+  records: Record<string, PublishRecord>,
+  path: string
+): PublishRecord {
+  return records[path] || {
+    path,
+    status: isUnderUnpublishedFolder(path) ? 'draft' : 'published',
+    publishedAt: null,
+    publishAt: null,
+    unpublishAt: null,
+    updatedAt: new Date(0).toISOString(),
+    updatedBy: null
+  }
+}
+
+/**
+ * Whether a page is publicly visible at a moment in time
+ * Schedules are honoured here as well so pages go live on time even before the cron job runs
+ */
+export function isLive(record: PublishRecord, now: Date = new Date()): boolean {
+  if (isUnderUnpublishedFolder(record.path)) {
+    return false
+  }
+
+  const time = now.getTime()
+  if (record.unpublishAt && new Date(record.unpublishAt).getTime() <= time) {
+    return false
+  }
+  if (record.status === 'scheduled') {
+    return !!record.publishAt && new Date(record.publishAt).getTime() <= time
+  }
+  return record.status === 'published'
+}
+
+/**
+ * Every explicit publish record for a tenant, keyed by path
+ */
+export async function getPublishRecords(tenantId: string): Promise<Record<string, PublishRecord>> {
+  return (await readManifest(tenantId)).pages
+}
+
+/**
+ * Start pages that were just created as drafts
+ * Pass only paths that did not exist before; pages that already have a record keep it
+ */
+export async function recordNewPages(
+  tenantId: string,
+  paths: string[],
+  createdBy: string | null
+): Promise<void> {
+  const pages = paths.filter(isPagePath)
+  if (pages.length === 0) return
+
+  await withManifestLock(tenantId, async () => {
+    const manifest = await readManifest(tenantId)
+    const now = new Date().toISOString()
+    let changed = false
+
+    for (const path of pages) {
+      if (manifest.pages[path]) continue
+      manifest.pages[path] = {
+        path,
+        status: 'draft',
+        publishedAt: null,
+        publishAt: null,
+        unpublishAt: null,
+        updatedAt: now,
+        updatedBy: createdBy
+      }
+      changed = true
+    }
+
+    if (changed) {
+      await writeManifest(tenantId, manifest)
+    }
+  })
+}
+
+export async function getPublishState(tenantId: string, path: string): Promise<PublishRecord> {
+  return resolvePublishRecord(await getPublishRecords(tenantId), path)
+}
+
+/**
+ * Publish, unpublish or schedule a page
+ */
+export async function setPublishState(
+  tenantId: string,
+  path: string,
+  change: PublishChange,
+  updatedBy: string | null
+): Promise<PublishRecord> {
+  const now = new Date()
+  const publishAt = parseTime(change.publishAt, 'publishAt')
+  const unpublishAt = parseTime(change.unpublishAt, 'unpublishAt')
+
+  if (change.status === 'scheduled') {
+    if (!publishAt) {
+      throw new PublishValidationError('publishAt is required to schedule a page')
+    }
+    if (publishAt <= now) {
+      throw new PublishValidationError('publishAt must be in the future')
+    }
+  }
+  if (unpublishAt && unpublishAt <= (publishAt && change.status === 'scheduled' ? publishAt : now)) {
+    throw new PublishValidationError('unpublishAt must be after the page goes live')
+  }
+  if (isUnderUnpublishedFolder(path) && change.status !== 'draft') {
+    throw new PublishValidationError('Pages in an unpublished folder cannot be published')
+  }
+
+  return withManifestLock(tenantId, async () => {
+    const manifest = await readManifest(tenantId)
+    const previous = manifest.pages[path]
+
+    const record: PublishRecord = {
+      path,
+      status: change.status,
+      publishedAt: change.status === 'published'
+        ? (previous?.status === 'published' && previous.publishedAt) || now.toISOString()
+        : previous?.publishedAt || null,
+      publishAt: change.status === 'scheduled' ? publishAt!.toISOString() : null,
+      unpublishAt: change.status === 'draft' ? null : unpublishAt?.toISOString() || null,
+      updatedAt: now.toISOString(),
+      updatedBy
+    }
+
+    manifest.pages[path] = record
+    await writeManifest(tenantId, manifest)
+
+    return record
+  })
+}
+
+function parseTime(value: string | null | undefined, field: string): Date | null {
+  if (!value) return null
+  const time = new Date(value)
+  if (isNaN(time.getTime())) {
+    throw new PublishValidationError(`${field} is not a valid date`)
+  }
+  return time
+}
+
+/**
+ * Carry publish records along when pages move; folder moves carry everything below them
+ */
+export async function movePublishStates(
+  tenantId: string,
+  fromPath: string,
+  toPath: string
+): Promise<void> {
+  await withManifestLock(tenantId, async () => {
+    const manifest = await readManifest(tenantId)
+    let changed = false
+
+    for (const [path, record] of Object.entries(manifest.pages)) {
+      let newPath: string | null = null
+      if (path === fromPath) {
+        newPath = toPath
+      } else if (path.startsWith(`${fromPath}/`)) {
+        newPath = toPath + path.substring(fromPath.length)
+      }
+
+      if (newPath) {
+        delete manifest.pages[path]
+        manifest.pages[newPath] = { ...record, path: newPath }
+        changed = true
+      }
+    }
+
+    if (changed) {
+      await writeManifest(tenantId, manifest)
+    }
+  })
+}
+
+/**
+ * Drop publish records of deleted pages
+ */
+export async function removePublishStates(tenantId: string, paths: string[]): Promise<void> {
+  await withManifestLock(tenantId, async () => {
+    const manifest = await readManifest(tenantId)
+    const removed = paths.filter(path => manifest.pages[path])
+
+    if (removed.length === 0) return
+
+    removed.forEach(path => delete manifest.pages[path])
+    await writeManifest(tenantId, manifest)
+  })
+}
+
+/**
+ * Apply due schedules for one tenant
+ * Scheduled pages whose publishAt has passed become published; published pages
+ * whose unpublishAt has passed become drafts. Returns the records that changed.
+ */
+export async function processDueSchedules(tenantId: string, now: Date = new Date()): Promise<PublishRecord[]> {
+  return withManifestLock(tenantId, async () => {
+    const manifest = await readManifest(tenantId)
+    const changed: PublishRecord[] = []
+
+    for (const record of Object.values(manifest.pages)) {
+      const publishDue = record.status === 'scheduled' && record.publishAt && new Date(record.publishAt) <= now
+      const unpublishDue = record.unpublishAt && new Date(record.unpublishAt) <= now
+
+      if (unpublishDue) {
+        Object.assign(record, { status: 'draft', publishAt: null, unpublishAt: null, updatedAt: now.toISOString() })
+        changed.push(record)
+      } else if (publishDue) {
+        Object.assign(record, {
+          status: 'published',
+          publishedAt: record.publishAt,
+          publishAt: null,
+          updatedAt: now.toISOString()
+        })
+        changed.push(record)
+      }
+    }
+
+    if (changed.length > 0) {
+      await writeManifest(tenantId, manifest)
+    } else if (!hasPendingSchedule(manifest)) {
+      await updateScheduleRegistry(tenantId, false)
+    }
+
+    return changed
+  })
+}
+
+/**
+ * Tenants that currently have schedules waiting to be applied
+ */
+export async function getTenantsWithSchedules(): Promise<string[]> {
+  const client = await getClient()
+  if (!client) {
+    logger.warn('No Redis for the schedule registry, scanning every tenant')
+    return scanForSchedules()
+  }
+
+  return client.sMembers(SCHEDULE_REGISTRY_KEY)
+}
@@ -0,0 +1,106 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { getStorage } from '@/lib/storage'
+import { updateReferences } from './references'
+import { folderAccessFromGrants } from './folder-access'
+
+// Index, search and revision upkeep need Redis
+vi.mock('./sync', () => ({ onFilesWritten: vi.fn(async () => new Map()) }))
+
+const storageDir = mkdtempSync(join(tmpdir(), 'references-test-'))
+
+beforeAll(() => {
+  process.env.STORAGE_DRIVER = 'local'
+  process.env.LOCAL_STORAGE_DIR = storageDir
+})
+
+afterAll(() => {
+  rmSync(storageDir, { recursive: true, force: true })
+})
+
+async function store(tenantId: string, files: Record<string, string>) {
+  for (const [path, content] of Object.entries(files)) {
+    await getStorage().put(`${tenantId}/${path}`, content, { contentType: path.endsWith('.css') ? 'text/css' : 'text/html' })
+  }
+}
+
+const read = (tenantId: string, path: string) => getStorage().readText(`${tenantId}/${path}`)
+
+describe('updateReferences', () => {
+  it('points relative, root-relative and site-absolute links at a moved page', async () => {
+    await store('t1', {
+      'index.html': '<a href="about.html#team">A</a><a href="/about">B</a><a href="https://example.com/about.html">C</a>',
+      'blog/post.html': '<a href="../about.html?x=1">About</a><a href="https://other.com/about.html">Elsewhere</a>',
+      // The move has already happened when references are updated
+      'company/about.html': '<p>About</p>'
+    })
+
+    const updates = await updateReferences('t1', { from: 'about.html', to: 'company/about.html' }, ['https://example.com/'], null)
+
+    expect(updates).toEqual(expect.arrayContaining([
+      { path: 'index.html', links: 3 },
+      { path: 'blog/post.html', links: 1 }
+    ]))
+    expect(await read('t1', 'index.html')).toBe(
+      '<a href="company/about.html#team">A</a><a href="/company/about">B</a><a href="https://example.com/company/about.html">C</a>'
+    )
+    expect(await read('t1', 'blog/post.html')).toBe(
+      '<a href="../company/about.html?x=1">About</a><a href="https://other.com/about.html">Elsewhere</a>'
+    )
+  })
+
+  it('fixes relative links inside a moved file but not links between files that moved together', async () => {
+    await store('t2', {
+      'style.css': 'body {}',
+      // Written against its old place, guide/index.html
+      'docs/guide/index.html': '<link href="../style.css"><a href="part2.html">Next</a>',
+      'docs/guide/part2.html': '<p>2</p>'
+    })
+
+    const updates = await updateReferences('t2', { from: 'guide', to: 'docs/guide' }, [], null)
+
+    expect(updates).toEqual([{ path: 'docs/guide/index.html', links: 1 }])
+    expect(await read('t2', 'docs/guide/index.html')).toBe('<link href="../../style.css"><a href="part2.html">Next</a>')
+  })
+
+  it('rewrites url() in stylesheets and leaves untouched files alone', async () => {
+    await store('t3', {
+      'css/site.css': 'body { background: url("../img/bg.png") }',
+      'index.html': '<p>No links</p>',
+      'assets/bg.png': 'png'
+    })
+
+    const updates = await updateReferences('t3', { from: 'img/bg.png', to: 'assets/bg.png' }, [], null)
+
+    expect(updates).toEqual([{ path: 'css/site.css', links: 1 }])
+    expect(await read('t3', 'css/site.css')).toBe('body { background: url("../assets/bg.png") }')
+  })
+
+  it('leaves files outside the user\'s write grants alone', async () => {
+    await store('t5', {
+      'clients/acme/index.html': '<a href="../../about.html">About</a>',
+      'index.html': '<a href="about.html">About</a>',
+      'company/about.html': '<p>About</p>'
+    })
+    const access = folderAccessFromGrants([
+      { id: 'g1', user: 'ann', folder: 'clients/acme', access: 'write', createdAt: '', createdBy: null }
+    ])
+
+    const updates = await updateReferences('t5', { from: 'about.html', to: 'company/about.html' }, [], null, access)
+
+    expect(updates).toEqual([{ path: 'clients/acme/index.html', links: 1 }])
+    expect(await read('t5', 'index.html')).toBe('<a href="about.html">About</a>')
+  })
+
+  it('follows an image to its new variants folder', async () => {
+    await store('t4', {
+      'index.html': '<img src="img/photo.jpg"><a href="img/photo.jpg.variants/800.webp">Large</a>'
+    })
+
+    await updateReferences('t4', { from: 'img/photo.jpg', to: 'media/photo.jpg' }, [], null)
+
+    expect(await read('t4', 'index.html')).toBe('<img src="media/photo.jpg"><a href="media/photo.jpg.variants/800.webp">Large</a>')
+  })
+})
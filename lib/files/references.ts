@@ -0,0 +1,127 @@
+import { getStorage, listAll, type StoredObject } from '@/lib/storage'
+import { isInternalPath } from './internal-paths'
+import { UNRESTRICTED_ACCESS, type FolderAccess } from './folder-access'
+import { getContentType } from './content-types'
+import { onFilesWritten } from './sync'
+import { variantsFolder } from './image-paths'
+import { linkSourceKind, rewriteLinks, isExternalUrl, splitUrlSuffix, resolveRelativePath, relativeLink } from './links'
+
+/**
+ * Reference updates after a move or rename
+ * Once a file or folder has moved, every HTML and CSS file of the tenant is
+ * scanned for href, src and url() references to the old location, and they
+ * are pointed at the new one. Relative links inside the moved files are fixed
+ * up too, since they now start from a different folder. Links keep their
+ * style: relative links stay relative and root-relative ones root-relative.
+ */
+
+export interface ReferenceUpdate {
+  path: string
+  links: number // References rewritten in this file
+}
+
+// New location of a path after `from` moved to `to`, or null if the move didn't touch it
+function movedPath(path: string, from: string, to: string): string | null {
+  if (path === from) return to
+  if (path.startsWith(`${from}/`)) return to + path.substring(from.length)
+
+  // Variants of a moved image, used by <picture> markup
+  if (path.startsWith(`${variantsFolder(from)}/`)) {
+    return variantsFolder(to) + path.substring(variantsFolder(from).length)
+  }
+
+  // Extensionless links to pages, e.g. "about" for about.html
+  if (from.endsWith('.html') && path === from.slice(0, -'.html'.length)) {
+    return to.endsWith('.html') ? to.slice(0, -'.html'.length) : to
+  }
+
+  return null
+}
+
+function decodePath(path: string): string | null {
+  try {
+    return decodeURI(path)
+  } catch {
+    return null // Malformed escapes; leave the link as the author wrote it
+  }
+}
+
+/**
+ * Rewrite references after `from` moved to `to` (tenant-relative paths)
+ * siteBases are the absolute and root-relative URL prefixes the site is served
+ * under; links starting with one of them or with "/" resolve from the site root.
+ * Files outside the user's write grants are left alone.
+ * Returns the files that were changed, each saved with a new revision.
+ */
+export async function updateReferences(
+  tenantId: string,
+  move: { from: string; to: string },
+  siteBases: string[],
+  updatedBy: string | null,
+  access: FolderAccess = UNRESTRICTED_ACCESS
+): Promise<ReferenceUpdate[]> {
+  const storage = getStorage()
+  const { from, to } = move
+
+  // Longest first, so "/{slug}/" wins over "/"
+  const bases = [...siteBases, '/'].sort((a, b) => b.length - a.length)
+
+  const sources = (await listAll(storage, `${tenantId}/`)).filter(object => {
+    const path = object.pathname.substring(tenantId.length + 1)
+    return !isInternalPath(path) && linkSourceKind(path) !== null && access.can(path, 'write')
+  })
+
+  const updates: ReferenceUpdate[] = []
+  const written: StoredObject[] = []
+
+  for (const object of sources) {
+    const path = object.pathname.substring(tenantId.length + 1)
+    // Where the file was before the move, which its relative links were written against
+    const previousPath = movedPath(path, to, from) ?? path
+    const kind = linkSourceKind(path)!
+
+    const content = await storage.readText(object.pathname)
+    if (content === null) continue
+
+    let links = 0
+    const rewritten = rewriteLinks(content, kind, url => {
+      const base = bases.find(candidate => url.startsWith(candidate))
+
+      if (base && !(base === '/' && isExternalUrl(url))) {
+        const { path: linkPath, suffix } = splitUrlSuffix(url.substring(base.length))
+        const decoded = decodePath(linkPath)
+        const target = decoded === null ? null : movedPath(decoded, from, to)
+        if (target === null) return null
+
+        links++
+        return base + encodeURI(target) + suffix
+      }
+
+      if (isExternalUrl(url)) return null
+
+      const { path: linkPath, suffix } = splitUrlSuffix(url)
+      if (linkPath === '') return null // "?query" or "#hash" on the same page
+
+      const decoded = decodePath(linkPath)
+      const oldTarget = decoded === null ? null : resolveRelativePath(previousPath, decoded)
+      if (oldTarget === null) return null
+
+      const target = movedPath(oldTarget, from, to) ?? oldTarget
+      // Still right from where the file is now, e.g. links between files that moved together
+      if (resolveRelativePath(path, decoded!) === target) return null
+
+      links++
+      return encodeURI(relativeLink(path, target)) + suffix
+    })
+
+    if (links === 0) continue
+
+    const contentType = object.contentType || getContentType(path)
+    written.push(await storage.put(object.pathname, rewritten, { contentType }))
+    updates.push({ path, links })
+  }
+
+  await onFilesWritten(tenantId, written, updatedBy)
+
+  return updates
+}
@@ -0,0 +1,211 @@
+/**
+ * Full-text search over tenant pages
+ * HTML and markdown files are reduced to a search document (title, headings,
+ * plain text) when they change; queries rank documents with title and heading
+ * matches boosted and return a highlighted snippet for each hit
+ */
+
+export interface SearchDocument {
+  path: string
+  title: string
+  headings: string[]
+  text: string
+  updatedAt: string
+}
+
+export interface SearchResult {
+  path: string
+  title: string
+  score: number
+  snippet: string
+  /** [start, end) offsets of matched terms within the snippet */
+  highlights: [number, number][]
+}
+
+const SEARCHABLE_EXTENSIONS = ['.html', '.htm', '.md', '.markdown']
+
+// Keep stored documents small; very long pages are only searchable by their start
+const MAX_TEXT_LENGTH = 50000
+
+const SNIPPET_RADIUS = 80
+
+const TITLE_BOOST = 10
+const HEADING_BOOST = 5
+const PATH_BOOST = 3
+
+/**
+ * Check whether a file's content should be indexed for search
+ */
+export function isSearchable(path: string): boolean {
+  const lower = path.toLowerCase()
+  return SEARCHABLE_EXTENSIONS.some(extension => lower.endsWith(extension))
+}
+
+/**
+ * Reduce an HTML or markdown file to its searchable parts
+ */
+export function extractSearchDocument(path: string, content: string, updatedAt: string): SearchDocument {
+  const parsed = /\.(md|markdown)$/i.test(path) ? extractMarkdown(content) : extractHtml(content)
+
+  return {
+    path,
+    title: parsed.title || path.split('/').pop() || path,
+    headings: parsed.headings,
+    text: collapseWhitespace(parsed.text).slice(0, MAX_TEXT_LENGTH),
+    updatedAt
+  }
+}
+
+function extractHtml(html: string): { title: string; headings: string[]; text: string } {
+  const withoutCode = html
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(script|style|noscript|template)\b[\s\S]*?<\/\1>/gi, ' ')
+
+  const titleMatch = withoutCode.match(/<title[^>]*>([\s\S]*?)<\/title>/i)
+  const headings = Array.from(withoutCode.matchAll(/<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/gi))
+    .map(match => collapseWhitespace(stripTags(match[1])))
+    .filter(Boolean)
+
+  const bodyMatch = withoutCode.match(/<body[^>]*>([\s\S]*)<\/body>/i)
+  const text = stripTags(bodyMatch ? bodyMatch[1] : withoutCode.replace(/<head[^>]*>[\s\S]*?<\/head>/i, ' '))
+
+  return {
+    title: titleMatch ? collapseWhitespace(stripTags(titleMatch[1])) : headings[0] || '',
+    headings,
+    text
+  }
+}
+
+function extractMarkdown(markdown: string): { title: string; headings: string[]; text: string } {
+  const headings = Array.from(markdown.matchAll(/^#{1,6}\s+(.+?)\s*#*\s*$/gm)).map(match => match[1].trim())
+
+  const text = markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/[*_`>~]/g, ' ')
+
+  return { title: headings[0] || '', headings, text }
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, ' '))
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&')
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Split a query into lowercase search terms
+ */
+export function tokenize(query: string): string[] {
+  return Array.from(new Set(query.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []))
+}
+
+function countOccurrences(haystack: string, term: string): number {
+  let count = 0
+  let index = haystack.indexOf(term)
+  while (index !== -1) {
+    count++
+    index = haystack.indexOf(term, index + term.length)
+  }
+  return count
+}
+
+/**
+ * Rank documents against a query; every term must appear somewhere in a document
+ */
+export function searchDocuments(documents: SearchDocument[], query: string, limit = 20): SearchResult[] {
+  const terms = tokenize(query)
+  if (terms.length === 0) {
+    return []
+  }
+
+  const results: SearchResult[] = []
+
+  for (const doc of documents) {
+    const title = doc.title.toLowerCase()
+    const headings = doc.headings.join('\n').toLowerCase()
+    const text = doc.text.toLowerCase()
+    const path = doc.path.toLowerCase()
+
+    let score = 0
+    let matchesAll = true
+
+    for (const term of terms) {
+      const inTitle = countOccurrences(title, term)
+      const inHeadings = countOccurrences(headings, term)
+      const inText = countOccurrences(text, term)
+      const inPath = countOccurrences(path, term)
+
+      if (inTitle + inHeadings + inText + inPath === 0) {
+        matchesAll = false
+        break
+      }
+
+      // Dampen long pages that repeat a word many times
+      score += inTitle * TITLE_BOOST + inHeadings * HEADING_BOOST + inPath * PATH_BOOST + Math.log2(1 + inText)
+    }
+
+    if (matchesAll) {
+      results.push({ path: doc.path, title: doc.title, score, ...buildSnippet(doc.text, terms) })
+    }
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+    .slice(0, limit)
+}
+
+/**
+ * Cut a window of text around the first matching term and mark every term in it
+ */
+export function buildSnippet(text: string, terms: string[]): { snippet: string; highlights: [number, number][] } {
+  const lower = text.toLowerCase()
+  const positions = terms.map(term => lower.indexOf(term)).filter(index => index !== -1)
+  const first = positions.length > 0 ? Math.min(...positions) : 0
+
+  const start = Math.max(0, first - SNIPPET_RADIUS)
+  const end = Math.min(text.length, first + SNIPPET_RADIUS * 2)
+  const prefix = start > 0 ? '…' : ''
+  const snippet = prefix + text.slice(start, end) + (end < text.length ? '…' : '')
+
+  const highlights: [number, number][] = []
+  const window = snippet.toLowerCase()
+  for (const term of terms) {
+    let index = window.indexOf(term)
+    while (index !== -1) {
+      highlights.push([index, index + term.length])
+      index = window.indexOf(term, index + term.length)
+    }
+  }
+
+  return { snippet, highlights: mergeRanges(highlights) }
+}
+
+function mergeRanges(ranges: [number, number][]): [number, number][] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0])
+  const merged: [number, number][] = []
+  for (const range of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([range[0], range[1]])
+    }
+  }
+  return merged
+}
@@ -0,0 +1,180 @@
+import { getStorage, listAll, type ObjectContent } from '@/lib/storage'
+import { getTenantById } from '@/lib/site/tenants'
+import { sitePageUrl } from '@/lib/site/hosts'
+import { isServablePath } from '@/lib/site/public-paths'
+import { logger } from '@/lib/utils/logger'
+import { PUBLISH_DIR, isInternalPath } from './internal-paths'
+import { getPublishRecords, resolvePublishRecord, isLive } from './publish'
+import { readTenantSettings, writeTenantSettings } from './tenant-settings'
+
+/**
+ * sitemap.xml and robots.txt for published sites
+ * Both are generated from the tenant's live pages and stored under .publish/,
+ * then served at the site root. They are rebuilt whenever the set of live
+ * pages changes: publish, unpublish, move, rename, delete and restore.
+ * A page the tenant publishes under the same name takes precedence.
+ */
+
+export interface RobotsSettings {
+  allowIndexing: boolean
+  disallow: string[] // Site paths, e.g. /drafts/
+  extraRules: string // Appended verbatim, e.g. rules for a specific crawler
+}
+
+/**
+ * Raised when an admin saves robots.txt settings that make no sense
+ */
+export class RobotsSettingsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RobotsSettingsError'
+  }
+}
+
+export const SITEMAP_FILE = 'sitemap.xml'
+export const ROBOTS_FILE = 'robots.txt'
+
+export const GENERATED_SITE_FILES = [SITEMAP_FILE, ROBOTS_FILE]
+
+const SETTINGS_NAME = 'robots'
+
+const MAX_EXTRA_RULES_LENGTH = 10000
+
+export const DEFAULT_ROBOTS_SETTINGS: RobotsSettings = {
+  allowIndexing: true,
+  disallow: [],
+  extraRules: ''
+}
+
+function generatedFilePath(tenantId: string, name: string): string {
+  return `${tenantId}/${PUBLISH_DIR}/${name}`
+}
+
+export async function getRobotsSettings(tenantId: string): Promise<RobotsSettings> {
+  return readTenantSettings(tenantId, SETTINGS_NAME, DEFAULT_ROBOTS_SETTINGS)
+}
+
+export async function saveRobotsSettings(tenantId: string, settings: RobotsSettings): Promise<RobotsSettings> {
+  if (typeof settings.allowIndexing !== 'boolean') {
+    throw new RobotsSettingsError('allowIndexing must be true or false')
+  }
+  if (!Array.isArray(settings.disallow) || settings.disallow.some(path => typeof path !== 'string' || !/^\/\S*$/.test(path))) {
+    throw new RobotsSettingsError('disallow must be site paths starting with /')
+  }
+  if (typeof settings.extraRules !== 'string' || settings.extraRules.length > MAX_EXTRA_RULES_LENGTH) {
+    throw new RobotsSettingsError(`extraRules must be text of at most ${MAX_EXTRA_RULES_LENGTH} characters`)
+  }
+
+  const cleaned: RobotsSettings = {
+    allowIndexing: settings.allowIndexing,
+    disallow: Array.from(new Set(settings.disallow)),
+    extraRules: settings.extraRules.trim()
+  }
+  await writeTenantSettings(tenantId, SETTINGS_NAME, cleaned)
+  return cleaned
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+// Folders are listed by their own URL rather than .../index.html
+function pageUrlPath(path: string): string {
+  return path === 'index.html' ? '' : path.replace(/\/index\.html$/, '/')
+}
+
+/**
+ * sitemap.xml for a list of pages, `url` turning a site path into an absolute URL
+ */
+export function buildSitemap(
+  pages: { path: string; lastModified: Date }[],
+  url: (path: string) => string
+): string {
+  const entries = pages.map(page => [
+    '  <url>',
+    `    <loc>${escapeXml(encodeURI(url(pageUrlPath(page.path))))}</loc>`,
+    `    <lastmod>${page.lastModified.toISOString()}</lastmod>`,
+    '  </url>'
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries,
+    '</urlset>',
+    ''
+  ].join('\n')
+}
+
+export function buildRobots(settings: RobotsSettings, sitemapUrl: string | null): string {
+  const lines = ['User-agent: *']
+
+  if (!settings.allowIndexing) {
+    lines.push('Disallow: /')
+  } else if (settings.disallow.length === 0) {
+    lines.push('Allow: /')
+  } else {
+    lines.push(...settings.disallow.map(path => `Disallow: ${path}`))
+  }
+
+  if (settings.extraRules) {
+    lines.push('', settings.extraRules)
+  }
+  if (sitemapUrl && settings.allowIndexing) {
+    lines.push('', `Sitemap: ${sitemapUrl}`)
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Rebuild and store sitemap.xml and robots.txt for a tenant
+ * URLs are absolute when the tenant has a custom domain or SITE_ROOT_DOMAIN is
+ * set; otherwise they point at the /{slug}/ path on the builder host.
+ */
+export async function regenerateSiteFiles(tenantId: string): Promise<void> {
+  const storage = getStorage()
+  const tenant = await getTenantById(tenantId)
+  if (!tenant) {
+    logger.warn(`Skipping sitemap for unknown tenant ${tenantId}`)
+    return
+  }
+
+  const records = await getPublishRecords(tenantId)
+  const pages = (await listAll(storage, `${tenantId}/`))
+    .map(object => ({ path: object.pathname.substring(tenantId.length + 1), lastModified: new Date(object.uploadedAt) }))
+    .filter(page =>
+      page.path.endsWith('.html')
+      && isServablePath(page.path)
+      && !isInternalPath(page.path)
+      && isLive(resolvePublishRecord(records, page.path))
+    )
+    .sort((a, b) => a.path.localeCompare(b.path))
+
+  const url = (path: string) => sitePageUrl(tenant, path)
+  const settings = await getRobotsSettings(tenantId)
+
+  await storage.put(generatedFilePath(tenantId, SITEMAP_FILE), buildSitemap(pages, url), {
+    contentType: 'application/xml'
+  })
+  await storage.put(generatedFilePath(tenantId, ROBOTS_FILE), buildRobots(settings, url(SITEMAP_FILE)), {
+    contentType: 'text/plain'
+  })
+
+  logger.info('Site files regenerated:', { tenantId, pages: pages.length })
+}
+
+/**
+ * Stored sitemap.xml or robots.txt of a tenant, or null if never generated
+ */
+export async function readGeneratedSiteFile(tenantId: string, name: string): Promise<ObjectContent | null> {
+  if (!GENERATED_SITE_FILES.includes(name)) {
+    return null
+  }
+  return getStorage().read(generatedFilePath(tenantId, name))
+}
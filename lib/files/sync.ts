@@ -0,0 +1,56 @@
+import type { StoredObject } from '@/lib/storage'
+import { indexObjects, unindexPaths, refreshPublishedFlags } from '@/lib/kv/file-index'
+import { indexSearchDocuments, removeSearchDocuments } from '@/lib/kv/search-index'
+import { logger } from '@/lib/utils/logger'
+import { regenerateSiteFiles } from './seo'
+import { recordRevisions, type FileRevision } from './versions'
+
+/**
+ * Hooks every file mutation calls after touching storage
+ * Keeps the version history, the derived per-tenant indexes (metadata,
+ * search) and the generated site files (sitemap.xml, robots.txt) in step
+ * with the files
+ */
+
+/**
+ * Call after objects were created or overwritten
+ * Returns the revisions recorded for them, keyed by tenant-relative path
+ */
+export async function onFilesWritten(
+  tenantId: string,
+  objects: StoredObject[],
+  updatedBy: string | null
+): Promise<Map<string, FileRevision>> {
+  const revisions = await recordRevisions(tenantId, objects, updatedBy)
+  await indexObjects(tenantId, objects, updatedBy)
+  await indexSearchDocuments(tenantId, objects)
+  return revisions
+}
+
+/**
+ * Call after objects were deleted; accepts full pathnames or tenant-relative paths
+ */
+export async function onFilesRemoved(tenantId: string, pathnames: string[]): Promise<void> {
+  await unindexPaths(tenantId, pathnames)
+  await removeSearchDocuments(tenantId, pathnames)
+}
+
+/**
+ * Call after the publish state of pages changed; takes tenant-relative paths
+ */
+export async function onPublishStateChanged(tenantId: string, paths: string[]): Promise<void> {
+  await refreshPublishedFlags(tenantId, paths)
+  await onSitePagesChanged(tenantId)
+}
+
+/**
+ * Call once after pages were moved, renamed, deleted or restored
+ * A failure only leaves the sitemap stale, so it never fails the change itself
+ */
+export async function onSitePagesChanged(tenantId: string): Promise<void> {
+  try {
+    await regenerateSiteFiles(tenantId)
+  } catch (error) {
+    logger.error(`Failed to regenerate site files for tenant ${tenantId}:`, error)
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import {
+  sanitizePath,
+  unsafePathReason,
+  TenantPathBuilder,
+  PathTraversalError,
+  ReservedPathError,
+  PathTooLongError,
+  MalformedPathError,
+  MAX_PATH_LENGTH,
+  MAX_SEGMENT_LENGTH
+} from './tenant-paths'
+
+describe('sanitizePath', () => {
+  it('strips one leading and one trailing slash', () => {
+    expect(sanitizePath('/blog/post.html')).toBe('blog/post.html')
+    expect(sanitizePath('blog/')).toBe('blog')
+    expect(sanitizePath('café/über uns.html')).toBe('café/über uns.html')
+  })
+
+  it('only accepts the root when asked to', () => {
+    expect(() => sanitizePath('')).toThrow(MalformedPathError)
+    expect(() => sanitizePath('/')).toThrow(MalformedPathError)
+    expect(sanitizePath('/', { allowRoot: true })).toBe('')
+  })
+
+  it('rejects . and .. segments', () => {
+    for (const path of ['../other-tenant/index.html', 'blog/../../x', './index.html', 'blog/.']) {
+      expect(() => sanitizePath(path)).toThrow(PathTraversalError)
+    }
+  })
+
+  it('rejects backslashes, encoded separators, double slashes and control characters', () => {
+    for (const path of ['blog\\post.html', 'blog%2fpost', '%2e%2e/x', 'a%5Cb', 'x%00.html', 'blog//post', '//blog', 'a\nb', 'a\u007fb']) {
+      expect(() => sanitizePath(path)).toThrow(MalformedPathError)
+    }
+  })
+
+  it('rejects reserved device names and internal folders', () => {
+    expect(() => sanitizePath('docs/CON')).toThrow(ReservedPathError)
+    expect(() => sanitizePath('lpt1.txt')).toThrow(ReservedPathError)
+    expect(() => sanitizePath('.trash/123/index.html')).toThrow(ReservedPathError)
+    expect(() => sanitizePath('/.settings')).toThrow(ReservedPathError)
+    // Only at the tenant root
+    expect(sanitizePath('docs/.trash')).toBe('docs/.trash')
+    expect(sanitizePath('console.html')).toBe('console.html')
+  })
+
+  it('rejects overlong paths and names', () => {
+    expect(() => sanitizePath('a'.repeat(MAX_SEGMENT_LENGTH + 1))).toThrow(PathTooLongError)
+    expect(() => sanitizePath(Array(MAX_PATH_LENGTH / 4).fill('abcd').join('/'))).toThrow(PathTooLongError)
+    expect(sanitizePath('a'.repeat(MAX_SEGMENT_LENGTH))).toHaveLength(MAX_SEGMENT_LENGTH)
+  })
+
+  it('rejects anything but a string', () => {
+    expect(() => sanitizePath(undefined)).toThrow(MalformedPathError)
+    expect(() => sanitizePath(['a'])).toThrow(MalformedPathError)
+  })
+})
+
+describe('unsafePathReason', () => {
+  it('returns the reason instead of throwing', () => {
+    expect(unsafePathReason('index.html')).toBeNull()
+    expect(unsafePathReason('../x')).toMatch(/\.\./)
+  })
+})
+
+describe('TenantPathBuilder', () => {
+  const paths = new TenantPathBuilder('t1')
+
+  it('accepts paths with or without the tenant id', () => {
+    expect(paths.relative('t1/blog/post.html')).toBe('blog/post.html')
+    expect(paths.relative('/t1/blog')).toBe('blog')
+    expect(paths.relative('blog')).toBe('blog')
+    expect(paths.relative('t1', { allowRoot: true })).toBe('')
+    // Another tenant's id is just a folder name inside this tenant
+    expect(paths.relative('t2/index.html')).toBe('t2/index.html')
+  })
+
+  it('builds storage paths inside the tenant', () => {
+    expect(paths.full('blog/post.html')).toBe('t1/blog/post.html')
+    expect(paths.full('/', { allowRoot: true })).toBe('t1')
+    expect(paths.toRelative('t1/blog/post.html')).toBe('blog/post.html')
+    expect(paths.toRelative('t1')).toBe('')
+  })
+
+  it('does not let the tenant prefix hide a traversal', () => {
+    expect(() => paths.full('t1/../t2/index.html')).toThrow(PathTraversalError)
+    expect(() => paths.full('t1//etc')).toThrow(MalformedPathError)
+  })
+
+  it('validates the folder and file name in buildPath', () => {
+    expect(paths.buildPath('post.html', 'blog')).toBe('t1/blog/post.html')
+    expect(paths.buildPath('post.html', '/')).toBe('t1/post.html')
+    expect(() => paths.buildPath('post.html', '../t2')).toThrow(PathTraversalError)
+    expect(() => paths.buildPath('..', 'blog')).toThrow(PathTraversalError)
+  })
+
+  it('only validates paths inside the tenant', () => {
+    expect(paths.validateTenantPath('t1/index.html')).toBe(true)
+    expect(paths.validateTenantPath('t2/index.html')).toBe(false)
+    expect(paths.validateTenantPath('t1/../t2/index.html')).toBe(false)
+    expect(paths.validateTenantPath('t1/')).toBe(false)
+  })
+})
@@ -0,0 +1,187 @@
+import { PathBuilder } from '@/lib/utils/shared-utils'
+import { INTERNAL_DIRS } from './internal-paths'
+
+/**
+ * Hardened tenant paths
+ * Every path that comes from a request or an AI tool goes through here before
+ * it reaches storage. Paths are tenant-relative, may start with a slash or the
+ * tenant id, and are rejected rather than repaired when they try to leave the
+ * tenant: `..` and `.` segments, backslashes, percent-encoded separators,
+ * double slashes, control characters, reserved names and overlong paths all
+ * raise an UnsafePathError subclass, which routes turn into a 400.
+ */
+
+export const MAX_PATH_LENGTH = 1024
+export const MAX_SEGMENT_LENGTH = 255
+
+// Device names Windows refuses as file names, with or without an extension
+const RESERVED_NAME_PATTERN = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i
+
+const ENCODED_SEPARATOR_PATTERN = /%(2f|5c|2e|00)/i
+
+const CONTROL_CHARACTER_PATTERN = /[\u0000-\u001f\u007f]/
+
+/**
+ * Raised for any path that can't be used safely
+ */
+export class UnsafePathError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UnsafePathError'
+  }
+}
+
+export class PathTraversalError extends UnsafePathError {
+  constructor(path: string) {
+    super(`Path must not contain . or .. segments: ${path}`)
+    this.name = 'PathTraversalError'
+  }
+}
+
+export class ReservedPathError extends UnsafePathError {
+  constructor(name: string) {
+    super(`"${name}" is a reserved name`)
+    this.name = 'ReservedPathError'
+  }
+}
+
+export class PathTooLongError extends UnsafePathError {
+  constructor() {
+    super(`Paths are limited to ${MAX_PATH_LENGTH} characters and ${MAX_SEGMENT_LENGTH} per name`)
+    this.name = 'PathTooLongError'
+  }
+}
+
+export class MalformedPathError extends UnsafePathError {
+  constructor(reason: string) {
+    super(reason)
+    this.name = 'MalformedPathError'
+  }
+}
+
+export interface SanitizeOptions {
+  // Accept '' (the site root); off for paths that must name a file or folder
+  allowRoot?: boolean
+}
+
+/**
+ * Validate a tenant-relative path and return it without leading or trailing slash
+ */
+export function sanitizePath(input: unknown, { allowRoot = false }: SanitizeOptions = {}): string {
+  if (typeof input !== 'string') {
+    throw new MalformedPathError('Path must be a string')
+  }
+  if (input.includes('\\')) {
+    throw new MalformedPathError('Backslashes are not allowed in paths')
+  }
+  if (ENCODED_SEPARATOR_PATTERN.test(input)) {
+    throw new MalformedPathError('Encoded separators are not allowed in paths')
+  }
+  if (CONTROL_CHARACTER_PATTERN.test(input)) {
+    throw new MalformedPathError('Control characters are not allowed in paths')
+  }
+
+  // One leading and one trailing slash are fine, anything more is not
+  const path = input.replace(/^\//, '').replace(/\/$/, '')
+  if (path.includes('//') || path.startsWith('/')) {
+    throw new MalformedPathError('Double slashes are not allowed in paths')
+  }
+
+  if (!path) {
+    if (!allowRoot) {
+      throw new MalformedPathError('Path is required')
+    }
+    return ''
+  }
+
+  if (path.length > MAX_PATH_LENGTH) {
+    throw new PathTooLongError()
+  }
+
+  const segments = path.split('/')
+  for (const segment of segments) {
+    if (segment === '.' || segment === '..') {
+      throw new PathTraversalError(input)
+    }
+    if (segment.length > MAX_SEGMENT_LENGTH) {
+      throw new PathTooLongError()
+    }
+    if (RESERVED_NAME_PATTERN.test(segment)) {
+      throw new ReservedPathError(segment)
+    }
+  }
+  if (INTERNAL_DIRS.includes(segments[0])) {
+    throw new ReservedPathError(segments[0])
+  }
+
+  return path
+}
+
+/**
+ * Why a path can't be used, or null if it can
+ * For batch operations that report bad entries instead of failing
+ */
+export function unsafePathReason(path: string): string | null {
+  try {
+    sanitizePath(path)
+    return null
+  } catch (error) {
+    if (!(error instanceof UnsafePathError)) throw error
+    return error.message
+  }
+}
+
+/**
+ * PathBuilder that validates everything it builds
+ * The one place routes and AI tools turn client paths into storage paths.
+ */
+export class TenantPathBuilder extends PathBuilder {
+  /**
+   * Tenant-relative path for a client path, which may start with the tenant id
+   */
+  relative(input: unknown, options?: SanitizeOptions): string {
+    let path = input
+    if (typeof path === 'string') {
+      const withoutSlash = path.replace(/^\//, '')
+      if (withoutSlash === this.tenantId || withoutSlash === `${this.tenantId}/`) {
+        path = ''
+      } else if (withoutSlash.startsWith(`${this.tenantId}/`) && !withoutSlash.startsWith(`${this.tenantId}//`)) {
+        path = withoutSlash.substring(this.tenantId.length + 1)
+      }
+    }
+    return sanitizePath(path, options)
+  }
+
+  /**
+   * Storage path for a client path
+   */
+  full(input: unknown, options?: SanitizeOptions): string {
+    const path = this.relative(input, options)
+    return path ? `${this.tenantId}/${path}` : this.tenantId
+  }
+
+  /**
+   * Tenant-relative form of a storage path built by this builder
+   */
+  toRelative(fullPath: string): string {
+    return fullPath === this.tenantId ? '' : fullPath.substring(this.tenantId.length + 1)
+  }
+
+  override buildPath(filename: string, currentFolder: string = ''): string {
+    const folder = this.relative(currentFolder, { allowRoot: true })
+    const name = this.relative(filename, { allowRoot: true })
+    return this.full(super.buildPath(name, folder), { allowRoot: true })
+  }
+
+  override ensureTenantPath(path: string): string {
+    return this.full(path)
+  }
+
+  override validateTenantPath(path: string): boolean {
+    try {
+      return path.startsWith(`${this.tenantId}/`) && this.relative(path) !== ''
+    } catch {
+      return false
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { getStorage } from '@/lib/storage'
+import { SETTINGS_DIR } from './internal-paths'
+
+/**
+ * Per-tenant settings documents
+ * Each group of settings is a JSON file at {tenantId}/.settings/{name}.json.
+ * Stored values are merged over the caller's defaults, so new fields get
+ * their default until an admin saves them.
+ */
+
+function settingsPath(tenantId: string, name: string): string {
+  return `${tenantId}/${SETTINGS_DIR}/${name}.json`
+}
+
+export async function readTenantSettings<T extends object>(
+  tenantId: string,
+  name: string,
+  defaults: T
+): Promise<T> {
+  const raw = await getStorage().readText(settingsPath(tenantId, name))
+  return raw ? { ...defaults, ...(JSON.parse(raw) as Partial<T>) } : defaults
+}
+
+export async function writeTenantSettings<T extends object>(
+  tenantId: string,
+  name: string,
+  settings: T
+): Promise<void> {
+  await getStorage().put(settingsPath(tenantId, name), JSON.stringify(settings), {
+    contentType: 'application/json'
+  })
+}
@@ -0,0 +1,56 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { getStorage } from '@/lib/storage'
+import { moveToTrash, listTrash, restoreFromTrash } from './trash'
+
+vi.mock('./sync', () => ({
+  onFilesWritten: vi.fn(async () => new Map()),
+  onFilesRemoved: vi.fn(),
+  onSitePagesChanged: vi.fn()
+}))
+
+const storageDir = mkdtempSync(join(tmpdir(), 'trash-test-'))
+
+beforeAll(() => {
+  process.env.STORAGE_DRIVER = 'local'
+  process.env.LOCAL_STORAGE_DIR = storageDir
+  delete process.env.REDIS_URL
+  delete process.env.KV_URL
+  delete process.env.KV_REST_API_URL
+})
+
+afterAll(() => {
+  rmSync(storageDir, { recursive: true, force: true })
+})
+
+async function put(path: string) {
+  await getStorage().put(path, '<p>hi</p>', { contentType: 'text/html' })
+}
+
+describe('trash', () => {
+  it('keeps every entry when several files are deleted at once', async () => {
+    const paths = ['a.html', 'b.html', 'c.html']
+    await Promise.all(paths.map(path => put(`t1/${path}`)))
+
+    await Promise.all(paths.map(path => moveToTrash('t1', path, 'file', null)))
+
+    expect((await listTrash('t1')).map(entry => entry.originalPath).sort()).toEqual(paths)
+    expect(await getStorage().head('t1/a.html')).toBeNull()
+  })
+
+  it('restores an entry only once', async () => {
+    await put('t2/page.html')
+    const entry = await moveToTrash('t2', 'page.html', 'file', null)
+
+    const results = await Promise.all([
+      restoreFromTrash('t2', entry!.id),
+      restoreFromTrash('t2', entry!.id)
+    ])
+
+    expect(results.filter(Boolean)).toHaveLength(1)
+    expect(await getStorage().head('t2/page.html')).not.toBeNull()
+    expect(await listTrash('t2')).toEqual([])
+  })
+})
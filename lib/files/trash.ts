@@ -0,0 +1,251 @@
+import { getStorage, listAll, type StoredObject } from '@/lib/storage'
+import { withLock } from '@/lib/kv/lock'
+import { onFilesWritten, onFilesRemoved, onSitePagesChanged } from './sync'
+import { TRASH_DIR } from './internal-paths'
+import { removePublishStates, recordNewPages } from './publish'
+import { isOptimizableImage, variantsFolder } from './image-paths'
+
+/**
+ * Per-tenant trash bin
+ * Deleted files are moved to {tenantId}/.trash/{entryId}/{originalPath} and
+ * described by an entry in {tenantId}/.trash/index.json until restored or purged.
+ * Manifest updates for a tenant are serialised with a lock.
+ */
+
+const DEFAULT_RETENTION_DAYS = 30
+
+export interface TrashedFile {
+  path: string // Original tenant-relative path
+  size: number
+  contentType?: string
+}
+
+export interface TrashEntry {
+  id: string
+  originalPath: string
+  type: 'file' | 'folder'
+  deletedAt: string
+  deletedBy: string | null
+  expiresAt: string
+  files: TrashedFile[]
+}
+
+interface TrashManifest {
+  entries: TrashEntry[]
+}
+
+/**
+ * Raised when restoring would overwrite files that exist again at the original path
+ */
+export class TrashConflictError extends Error {
+  constructor(public conflicts: string[]) {
+    super(`Files already exist at: ${conflicts.join(', ')}`)
+    this.name = 'TrashConflictError'
+  }
+}
+
+/**
+ * Days a trash entry is kept before it is purged automatically
+ */
+export function getRetentionDays(): number {
+  const configured = parseInt(process.env.TRASH_RETENTION_DAYS || '', 10)
+  return configured > 0 ? configured : DEFAULT_RETENTION_DAYS
+}
+
+function manifestPath(tenantId: string): string {
+  return `${tenantId}/${TRASH_DIR}/index.json`
+}
+
+function trashedObjectPath(tenantId: string, entryId: string, path: string): string {
+  return `${tenantId}/${TRASH_DIR}/${entryId}/${path}`
+}
+
+async function readManifest(tenantId: string): Promise<TrashManifest> {
+  const raw = await getStorage().readText(manifestPath(tenantId))
+  return raw ? JSON.parse(raw) as TrashManifest : { entries: [] }
+}
+
+async function writeManifest(tenantId: string, manifest: TrashManifest): Promise<void> {
+  await getStorage().put(manifestPath(tenantId), JSON.stringify(manifest), {
+    contentType: 'application/json'
+  })
+}
+
+/**
+ * Run a manifest update while no other update of the tenant's trash runs
+ */
+function withManifestLock<T>(tenantId: string, update: () => Promise<T>): Promise<T> {
+  return withLock(`trash-lock:${tenantId}`, update)
+}
+
+async function removeEntryFiles(tenantId: string, entry: TrashEntry): Promise<void> {
+  await getStorage().delete(entry.files.map(file => trashedObjectPath(tenantId, entry.id, file.path)))
+}
+
+/**
+ * Move a file, or every file in a folder, into the trash
+ * Returns null when there is nothing at the path
+ */
+export async function moveToTrash(
+  tenantId: string,
+  path: string,
+  type: 'file' | 'folder',
+  deletedBy: string | null
+): Promise<TrashEntry | null> {
+  const storage = getStorage()
+  const fullPath = `${tenantId}/${path}`
+
+  let objects: StoredObject[]
+  if (type === 'folder') {
+    // Trailing slash so sibling folders with the same prefix are left alone
+    objects = await listAll(storage, `${fullPath}/`)
+  } else {
+    const object = await storage.head(fullPath)
+    objects = object ? [object] : []
+    // An image's variants go with it, so restoring brings them back too
+    if (object && isOptimizableImage(path)) {
+      objects.push(...await listAll(storage, `${tenantId}/${variantsFolder(path)}/`))
+    }
+  }
+
+  if (objects.length === 0) {
+    return null
+  }
+
+  const now = new Date()
+  const entry: TrashEntry = {
+    id: `${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    originalPath: path,
+    type,
+    deletedAt: now.toISOString(),
+    deletedBy,
+    expiresAt: new Date(now.getTime() + getRetentionDays() * 86400 * 1000).toISOString(),
+    files: []
+  }
+
+  for (const object of objects) {
+    const relativePath = object.pathname.substring(tenantId.length + 1)
+    const copied = await storage.copy(object.pathname, trashedObjectPath(tenantId, entry.id, relativePath))
+    entry.files.push({ path: relativePath, size: object.size, contentType: copied.contentType })
+  }
+
+  // Only record the entry and drop the originals once every copy succeeded
+  await withManifestLock(tenantId, async () => {
+    const manifest = await readManifest(tenantId)
+    manifest.entries.push(entry)
+    await writeManifest(tenantId, manifest)
+  })
+  await storage.delete(objects.map(object => object.pathname))
+  await onFilesRemoved(tenantId, objects.map(object => object.pathname))
+  await removePublishStates(tenantId, entry.files.map(file => file.path))
+  await onSitePagesChanged(tenantId)
+
+  return entry
+}
+
+/**
+ * List trash entries, newest first, purging any that are past retention
+ */
+export async function listTrash(tenantId: string): Promise<TrashEntry[]> {
+  await purgeExpired(tenantId)
+  const { entries } = await readManifest(tenantId)
+  return [...entries].reverse()
+}
+
+/**
+ * A single trash entry, or null when it was restored or purged
+ */
+export async function getTrashEntry(tenantId: string, entryId: string): Promise<TrashEntry | null> {
+  const { entries } = await readManifest(tenantId)
+  return entries.find(e => e.id === entryId) || null
+}
+
+/**
+ * Move a trash entry's files back to their original paths
+ */
+export async function restoreFromTrash(
+  tenantId: string,
+  entryId: string,
+  options: { overwrite?: boolean; restoredBy?: string | null } = {}
+): Promise<TrashEntry | null> {
+  const storage = getStorage()
+
+  return withManifestLock(tenantId, async () => {
+    const manifest = await readManifest(tenantId)
+    const entry = manifest.entries.find(e => e.id === entryId)
+
+    if (!entry) {
+      return null
+    }
+
+    if (!options.overwrite) {
+      const conflicts: string[] = []
+      for (const file of entry.files) {
+        if (await storage.head(`${tenantId}/${file.path}`)) {
+          conflicts.push(file.path)
+        }
+      }
+      if (conflicts.length > 0) {
+        throw new TrashConflictError(conflicts)
+      }
+    }
+
+    const restored: StoredObject[] = []
+    for (const file of entry.files) {
+      restored.push(await storage.copy(trashedObjectPath(tenantId, entry.id, file.path), `${tenantId}/${file.path}`))
+    }
+    // Publish records were dropped on delete, so restored pages come back as drafts
+    await recordNewPages(tenantId, entry.files.map(file => file.path), options.restoredBy ?? null)
+    await onFilesWritten(tenantId, restored, options.restoredBy ?? null)
+    await onSitePagesChanged(tenantId)
+
+    await removeEntryFiles(tenantId, entry)
+    manifest.entries = manifest.entries.filter(e => e.id !== entryId)
+    await writeManifest(tenantId, manifest)
+
+    return entry
+  })
+}
+
+/**
+ * Permanently delete trash entries; with no ids the whole trash is emptied
+ */
+export async function purgeTrash(tenantId: string, entryIds?: string[]): Promise<TrashEntry[]> {
+  return withManifestLock(tenantId, async () => {
+    const manifest = await readManifest(tenantId)
+    const purged = entryIds
+      ? manifest.entries.filter(e => entryIds.includes(e.id))
+      : manifest.entries
+
+    return purgeEntries(tenantId, manifest, purged)
+  })
+}
+
+/**
+ * Permanently delete entries whose retention period has passed
+ */
+export async function purgeExpired(tenantId: string): Promise<TrashEntry[]> {
+  return withManifestLock(tenantId, async () => {
+    const manifest = await readManifest(tenantId)
+    const now = Date.now()
+    const expired = manifest.entries.filter(e => new Date(e.expiresAt).getTime() <= now)
+
+    if (expired.length === 0) {
+      return []
+    }
+
+    return purgeEntries(tenantId, manifest, expired)
+  })
+}
+
+// Callers hold the manifest lock
+async function purgeEntries(tenantId: string, manifest: TrashManifest, purged: TrashEntry[]): Promise<TrashEntry[]> {
+  for (const entry of purged) {
+    await removeEntryFiles(tenantId, entry)
+  }
+
+  manifest.entries = manifest.entries.filter(e => !purged.includes(e))
+  await writeManifest(tenantId, manifest)
+
+  return purged
+}
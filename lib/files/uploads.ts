@@ -0,0 +1,169 @@
+import { getStorage, type StoredObject } from '@/lib/storage'
+import { listIndexedFiles } from '@/lib/kv/file-index'
+import { unsafePathReason } from './tenant-paths'
+import { getContentType } from './content-types'
+import { readTenantSettings, writeTenantSettings } from './tenant-settings'
+import { onFilesWritten } from './sync'
+import { recordNewPages } from './publish'
+import { nextFreePath, type ConflictPolicy } from './import'
+
+/**
+ * Binary and text file uploads
+ * Each tenant has an upload policy with a per-file size limit and an allowlist
+ * of content types. The content type is always derived from the file
+ * extension, never from what the browser claims, so the allowlist can't be
+ * bypassed by relabelling a file.
+ */
+
+export interface UploadPolicy {
+  maxFileSize: number // Bytes
+  allowedTypes: string[] // Exact types or wildcards like "image/*"
+}
+
+// Content is only read once the file passed the policy checks
+export interface UploadFile {
+  name: string
+  size: number
+  read: () => Promise<Buffer>
+}
+
+export interface UploadReport {
+  uploaded: { path: string; url: string; size: number; contentType: string }[]
+  rejected: { name: string; reason: string }[]
+}
+
+/**
+ * Raised when an admin saves an upload policy that makes no sense
+ */
+export class UploadPolicyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UploadPolicyError'
+  }
+}
+
+const SETTINGS_NAME = 'uploads'
+
+// Hard ceiling regardless of tenant settings; serverless request bodies can't be much bigger
+export const MAX_UPLOAD_FILE_SIZE = 50 * 1024 * 1024
+
+export const DEFAULT_UPLOAD_POLICY: UploadPolicy = {
+  maxFileSize: 10 * 1024 * 1024,
+  allowedTypes: [
+    'image/*',
+    'font/*',
+    'application/pdf',
+    'text/html',
+    'text/css',
+    'text/plain',
+    'text/markdown',
+    'application/javascript',
+    'application/json'
+  ]
+}
+
+export async function getUploadPolicy(tenantId: string): Promise<UploadPolicy> {
+  return readTenantSettings(tenantId, SETTINGS_NAME, DEFAULT_UPLOAD_POLICY)
+}
+
+export async function saveUploadPolicy(tenantId: string, policy: UploadPolicy): Promise<UploadPolicy> {
+  if (!Number.isInteger(policy.maxFileSize) || policy.maxFileSize <= 0) {
+    throw new UploadPolicyError('maxFileSize must be a positive number of bytes')
+  }
+  if (policy.maxFileSize > MAX_UPLOAD_FILE_SIZE) {
+    throw new UploadPolicyError(`maxFileSize cannot exceed ${MAX_UPLOAD_FILE_SIZE} bytes`)
+  }
+  if (!Array.isArray(policy.allowedTypes) || policy.allowedTypes.some(type => !/^[\w.+-]+\/(\*|[\w.+-]+)$/.test(type))) {
+    throw new UploadPolicyError('allowedTypes must be content types such as image/png or image/*')
+  }
+
+  const cleaned: UploadPolicy = {
+    maxFileSize: policy.maxFileSize,
+    allowedTypes: Array.from(new Set(policy.allowedTypes.map(type => type.toLowerCase())))
+  }
+  await writeTenantSettings(tenantId, SETTINGS_NAME, cleaned)
+  return cleaned
+}
+
+export function isAllowedType(policy: UploadPolicy, contentType: string): boolean {
+  return policy.allowedTypes.some(allowed =>
+    allowed.endsWith('/*')
+      ? contentType.startsWith(allowed.slice(0, -1))
+      : contentType === allowed
+  )
+}
+
+/**
+ * Why the policy refuses a file of this size and type, or null if it allows it
+ * Zip imports apply the same policy to every entry
+ */
+export function policyViolation(policy: UploadPolicy, size: number, contentType: string): string | null {
+  if (size > policy.maxFileSize) {
+    return `Larger than ${Math.round(policy.maxFileSize / 1024 / 1024 * 10) / 10} MB`
+  }
+  if (!isAllowedType(policy, contentType)) {
+    return `File type ${contentType} is not allowed`
+  }
+  return null
+}
+
+// Why a file can't be uploaded, or null if it can
+function rejectionReason(policy: UploadPolicy, file: UploadFile, contentType: string): string | null {
+  if (!file.name || file.name.includes('/') || file.name.includes('\\') || file.name.startsWith('.')) {
+    return 'Invalid file name'
+  }
+  return policyViolation(policy, file.size, contentType)
+}
+
+/**
+ * Store uploaded files in a folder ('' for the root)
+ * Files that already exist are overwritten or stored under a numbered name
+ */
+export async function uploadFiles(
+  tenantId: string,
+  folder: string,
+  files: UploadFile[],
+  options: { conflict: Exclude<ConflictPolicy, 'skip'>; uploadedBy: string | null }
+): Promise<UploadReport> {
+  const storage = getStorage()
+  const policy = await getUploadPolicy(tenantId)
+  const taken = new Set((await listIndexedFiles(tenantId)).map(entry => entry.path))
+
+  const report: UploadReport = { uploaded: [], rejected: [] }
+  const written: StoredObject[] = []
+  const created: string[] = []
+
+  for (const file of files) {
+    const contentType = getContentType(file.name)
+    const reason = rejectionReason(policy, file, contentType)
+    if (reason) {
+      report.rejected.push({ name: file.name, reason })
+      continue
+    }
+
+    let path = folder ? `${folder}/${file.name}` : file.name
+    const pathReason = unsafePathReason(path)
+    if (pathReason) {
+      report.rejected.push({ name: file.name, reason: pathReason })
+      continue
+    }
+    if (taken.has(path) && options.conflict === 'rename') {
+      path = nextFreePath(path, taken)
+    }
+
+    const data = await file.read()
+    const saved = await storage.put(`${tenantId}/${path}`, data, { contentType })
+    written.push(saved)
+    if (!taken.has(path)) {
+      created.push(path)
+    }
+    taken.add(path)
+
+    report.uploaded.push({ path, url: saved.url, size: saved.size, contentType })
+  }
+
+  await recordNewPages(tenantId, created, options.uploadedBy)
+  await onFilesWritten(tenantId, written, options.uploadedBy)
+
+  return report
+}
@@ -0,0 +1,64 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { getStorage } from '@/lib/storage'
+import { listRevisions, recordRevision, recordRevisions, getRevision } from './versions'
+
+const TENANT = 'tenant-1'
+const storageDir = mkdtempSync(join(tmpdir(), 'versions-test-'))
+
+beforeAll(() => {
+  process.env.STORAGE_DRIVER = 'local'
+  process.env.LOCAL_STORAGE_DIR = storageDir
+  delete process.env.REDIS_URL
+  delete process.env.KV_URL
+  delete process.env.KV_REST_API_URL
+})
+
+afterAll(() => {
+  rmSync(storageDir, { recursive: true, force: true })
+})
+
+describe('recordRevision', () => {
+  it('numbers revisions and keeps their content', async () => {
+    const storage = getStorage()
+    const first = await storage.put(`${TENANT}/about.html`, '<p>one</p>', { contentType: 'text/html' })
+    await recordRevision(TENANT, 'about.html', first, 'user-1')
+    const second = await storage.put(`${TENANT}/about.html`, '<p>two</p>', { contentType: 'text/html' })
+    await recordRevision(TENANT, 'about.html', second, null)
+
+    const revisions = await listRevisions(TENANT, 'about.html')
+    expect(revisions.map(revision => revision.version)).toEqual([1, 2])
+    expect(revisions[0].author).toBe('user-1')
+    expect((await getRevision(TENANT, 'about.html', 1))?.content).toBe('<p>one</p>')
+    expect((await getRevision(TENANT, 'about.html', 2))?.content).toBe('<p>two</p>')
+  })
+
+  it('keeps every revision when saves race', async () => {
+    const saved = await getStorage().put(`${TENANT}/race.html`, '<p>race</p>', { contentType: 'text/html' })
+
+    const recorded = await Promise.all(
+      Array.from({ length: 5 }, () => recordRevision(TENANT, 'race.html', saved, 'user-1'))
+    )
+
+    expect(recorded.map(revision => revision.version).sort()).toEqual([1, 2, 3, 4, 5])
+    expect(await listRevisions(TENANT, 'race.html')).toHaveLength(5)
+  })
+})
+
+describe('recordRevisions', () => {
+  it('only records text files outside internal folders', async () => {
+    const storage = getStorage()
+    const objects = [
+      await storage.put(`${TENANT}/style.css`, 'body {}', { contentType: 'text/css' }),
+      await storage.put(`${TENANT}/logo.png`, Buffer.from([1, 2, 3]), { contentType: 'image/png' }),
+      await storage.put(`${TENANT}/.settings/robots.json`, '{}', { contentType: 'application/json' })
+    ]
+
+    const revisions = await recordRevisions(TENANT, objects, 'user-1')
+
+    expect([...revisions.keys()]).toEqual(['style.css'])
+    expect(await listRevisions(TENANT, 'logo.png')).toEqual([])
+  })
+})
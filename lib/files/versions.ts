@@ -0,0 +1,136 @@
+import { getStorage, type StoredObject } from '@/lib/storage'
+import { withLock } from '@/lib/kv/lock'
+import { VERSIONS_DIR, isInternalPath } from './internal-paths'
+import { getContentType, isTextContentType } from './content-types'
+import { isVariantPath } from './image-paths'
+
+/**
+ * Per-file version history
+ * Every write of a text file, whichever route or tool made it, stores a
+ * numbered copy of the content under {tenantId}/.versions/{path}/{version}
+ * plus an index.json manifest. Manifest updates for a file are serialised
+ * with a Redis lock (and within the process), so concurrent saves can't
+ * lose each other's revisions.
+ */
+
+export interface FileRevision {
+  version: number
+  author: string | null
+  createdAt: string
+  size: number
+  contentType?: string
+}
+
+interface RevisionManifest {
+  path: string
+  revisions: FileRevision[]
+}
+
+function versionsFolder(tenantId: string, path: string): string {
+  return `${tenantId}/${VERSIONS_DIR}/${path}`
+}
+
+function manifestPath(tenantId: string, path: string): string {
+  return `${versionsFolder(tenantId, path)}/index.json`
+}
+
+function revisionPath(tenantId: string, path: string, version: number): string {
+  return `${versionsFolder(tenantId, path)}/${version}`
+}
+
+/**
+ * Run a manifest update while no other update of the same file's history runs
+ */
+function withManifestLock<T>(tenantId: string, path: string, update: () => Promise<T>): Promise<T> {
+  return withLock(`versions-lock:${tenantId}:${path}`, update)
+}
+
+/**
+ * List all revisions of a file, oldest first
+ */
+export async function listRevisions(tenantId: string, path: string): Promise<FileRevision[]> {
+  const raw = await getStorage().readText(manifestPath(tenantId, path))
+  if (!raw) {
+    return []
+  }
+  return (JSON.parse(raw) as RevisionManifest).revisions
+}
+
+/**
+ * Store a file that was just written as its next numbered revision
+ */
+export async function recordRevision(
+  tenantId: string,
+  path: string,
+  saved: StoredObject,
+  author: string | null
+): Promise<FileRevision> {
+  const storage = getStorage()
+
+  return withManifestLock(tenantId, path, async () => {
+    const revisions = await listRevisions(tenantId, path)
+
+    const revision: FileRevision = {
+      version: (revisions[revisions.length - 1]?.version || 0) + 1,
+      author,
+      createdAt: new Date().toISOString(),
+      size: saved.size,
+      contentType: saved.contentType
+    }
+
+    await storage.copy(saved.pathname, revisionPath(tenantId, path, revision.version))
+
+    const manifest: RevisionManifest = { path, revisions: [...revisions, revision] }
+    await storage.put(manifestPath(tenantId, path), JSON.stringify(manifest), {
+      contentType: 'application/json'
+    })
+
+    return revision
+  })
+}
+
+/**
+ * Record a revision for every text file among objects that were just written
+ * Binary files, image variants and internal folders have no history
+ * Returns the new revisions keyed by tenant-relative path
+ */
+export async function recordRevisions(
+  tenantId: string,
+  objects: StoredObject[],
+  author: string | null
+): Promise<Map<string, FileRevision>> {
+  const revisions = new Map<string, FileRevision>()
+
+  for (const object of objects) {
+    const path = object.pathname.substring(tenantId.length + 1)
+    const contentType = object.contentType || getContentType(path)
+    if (!path || isInternalPath(path) || isVariantPath(path) || !isTextContentType(contentType)) {
+      continue
+    }
+    revisions.set(path, await recordRevision(tenantId, path, object, author))
+  }
+
+  return revisions
+}
+
+/**
+ * Fetch a single revision with its text content, or null if it does not exist
+ */
+export async function getRevision(
+  tenantId: string,
+  path: string,
+  version: number
+): Promise<{ revision: FileRevision; content: string } | null> {
+  const revisions = await listRevisions(tenantId, path)
+  const revision = revisions.find(r => r.version === version)
+  if (!revision) {
+    return null
+  }
+
+  const content = await getStorage().readText(revisionPath(tenantId, path, version))
+  if (content === null) {
+    return null
+  }
+
+  return { revision, content }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { createZip, readZip, crc32, ZipFormatError, ZipLimitError, MAX_ZIP_ENTRIES, type ZipEntry } from './zip'
+
+const LIMITS = { maxEntries: 100, maxTotalSize: 1024 * 1024 }
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926)
+  })
+})
+
+describe('createZip and readZip', () => {
+  it('round-trip stored and deflated entries', () => {
+    const modifiedAt = new Date(2024, 4, 17, 10, 30, 12)
+    const entries: ZipEntry[] = [
+      { path: 'index.html', data: Buffer.from('<p>hello</p>'.repeat(50)), modifiedAt },
+      { path: 'images/logo.png', data: Buffer.from([0x89, 0x50, 0x4e, 0x47]), modifiedAt },
+      { path: 'blog/über.html', data: Buffer.from(''), modifiedAt }
+    ]
+
+    const read = readZip(createZip(entries), LIMITS)
+
+    expect(read.map(entry => entry.path)).toEqual(['index.html', 'images/logo.png', 'blog/über.html'])
+    read.forEach((entry, i) => {
+      expect(entry.data.equals(entries[i].data)).toBe(true)
+      expect(entry.modifiedAt).toEqual(modifiedAt)
+    })
+  })
+
+  it('compresses entries that shrink', () => {
+    const data = Buffer.from('a'.repeat(10000))
+    expect(createZip([{ path: 'a.txt', data }]).length).toBeLessThan(1000)
+  })
+})
+
+describe('createZip limits', () => {
+  it('refuses more entries than the format can hold', () => {
+    const entries = Array.from({ length: MAX_ZIP_ENTRIES + 1 }, (_, i) => ({ path: `${i}.txt`, data: Buffer.alloc(0) }))
+    expect(() => createZip(entries)).toThrow(ZipLimitError)
+  })
+})
+
+describe('readZip', () => {
+  const zip = createZip([
+    { path: 'a.html', data: Buffer.from('a'.repeat(600)) },
+    { path: 'b.html', data: Buffer.from('b'.repeat(600)) }
+  ])
+
+  it('rejects data that is not a zip', () => {
+    expect(() => readZip(Buffer.from('not a zip at all, just some text'), LIMITS)).toThrow(ZipFormatError)
+  })
+
+  it('enforces the entry and size limits', () => {
+    expect(() => readZip(zip, { ...LIMITS, maxEntries: 1 })).toThrow(/more than 1 entries/)
+    expect(() => readZip(zip, { ...LIMITS, maxTotalSize: 1000 })).toThrow(/more than 1000 bytes/)
+  })
+
+  it('rejects entries whose data runs past the end of the archive', () => {
+    const broken = Buffer.from(zip)
+    // Claim a compressed size far larger than the archive in the first central directory entry
+    const central = broken.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]))
+    broken.writeUInt32LE(0xfffff, central + 20)
+
+    expect(() => readZip(broken, LIMITS)).toThrow(/Corrupt entry: a.html/)
+  })
+
+  it('rejects entries with a wrong checksum', () => {
+    const broken = Buffer.from(zip)
+    const central = broken.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]))
+    broken.writeUInt32LE(0, central + 16)
+
+    expect(() => readZip(broken, LIMITS)).toThrow(/Corrupt entry: a.html/)
+  })
+})
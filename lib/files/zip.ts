@@ -0,0 +1,262 @@
+import { deflateRawSync, inflateRawSync } from 'zlib'
+
+/**
+ * Minimal zip archive reader and writer
+ * Entries are deflated unless that doesn't make them smaller. No zip64, so
+ * archives are limited to 65535 entries and 4 GB; createZip refuses anything
+ * bigger with a ZipLimitError instead of writing a broken archive.
+ */
+
+export interface ZipEntry {
+  path: string
+  data: Buffer
+  modifiedAt?: Date
+}
+
+export interface ReadZipOptions {
+  maxEntries: number
+  maxTotalSize: number // Uncompressed bytes, guards against zip bombs
+}
+
+/**
+ * Raised for archives that are corrupt, unsupported or over the limits
+ */
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ZipFormatError'
+  }
+}
+
+/**
+ * Raised when an archive would not fit the zip format without zip64
+ */
+export class ZipLimitError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ZipLimitError'
+  }
+}
+
+export const MAX_ZIP_ENTRIES = 0xffff
+export const MAX_ZIP_SIZE = 0xffffffff
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+
+const METHOD_STORE = 0
+const METHOD_DEFLATE = 8
+
+// General purpose flag bit 11: file names are UTF-8
+const FLAG_UTF8 = 0x0800
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time, as stored in zip headers
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980)
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+/**
+ * Build a zip archive from a list of files
+ */
+export function createZip(entries: ZipEntry[]): Buffer {
+  if (entries.length > MAX_ZIP_ENTRIES) {
+    throw new ZipLimitError(`Archives are limited to ${MAX_ZIP_ENTRIES} files`)
+  }
+
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.path, 'utf8')
+    if (entry.data.length > MAX_ZIP_SIZE) {
+      throw new ZipLimitError(`${entry.path} is larger than 4 GB`)
+    }
+    const deflated = deflateRawSync(entry.data)
+    const useDeflate = deflated.length < entry.data.length
+    const body = useDeflate ? deflated : entry.data
+    const method = useDeflate ? METHOD_DEFLATE : METHOD_STORE
+    const checksum = crc32(entry.data)
+    const { time, date } = dosDateTime(entry.modifiedAt || new Date())
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0)
+    local.writeUInt16LE(20, 4) // Version needed to extract
+    local.writeUInt16LE(FLAG_UTF8, 6)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt16LE(time, 10)
+    local.writeUInt16LE(date, 12)
+    local.writeUInt32LE(checksum, 14)
+    local.writeUInt32LE(body.length, 18)
+    local.writeUInt32LE(entry.data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28) // Extra field length
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0)
+    central.writeUInt16LE(20, 4) // Version made by
+    central.writeUInt16LE(20, 6) // Version needed to extract
+    central.writeUInt16LE(FLAG_UTF8, 8)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt16LE(time, 12)
+    central.writeUInt16LE(date, 14)
+    central.writeUInt32LE(checksum, 16)
+    central.writeUInt32LE(body.length, 20)
+    central.writeUInt32LE(entry.data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    // Extra field, comment, disk number and attributes stay zero
+    central.writeUInt32LE(offset, 42)
+
+    localParts.push(local, name, body)
+    centralParts.push(central, name)
+    offset += local.length + name.length + body.length
+
+    // Every offset, including where the central directory starts, must fit in 32 bits
+    if (offset > MAX_ZIP_SIZE) {
+      throw new ZipLimitError('Archives are limited to 4 GB')
+    }
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  if (offset + centralDirectory.length > MAX_ZIP_SIZE) {
+    throw new ZipLimitError('Archives are limited to 4 GB')
+  }
+
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0)
+  end.writeUInt16LE(entries.length, 8) // Entries on this disk
+  end.writeUInt16LE(entries.length, 10) // Total entries
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
+
+function findEndOfCentralDirectory(zip: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64 KB at the very end
+  const earliest = Math.max(0, zip.length - 22 - 0xffff)
+  for (let i = zip.length - 22; i >= earliest; i--) {
+    if (zip.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return i
+    }
+  }
+  throw new ZipFormatError('Not a zip archive')
+}
+
+/**
+ * Extract every file of a zip archive; directory entries are skipped
+ */
+export function readZip(zip: Buffer, options: ReadZipOptions): ZipEntry[] {
+  const end = findEndOfCentralDirectory(zip)
+  const count = zip.readUInt16LE(end + 10)
+  let position = zip.readUInt32LE(end + 16)
+
+  if (count > options.maxEntries) {
+    throw new ZipFormatError(`Archive has more than ${options.maxEntries} entries`)
+  }
+
+  const entries: ZipEntry[] = []
+  let totalSize = 0
+
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > zip.length || zip.readUInt32LE(position) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError('Corrupt central directory')
+    }
+
+    const flags = zip.readUInt16LE(position + 8)
+    const method = zip.readUInt16LE(position + 10)
+    const time = zip.readUInt16LE(position + 12)
+    const date = zip.readUInt16LE(position + 14)
+    const checksum = zip.readUInt32LE(position + 16)
+    const compressedSize = zip.readUInt32LE(position + 20)
+    const size = zip.readUInt32LE(position + 24)
+    const nameLength = zip.readUInt16LE(position + 28)
+    const extraLength = zip.readUInt16LE(position + 30)
+    const commentLength = zip.readUInt16LE(position + 32)
+    const localOffset = zip.readUInt32LE(position + 42)
+    if (position + 46 + nameLength > zip.length) {
+      throw new ZipFormatError('Corrupt central directory')
+    }
+    const name = zip.subarray(position + 46, position + 46 + nameLength)
+      .toString(flags & FLAG_UTF8 ? 'utf8' : 'latin1')
+
+    position += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue
+
+    if (flags & 0x1) {
+      throw new ZipFormatError(`Encrypted entries are not supported: ${name}`)
+    }
+
+    totalSize += size
+    if (totalSize > options.maxTotalSize) {
+      throw new ZipFormatError(`Archive expands to more than ${options.maxTotalSize} bytes`)
+    }
+
+    if (localOffset + 30 > zip.length || zip.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError(`Corrupt entry: ${name}`)
+    }
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28)
+    if (dataStart + compressedSize > zip.length) {
+      throw new ZipFormatError(`Corrupt entry: ${name}`)
+    }
+    const raw = zip.subarray(dataStart, dataStart + compressedSize)
+
+    let data: Buffer
+    if (method === METHOD_STORE) {
+      data = Buffer.from(raw)
+    } else if (method === METHOD_DEFLATE) {
+      try {
+        data = inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) })
+      } catch {
+        throw new ZipFormatError(`Corrupt entry: ${name}`)
+      }
+    } else {
+      throw new ZipFormatError(`Unsupported compression method ${method}: ${name}`)
+    }
+
+    if (data.length !== size || crc32(data) !== checksum) {
+      throw new ZipFormatError(`Corrupt entry: ${name}`)
+    }
+
+    entries.push({ path: name, data, modifiedAt: fromDosDateTime(time, date) })
+  }
+
+  return entries
+}
+
+function fromDosDateTime(time: number, date: number): Date {
+  return new Date(
+    (date >> 9) + 1980,
+    ((date >> 5) & 0xf) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  )
+}
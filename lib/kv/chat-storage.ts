@@ -1,5 +1,6 @@
 import { kv } from '@vercel/kv'
 import { getRedisClient } from './redis-client'
+import type { FileSnapshot } from '@/lib/ai/operation-log'
 
 export interface ChatMessage {
   id: string
@@ -11,11 +12,16 @@ export interface ChatMessage {
 
 export interface PageOperation {
   id: string
-  type: 'create' | 'update' | 'delete'
+  type: 'create' | 'update' | 'delete' | 'rename'
   target: string
   changes: any
   timestamp: Date
   revertible: boolean
+  tool?: string
+  messageId?: string // Assistant message that performed the operation
+  snapshots?: FileSnapshot[] // Before-state of every file the operation touched
+  trashId?: string // Trash entry holding files removed by a delete
+  revertedAt?: Date
 }
 
 export class ChatStorage {
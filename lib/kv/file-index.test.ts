@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { StoredObject } from '@/lib/storage'
+import { getRedisClient } from './redis-client'
+import { indexObjects, unindexPaths, getIndexedFiles } from './file-index'
+
+vi.mock('./redis-client', () => ({ getRedisClient: vi.fn() }))
+vi.mock('@/lib/files/publish', () => ({
+  getPublishRecords: vi.fn(async () => ({})),
+  resolvePublishRecord: vi.fn(() => ({ status: 'published' })),
+  isLive: vi.fn(() => true)
+}))
+
+const TENANT = 'tenant-1'
+
+function fakeClient() {
+  const values = new Map<string, string>()
+  return {
+    values,
+    exists: vi.fn(async (key: string) => values.has(key) ? 1 : 0),
+    hSet: vi.fn(async () => 1),
+    hDel: vi.fn(async () => 1),
+    hGetAll: vi.fn(async () => ({})),
+    del: vi.fn(async (keys: string | string[]) => {
+      for (const key of [keys].flat()) values.delete(key)
+      return 1
+    })
+  }
+}
+
+const object: StoredObject = {
+  pathname: `${TENANT}/about.html`,
+  url: 'https://example.com/about.html',
+  size: 10,
+  uploadedAt: new Date(),
+  contentType: 'text/html'
+}
+
+describe('file index', () => {
+  let client: ReturnType<typeof fakeClient>
+
+  beforeEach(() => {
+    client = fakeClient()
+    client.values.set(`files:${TENANT}:built`, 'yes')
+    vi.mocked(getRedisClient).mockResolvedValue(client as never)
+  })
+
+  it('stays trusted after a successful update', async () => {
+    await indexObjects(TENANT, [object], 'user-1')
+
+    expect(client.hSet).toHaveBeenCalled()
+    expect(await getIndexedFiles(TENANT)).toEqual([])
+  })
+
+  it('is no longer trusted after a failed update', async () => {
+    client.hSet.mockRejectedValueOnce(new Error('connection lost'))
+
+    await indexObjects(TENANT, [object], 'user-1')
+
+    expect(client.del).toHaveBeenCalledWith(`files:${TENANT}:built`)
+    expect(await getIndexedFiles(TENANT)).toBeNull()
+  })
+
+  it('is no longer trusted after a failed removal', async () => {
+    client.hDel.mockRejectedValueOnce(new Error('connection lost'))
+
+    await unindexPaths(TENANT, ['about.html'])
+
+    expect(await getIndexedFiles(TENANT)).toBeNull()
+  })
+})
@@ -0,0 +1,233 @@
+import { getRedisClient } from './redis-client'
+import { getStorage, listAll, type StoredObject } from '@/lib/storage'
+import { isInternalPath } from '@/lib/files/internal-paths'
+import { isVariantPath } from '@/lib/files/image-paths'
+import { getPublishRecords, resolvePublishRecord, isLive, type PublishRecord } from '@/lib/files/publish'
+import { logger } from '@/lib/utils/logger'
+
+/**
+ * Per-tenant file metadata index
+ * A Redis hash per tenant maps each tenant-relative path to its metadata so
+ * listings don't have to enumerate blob storage. Every file mutation updates
+ * the index; when Redis is unavailable, the index was never built or an
+ * update to it failed, callers fall back to listing storage and rebuild it.
+ */
+
+export interface FileMetadata {
+  path: string
+  url: string
+  size: number
+  contentType?: string
+  updatedAt: string
+  updatedBy: string | null
+  published: boolean
+}
+
+function indexKey(tenantId: string): string {
+  return `files:${tenantId}`
+}
+
+// Set once a full rebuild has completed, so a partial index is never trusted
+function builtKey(tenantId: string): string {
+  return `files:${tenantId}:built`
+}
+
+async function getClient() {
+  try {
+    return await getRedisClient()
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Stop trusting a tenant's index after an update to it failed
+ * The next read then falls back to storage and rebuilds it
+ */
+async function invalidateIndex(tenantId: string): Promise<void> {
+  try {
+    const client = await getClient()
+    if (client) {
+      await client.del(builtKey(tenantId))
+    }
+  } catch (error) {
+    logger.error('File index invalidation failed:', error)
+  }
+}
+
+function relativePathOf(tenantId: string, pathname: string): string {
+  return pathname.startsWith(`${tenantId}/`) ? pathname.substring(tenantId.length + 1) : pathname
+}
+
+// Skip internal folders, image variants and hidden files such as folder notes
+function isIndexable(relativePath: string): boolean {
+  const fileName = relativePath.split('/').pop() || ''
+  return !!relativePath && !fileName.startsWith('.') && !isInternalPath(relativePath) && !isVariantPath(relativePath)
+}
+
+function toMetadata(
+  tenantId: string,
+  object: StoredObject,
+  updatedBy: string | null,
+  publishRecords: Record<string, PublishRecord>
+): FileMetadata {
+  const path = relativePathOf(tenantId, object.pathname)
+  return {
+    path,
+    url: object.url,
+    size: object.size,
+    contentType: object.contentType,
+    updatedAt: new Date(object.uploadedAt).toISOString(),
+    updatedBy,
+    published: isLive(resolvePublishRecord(publishRecords, path))
+  }
+}
+
+/**
+ * Add or update index entries for objects that were just written
+ */
+export async function indexObjects(
+  tenantId: string,
+  objects: StoredObject[],
+  updatedBy: string | null
+): Promise<void> {
+  if (objects.length === 0) return
+
+  try {
+    const publishRecords = await getPublishRecords(tenantId)
+    const entries = objects
+      .map(object => toMetadata(tenantId, object, updatedBy, publishRecords))
+      .filter(entry => isIndexable(entry.path))
+
+    if (entries.length === 0) return
+
+    const client = await getClient()
+    if (!client) return
+
+    await client.hSet(
+      indexKey(tenantId),
+      Object.fromEntries(entries.map(entry => [entry.path, JSON.stringify(entry)]))
+    )
+  } catch (error) {
+    logger.error('File index update failed:', error)
+    await invalidateIndex(tenantId)
+  }
+}
+
+/**
+ * Remove index entries for objects that were just deleted
+ * Accepts full pathnames or tenant-relative paths
+ */
+export async function unindexPaths(tenantId: string, pathnames: string[]): Promise<void> {
+  const paths = pathnames.map(pathname => relativePathOf(tenantId, pathname)).filter(isIndexable)
+
+  if (paths.length === 0) return
+
+  try {
+    const client = await getClient()
+    if (!client) return
+
+    await client.hDel(indexKey(tenantId), paths)
+  } catch (error) {
+    logger.error('File index removal failed:', error)
+    await invalidateIndex(tenantId)
+  }
+}
+
+/**
+ * Recompute the published flag of indexed files after their publish state changed
+ * Paths that are not indexed are left alone
+ */
+export async function refreshPublishedFlags(tenantId: string, paths: string[]): Promise<void> {
+  if (paths.length === 0) return
+
+  try {
+    const client = await getClient()
+    if (!client) return
+
+    const publishRecords = await getPublishRecords(tenantId)
+    const values = await client.hmGet(indexKey(tenantId), paths)
+    const updates: Record<string, string> = {}
+
+    values.forEach((value, i) => {
+      if (!value) return
+      const entry = JSON.parse(value) as FileMetadata
+      entry.published = isLive(resolvePublishRecord(publishRecords, paths[i]))
+      updates[entry.path] = JSON.stringify(entry)
+    })
+
+    if (Object.keys(updates).length > 0) {
+      await client.hSet(indexKey(tenantId), updates)
+    }
+  } catch (error) {
+    logger.error('File index publish update failed:', error)
+    await invalidateIndex(tenantId)
+  }
+}
+
+/**
+ * Read every indexed file for a tenant
+ * Returns null when Redis is unavailable or the index has not been built yet
+ */
+export async function getIndexedFiles(tenantId: string): Promise<FileMetadata[] | null> {
+  try {
+    const client = await getClient()
+    if (!client || !(await client.exists(builtKey(tenantId)))) {
+      return null
+    }
+
+    const raw = await client.hGetAll(indexKey(tenantId))
+    return Object.values(raw)
+      .map(value => JSON.parse(value) as FileMetadata)
+      // Indexes built before image variants were excluded may still hold them
+      .filter(entry => isIndexable(entry.path))
+      .sort((a, b) => a.path.localeCompare(b.path))
+  } catch (error) {
+    logger.error('File index read failed:', error)
+    return null
+  }
+}
+
+/**
+ * Rebuild a tenant's index from storage, keeping known authors
+ * Returns the fresh entries, so it doubles as the fallback listing when Redis is down
+ */
+export async function rebuildIndex(tenantId: string): Promise<FileMetadata[]> {
+  const objects = await listAll(getStorage(), `${tenantId}/`)
+  const previous = new Map((await getIndexedFiles(tenantId) || []).map(entry => [entry.path, entry]))
+  const publishRecords = await getPublishRecords(tenantId)
+
+  const entries = objects
+    .map(object => {
+      const path = relativePathOf(tenantId, object.pathname)
+      return toMetadata(tenantId, object, previous.get(path)?.updatedBy ?? null, publishRecords)
+    })
+    .filter(entry => isIndexable(entry.path))
+
+  try {
+    const client = await getClient()
+    if (client) {
+      // Untrusted until every entry is written
+      await client.del([builtKey(tenantId), indexKey(tenantId)])
+      if (entries.length > 0) {
+        await client.hSet(
+          indexKey(tenantId),
+          Object.fromEntries(entries.map(entry => [entry.path, JSON.stringify(entry)]))
+        )
+      }
+      await client.set(builtKey(tenantId), new Date().toISOString())
+    }
+  } catch (error) {
+    logger.error('File index rebuild failed:', error)
+    await invalidateIndex(tenantId)
+  }
+
+  return entries
+}
+
+/**
+ * Indexed files for a tenant, building the index on first use
+ */
+export async function listIndexedFiles(tenantId: string): Promise<FileMetadata[]> {
+  return (await getIndexedFiles(tenantId)) || rebuildIndex(tenantId)
+}
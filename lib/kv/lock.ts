@@ -0,0 +1,65 @@
+import { randomUUID } from 'crypto'
+import { getRedisClient } from './redis-client'
+
+/**
+ * Mutual exclusion for read-modify-write updates of shared manifests
+ * Updates under the same key run one at a time within the process, and a
+ * Redis lock keeps other instances out while one runs. Without Redis only
+ * the in-process queue applies.
+ */
+
+// Longest an update may hold the lock, and how long others wait for it
+const LOCK_TTL_MS = 10000
+const LOCK_RETRY_MS = 50
+
+// Deletes the lock only if it still holds our token, so an expired lock taken over by someone else survives
+const RELEASE_LOCK_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end`
+
+const localLocks = new Map<string, Promise<unknown>>()
+
+async function getClient() {
+  try {
+    return await getRedisClient()
+  } catch {
+    return null
+  }
+}
+
+async function withRedisLock<T>(key: string, update: () => Promise<T>): Promise<T> {
+  const client = await getClient()
+  if (!client) {
+    return update()
+  }
+
+  const token = randomUUID()
+  const deadline = Date.now() + LOCK_TTL_MS
+  while (await client.set(key, token, { NX: true, PX: LOCK_TTL_MS }) !== 'OK') {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for the lock on ${key}`)
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS))
+  }
+
+  try {
+    return await update()
+  } finally {
+    await client.eval(RELEASE_LOCK_SCRIPT, { keys: [key], arguments: [token] })
+  }
+}
+
+/**
+ * Run an update while no other update holding the same key runs
+ */
+export async function withLock<T>(key: string, update: () => Promise<T>): Promise<T> {
+  const previous = localLocks.get(key) || Promise.resolve()
+  const run = previous.catch(() => undefined).then(() => withRedisLock(key, update))
+  localLocks.set(key, run)
+
+  try {
+    return await run
+  } finally {
+    if (localLocks.get(key) === run) {
+      localLocks.delete(key)
+    }
+  }
+}
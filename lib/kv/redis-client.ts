@@ -3,6 +3,10 @@ import { createClient } from 'redis'
 let redisClient: ReturnType<typeof createClient> | null = null
 let connectionPromise: Promise<void> | null = null
 
+export function hasRedisUrl(): boolean {
+  return !!(process.env.REDIS_URL || process.env.KV_URL || process.env.KV_REST_API_URL)
+}
+
 export async function getRedisClient() {
   // If already connected, return the client
   if (redisClient && redisClient.isOpen) {
@@ -0,0 +1,76 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getStorage, type StoredObject } from '@/lib/storage'
+import { getRedisClient } from './redis-client'
+import { indexSearchDocuments, removeSearchDocuments, getSearchDocuments } from './search-index'
+
+vi.mock('./redis-client', () => ({ getRedisClient: vi.fn() }))
+
+const TENANT = 'tenant-1'
+const storageDir = mkdtempSync(join(tmpdir(), 'search-index-test-'))
+let page: StoredObject
+
+beforeAll(async () => {
+  process.env.STORAGE_DRIVER = 'local'
+  process.env.LOCAL_STORAGE_DIR = storageDir
+  page = await getStorage().put(`${TENANT}/about.html`, '<title>About</title><p>Hello</p>', { contentType: 'text/html' })
+})
+
+afterAll(() => {
+  rmSync(storageDir, { recursive: true, force: true })
+})
+
+function fakeClient() {
+  const values = new Map<string, string>()
+  return {
+    values,
+    exists: vi.fn(async (key: string) => values.has(key) ? 1 : 0),
+    set: vi.fn(async (key: string, value: string) => {
+      values.set(key, value)
+      return 'OK'
+    }),
+    hSet: vi.fn(async () => 1),
+    hDel: vi.fn(async () => 1),
+    hGetAll: vi.fn(async () => ({})),
+    del: vi.fn(async (keys: string | string[]) => {
+      for (const key of [keys].flat()) values.delete(key)
+      return 1
+    })
+  }
+}
+
+describe('search index', () => {
+  let client: ReturnType<typeof fakeClient>
+
+  beforeEach(() => {
+    client = fakeClient()
+    client.values.set(`search:${TENANT}:built`, 'yes')
+    vi.mocked(getRedisClient).mockResolvedValue(client as never)
+  })
+
+  it('stays trusted after a successful update', async () => {
+    await indexSearchDocuments(TENANT, [page])
+
+    expect(client.hSet).toHaveBeenCalled()
+    expect(await getSearchDocuments(TENANT)).toEqual([])
+  })
+
+  it('is rebuilt after a failed update', async () => {
+    client.hSet.mockRejectedValueOnce(new Error('connection lost'))
+
+    await indexSearchDocuments(TENANT, [page])
+
+    expect(client.values.has(`search:${TENANT}:built`)).toBe(false)
+    expect((await getSearchDocuments(TENANT)).map(doc => doc.path)).toEqual(['about.html'])
+  })
+
+  it('is rebuilt after a failed removal', async () => {
+    client.hDel.mockRejectedValueOnce(new Error('connection lost'))
+
+    await removeSearchDocuments(TENANT, ['about.html'])
+
+    expect(client.values.has(`search:${TENANT}:built`)).toBe(false)
+  })
+})
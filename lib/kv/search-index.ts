@@ -0,0 +1,159 @@
+import { getRedisClient } from './redis-client'
+import { getStorage, listAll, type StoredObject } from '@/lib/storage'
+import { isInternalPath } from '@/lib/files/internal-paths'
+import { isVariantPath } from '@/lib/files/image-paths'
+import { extractSearchDocument, isSearchable, type SearchDocument } from '@/lib/files/search'
+import { logger } from '@/lib/utils/logger'
+
+/**
+ * Per-tenant full-text search index
+ * A Redis hash per tenant maps each searchable page to its extracted search
+ * document. Without Redis the documents are extracted from storage per query;
+ * when an update to the index fails, the next query rebuilds it.
+ */
+
+function indexKey(tenantId: string): string {
+  return `search:${tenantId}`
+}
+
+function builtKey(tenantId: string): string {
+  return `search:${tenantId}:built`
+}
+
+async function getClient() {
+  try {
+    return await getRedisClient()
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Stop trusting a tenant's index after an update to it failed
+ * The next query then rebuilds it from storage
+ */
+async function invalidateIndex(tenantId: string): Promise<void> {
+  try {
+    const client = await getClient()
+    if (client) {
+      await client.del(builtKey(tenantId))
+    }
+  } catch (error) {
+    logger.error('Search index invalidation failed:', error)
+  }
+}
+
+function relativePathOf(tenantId: string, pathname: string): string {
+  return pathname.startsWith(`${tenantId}/`) ? pathname.substring(tenantId.length + 1) : pathname
+}
+
+function isIndexable(relativePath: string): boolean {
+  const fileName = relativePath.split('/').pop() || ''
+  return isSearchable(relativePath) && !fileName.startsWith('.') && !isInternalPath(relativePath) && !isVariantPath(relativePath)
+}
+
+async function buildDocument(tenantId: string, object: StoredObject): Promise<SearchDocument | null> {
+  const content = await getStorage().readText(object.pathname)
+  if (content === null) {
+    return null
+  }
+  return extractSearchDocument(
+    relativePathOf(tenantId, object.pathname),
+    content,
+    new Date(object.uploadedAt).toISOString()
+  )
+}
+
+/**
+ * Re-extract search documents for pages that were just written
+ */
+export async function indexSearchDocuments(tenantId: string, objects: StoredObject[]): Promise<void> {
+  const searchable = objects.filter(object => isIndexable(relativePathOf(tenantId, object.pathname)))
+  if (searchable.length === 0) return
+
+  try {
+    const client = await getClient()
+    if (!client) return
+
+    const documents = (await Promise.all(searchable.map(object => buildDocument(tenantId, object))))
+      .filter((doc): doc is SearchDocument => doc !== null)
+    if (documents.length === 0) return
+
+    await client.hSet(
+      indexKey(tenantId),
+      Object.fromEntries(documents.map(doc => [doc.path, JSON.stringify(doc)]))
+    )
+  } catch (error) {
+    logger.error('Search index update failed:', error)
+    await invalidateIndex(tenantId)
+  }
+}
+
+/**
+ * Drop search documents for pages that were just deleted
+ */
+export async function removeSearchDocuments(tenantId: string, pathnames: string[]): Promise<void> {
+  const paths = pathnames.map(pathname => relativePathOf(tenantId, pathname)).filter(isIndexable)
+  if (paths.length === 0) return
+
+  try {
+    const client = await getClient()
+    if (!client) return
+
+    await client.hDel(indexKey(tenantId), paths)
+  } catch (error) {
+    logger.error('Search index removal failed:', error)
+    await invalidateIndex(tenantId)
+  }
+}
+
+/**
+ * Extract every searchable page from storage and store the documents when Redis is available
+ */
+export async function rebuildSearchIndex(tenantId: string): Promise<SearchDocument[]> {
+  const objects = (await listAll(getStorage(), `${tenantId}/`))
+    .filter(object => isIndexable(relativePathOf(tenantId, object.pathname)))
+
+  const documents: SearchDocument[] = []
+  for (const object of objects) {
+    const doc = await buildDocument(tenantId, object)
+    if (doc) documents.push(doc)
+  }
+
+  try {
+    const client = await getClient()
+    if (client) {
+      // Untrusted until every document is written
+      await client.del([builtKey(tenantId), indexKey(tenantId)])
+      if (documents.length > 0) {
+        await client.hSet(
+          indexKey(tenantId),
+          Object.fromEntries(documents.map(doc => [doc.path, JSON.stringify(doc)]))
+        )
+      }
+      await client.set(builtKey(tenantId), new Date().toISOString())
+    }
+  } catch (error) {
+    logger.error('Search index rebuild failed:', error)
+    await invalidateIndex(tenantId)
+  }
+
+  return documents
+}
+
+/**
+ * All search documents for a tenant, building the index on first use
+ */
+export async function getSearchDocuments(tenantId: string): Promise<SearchDocument[]> {
+  try {
+    const client = await getClient()
+    if (client && await client.exists(builtKey(tenantId))) {
+      const raw = await client.hGetAll(indexKey(tenantId))
+      return Object.values(raw).map(value => JSON.parse(value) as SearchDocument)
+    }
+  } catch (error) {
+    logger.error('Search index read failed:', error)
+  }
+
+  return rebuildSearchIndex(tenantId)
+}
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { classifySiteHost, sitePageUrl, siteBases } from './hosts'
+
+beforeEach(() => {
+  vi.stubEnv('SITE_ROOT_DOMAIN', 'sites.example.com')
+  vi.stubEnv('APP_HOSTNAMES', 'builder.example.com, app.example.org')
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('classifySiteHost', () => {
+  it('serves {slug} subdomains of the site root', () => {
+    expect(classifySiteHost('acme.sites.example.com', false)).toEqual({ type: 'subdomain', slug: 'acme' })
+    expect(classifySiteHost('ACME.sites.example.com:443', false)).toEqual({ type: 'subdomain', slug: 'acme' })
+    expect(classifySiteHost('acme.sites.example.com.', false)).toEqual({ type: 'subdomain', slug: 'acme' })
+  })
+
+  it('ignores reserved, nested and invalid subdomains', () => {
+    expect(classifySiteHost('www.sites.example.com', false)).toBeNull()
+    expect(classifySiteHost('api.sites.example.com', false)).toBeNull()
+    expect(classifySiteHost('a.b.sites.example.com', false)).toBeNull()
+    expect(classifySiteHost('-acme.sites.example.com', false)).toBeNull()
+  })
+
+  it('treats the builder hosts as the builder', () => {
+    expect(classifySiteHost('sites.example.com', false)).toBeNull()
+    expect(classifySiteHost('builder.example.com', false)).toBeNull()
+    expect(classifySiteHost('app.example.org:3000', false)).toBeNull()
+    expect(classifySiteHost('localhost:3000', false)).toBeNull()
+    expect(classifySiteHost('127.0.0.1', false)).toBeNull()
+    expect(classifySiteHost(null, false)).toBeNull()
+  })
+
+  it('never treats gateway requests as a site', () => {
+    expect(classifySiteHost('acme.sites.example.com', true)).toBeNull()
+    expect(classifySiteHost('www.acme.com', true)).toBeNull()
+  })
+
+  it('serves any other host as a custom domain', () => {
+    expect(classifySiteHost('www.Acme.com', false)).toEqual({ type: 'custom-domain', domain: 'www.acme.com' })
+  })
+
+  it('serves no custom domains until the builder hosts are configured', () => {
+    vi.stubEnv('APP_HOSTNAMES', '')
+    expect(classifySiteHost('www.acme.com', false)).toBeNull()
+    expect(classifySiteHost('acme.sites.example.com', false)).toEqual({ type: 'subdomain', slug: 'acme' })
+  })
+})
+
+describe('sitePageUrl', () => {
+  it('prefers the custom domain', () => {
+    expect(sitePageUrl({ slug: 'acme', customDomain: 'www.acme.com' }, 'about.html'))
+      .toBe('https://www.acme.com/about.html')
+  })
+
+  it('falls back to the subdomain, then the builder path', () => {
+    expect(sitePageUrl({ slug: 'acme', customDomain: null }, 'about.html'))
+      .toBe('https://acme.sites.example.com/about.html')
+
+    vi.stubEnv('SITE_ROOT_DOMAIN', '')
+    vi.stubEnv('NODE_ENV', 'production')
+    expect(sitePageUrl({ slug: 'acme', customDomain: null }, 'about.html'))
+      .toBe('/page-builder/acme/about.html')
+  })
+})
+
+describe('siteBases', () => {
+  it('lists the public URL and the builder path of a site', () => {
+    expect(siteBases({ slug: 'acme', customDomain: null }))
+      .toEqual(['https://acme.sites.example.com/', '/acme/'])
+  })
+})
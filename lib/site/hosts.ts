@@ -0,0 +1,89 @@
+import { getApiUrl } from '@/lib/utils/api'
+
+/**
+ * Classify request hosts for site routing
+ * Kept free of server-only imports so middleware can use it
+ *
+ * - {slug}.{SITE_ROOT_DOMAIN} serves that tenant's site
+ * - when APP_HOSTNAMES lists the builder's own hosts, any other host serves the
+ *   tenant whose custom_domain matches
+ * - localhost, APP_HOSTNAMES and gateway-proxied requests are the builder itself
+ */
+
+export type SiteHost =
+  | { type: 'subdomain'; slug: string }
+  | { type: 'custom-domain'; domain: string }
+
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]']
+
+// Subdomains of the site root that are not tenant sites
+const RESERVED_SUBDOMAINS = ['www', 'app', 'api']
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]*$/
+
+function configuredList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+/**
+ * Work out which tenant site, if any, a request host refers to
+ */
+export function classifySiteHost(host: string | null, isProxied: boolean): SiteHost | null {
+  if (!host || isProxied) {
+    return null
+  }
+
+  const hostname = host.toLowerCase().replace(/:\d+$/, '').replace(/\.$/, '')
+  const appHostnames = configuredList(process.env.APP_HOSTNAMES)
+
+  if (LOCAL_HOSTNAMES.includes(hostname) || appHostnames.includes(hostname)) {
+    return null
+  }
+
+  const rootDomain = (process.env.SITE_ROOT_DOMAIN || '').toLowerCase()
+  if (rootDomain) {
+    if (hostname === rootDomain) {
+      return null
+    }
+    if (hostname.endsWith(`.${rootDomain}`)) {
+      const slug = hostname.slice(0, -(rootDomain.length + 1))
+      return SLUG_PATTERN.test(slug) && !RESERVED_SUBDOMAINS.includes(slug)
+        ? { type: 'subdomain', slug }
+        : null
+    }
+  }
+
+  // Without a list of our own hosts there is no telling custom domains apart
+  return appHostnames.length > 0 ? { type: 'custom-domain', domain: hostname } : null
+}
+
+/**
+ * Public URL of a page, preferring the tenant's custom domain, then its
+ * {slug}.{SITE_ROOT_DOMAIN} subdomain, then the /{slug}/ path on the builder
+ */
+export function sitePageUrl(
+  tenant: { slug: string; customDomain: string | null },
+  path: string
+): string {
+  if (tenant.customDomain) {
+    return `https://${tenant.customDomain}/${path}`
+  }
+
+  const rootDomain = (process.env.SITE_ROOT_DOMAIN || '').toLowerCase()
+  if (rootDomain) {
+    return `https://${tenant.slug}.${rootDomain}/${path}`
+  }
+
+  return getApiUrl(`/${tenant.slug}/${path}`)
+}
+
+/**
+ * URL prefixes a tenant's pages may link to each other with, besides "/"
+ * Used to tell internal links apart when exporting, checking or rewriting them
+ */
+export function siteBases(tenant: { slug: string; customDomain: string | null }): string[] {
+  return [sitePageUrl(tenant, ''), `/${tenant.slug}/`]
+}
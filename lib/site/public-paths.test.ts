@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { isPublicSitePath, isServablePath } from './public-paths'
+
+describe('isPublicSitePath', () => {
+  it('treats /{tenantSlug}/... as a public site', () => {
+    expect(isPublicSitePath('/acme')).toBe(true)
+    expect(isPublicSitePath('/acme/')).toBe(true)
+    expect(isPublicSitePath('/acme/blog/post.html')).toBe(true)
+    expect(isPublicSitePath('/Acme-2/index.html')).toBe(true)
+  })
+
+  it('leaves the builder itself alone', () => {
+    expect(isPublicSitePath('/')).toBe(false)
+    expect(isPublicSitePath('/api/files/list')).toBe(false)
+    expect(isPublicSitePath('/settings')).toBe(false)
+    expect(isPublicSitePath('/sites/example.com/')).toBe(false)
+    expect(isPublicSitePath('/_next/static/chunk.js')).toBe(false)
+    expect(isPublicSitePath('/favicon.ico')).toBe(false)
+  })
+
+  it('rejects first segments that cannot be slugs', () => {
+    expect(isPublicSitePath('/-acme/')).toBe(false)
+    expect(isPublicSitePath('/acme.com/')).toBe(false)
+    expect(isPublicSitePath('/acme_site/')).toBe(false)
+  })
+})
+
+describe('isServablePath', () => {
+  it('serves ordinary pages and assets', () => {
+    expect(isServablePath('')).toBe(true)
+    expect(isServablePath('index.html')).toBe(true)
+    expect(isServablePath('blog/post.html')).toBe(true)
+  })
+
+  it('never serves drafts or dot-folders', () => {
+    expect(isServablePath('unpublished/draft.html')).toBe(false)
+    expect(isServablePath('blog/unpublished/draft.html')).toBe(false)
+    expect(isServablePath('.versions/index.html/1')).toBe(false)
+    expect(isServablePath('.trash/index.json')).toBe(false)
+    expect(isServablePath('blog/.notes')).toBe(false)
+  })
+})
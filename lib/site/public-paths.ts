@@ -0,0 +1,26 @@
+/**
+ * Path rules for the public site served at /{tenantSlug}/{path}
+ * Kept free of server-only imports so middleware can use it
+ */
+
+// First path segments that belong to the builder itself, never to a tenant site
+export const RESERVED_SEGMENTS = ['api', 'settings', 'sites', '_next', 'favicon.ico']
+
+const TENANT_SLUG_PATTERN = /^[a-z0-9][a-z0-9-]*$/i
+
+/**
+ * Whether a request path is a public site page rather than part of the builder
+ */
+export function isPublicSitePath(pathname: string): boolean {
+  const firstSegment = pathname.split('/').filter(Boolean)[0]
+  return !!firstSegment && !RESERVED_SEGMENTS.includes(firstSegment) && TENANT_SLUG_PATTERN.test(firstSegment)
+}
+
+/**
+ * Whether a tenant-relative path may ever be served publicly
+ * Drafts under unpublished/ and dotfiles or dot-folders (notes, versions, trash) never are
+ */
+export function isServablePath(relativePath: string): boolean {
+  const segments = relativePath.split('/').filter(Boolean)
+  return segments.every(segment => segment !== 'unpublished' && !segment.startsWith('.'))
+}
@@ -0,0 +1,73 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { getStorage } from '@/lib/storage'
+import { setPublishState } from '@/lib/files/publish'
+import { resolveSitePath, isPublicSiteFile, siteFileHeaders } from './serve'
+
+// sitemap.xml and robots.txt need the tenant database; they have tests of their own
+vi.mock('@/lib/files/seo', () => ({ readGeneratedSiteFile: vi.fn(async () => null) }))
+
+const TENANT = 'tenant-1'
+const storageDir = mkdtempSync(join(tmpdir(), 'serve-test-'))
+
+beforeAll(async () => {
+  process.env.STORAGE_DRIVER = 'local'
+  process.env.LOCAL_STORAGE_DIR = storageDir
+
+  const storage = getStorage()
+  const pages = ['index.html', 'about.html', 'blog/index.html', 'blog/post.html', 'draft.html', 'logo.png']
+  for (const page of pages) {
+    await storage.put(`${TENANT}/${page}`, page, {})
+  }
+  for (const page of pages.filter(page => page !== 'draft.html')) {
+    await setPublishState(TENANT, page, { status: 'published' }, 'user-1')
+  }
+  await setPublishState(TENANT, 'draft.html', { status: 'draft' }, 'user-1')
+})
+
+afterAll(() => {
+  rmSync(storageDir, { recursive: true, force: true })
+})
+
+describe('resolveSitePath', () => {
+  it('serves the index of the site root and of folders', async () => {
+    expect(await resolveSitePath(TENANT, '')).toMatchObject({ type: 'file', path: 'index.html' })
+    expect(await resolveSitePath(TENANT, 'blog/')).toMatchObject({ type: 'file', path: 'blog/index.html' })
+  })
+
+  it('redirects folders without a trailing slash', async () => {
+    expect(await resolveSitePath(TENANT, 'blog')).toEqual({ type: 'redirect', path: 'blog/' })
+  })
+
+  it('serves exact paths and falls back to .html', async () => {
+    expect(await resolveSitePath(TENANT, 'blog/post.html')).toMatchObject({ type: 'file', path: 'blog/post.html' })
+    expect(await resolveSitePath(TENANT, 'about')).toMatchObject({ type: 'file', path: 'about.html' })
+    expect(await resolveSitePath(TENANT, 'logo.png')).toMatchObject({ type: 'file', path: 'logo.png' })
+  })
+
+  it('treats drafts, missing files and internal folders as missing', async () => {
+    expect(await resolveSitePath(TENANT, 'draft.html')).toEqual({ type: 'not-found' })
+    expect(await resolveSitePath(TENANT, 'draft')).toEqual({ type: 'not-found' })
+    expect(await resolveSitePath(TENANT, 'missing.html')).toEqual({ type: 'not-found' })
+    expect(await resolveSitePath(TENANT, '.publish/index.json')).toEqual({ type: 'not-found' })
+  })
+})
+
+describe('isPublicSiteFile', () => {
+  it('only accepts live, servable files', async () => {
+    expect(await isPublicSiteFile(TENANT, 'logo.png')).toBe(true)
+    expect(await isPublicSiteFile(TENANT, 'draft.html')).toBe(false)
+    expect(await isPublicSiteFile(TENANT, '.publish/index.json')).toBe(false)
+  })
+})
+
+describe('siteFileHeaders', () => {
+  it('sandboxes files that share the builder origin', async () => {
+    const file = (await getStorage().read(`${TENANT}/index.html`))!
+
+    expect(siteFileHeaders('index.html', file, true)['Content-Security-Policy']).toMatch(/^sandbox allow-scripts/)
+    expect(siteFileHeaders('index.html', file)).not.toHaveProperty('Content-Security-Policy')
+  })
+})
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage, type ObjectContent } from '@/lib/storage'
+import { getContentType } from '@/lib/files/content-types'
+import { computeETag } from '@/lib/files/etag'
+import { getPublishRecords, resolvePublishRecord, isLive } from '@/lib/files/publish'
+import { readGeneratedSiteFile } from '@/lib/files/seo'
+import { isServablePath } from './public-paths'
+
+/**
+ * Resolution and caching rules for serving published files
+ */
+
+export type SiteResolution =
+  | { type: 'file'; path: string; file: ObjectContent }
+  | { type: 'redirect'; path: string }
+  | { type: 'not-found' }
+
+// HTML changes whenever someone publishes, so browsers revalidate while the CDN keeps a short copy
+const HTML_CACHE_CONTROL = 'public, max-age=0, s-maxage=300, stale-while-revalidate=86400'
+const ASSET_CACHE_CONTROL = 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800'
+const NOT_FOUND_CACHE_CONTROL = 'public, max-age=0, s-maxage=60'
+
+// Sites served under /{slug}/ share the builder's origin, so their pages and SVGs
+// run in an opaque origin that can't read the builder's cookies or call its API
+export const SITE_SANDBOX_POLICY = 'sandbox allow-scripts allow-forms allow-popups allow-popups-to-escape-sandbox allow-modals allow-downloads'
+
+/**
+ * Map a requested site path to a stored file
+ * - "" and "folder/" serve the folder's index.html
+ * - "folder" redirects to "folder/" when it has an index.html, so relative links work
+ * - "about" falls back to "about.html"
+ * - "sitemap.xml" and "robots.txt" fall back to the generated ones
+ * Files that are drafts or not yet due are treated as missing
+ */
+export async function resolveSitePath(tenantId: string, requestPath: string): Promise<SiteResolution> {
+  const path = requestPath.replace(/^\/+/, '')
+
+  if (!isServablePath(path)) {
+    return { type: 'not-found' }
+  }
+
+  const records = await getPublishRecords(tenantId)
+  const isPublished = (relativePath: string) => isLive(resolvePublishRecord(records, relativePath))
+
+  const read = async (relativePath: string) =>
+    isPublished(relativePath) ? getStorage().read(`${tenantId}/${relativePath}`) : null
+
+  if (path === '' || path.endsWith('/')) {
+    const indexPath = `${path}index.html`
+    const file = await read(indexPath)
+    return file ? { type: 'file', path: indexPath, file } : { type: 'not-found' }
+  }
+
+  const exact = await read(path)
+  if (exact) {
+    return { type: 'file', path, file: exact }
+  }
+
+  const generated = await readGeneratedSiteFile(tenantId, path)
+  if (generated) {
+    return { type: 'file', path, file: generated }
+  }
+
+  if (isPublished(`${path}/index.html`) && await getStorage().head(`${tenantId}/${path}/index.html`)) {
+    return { type: 'redirect', path: `${path}/` }
+  }
+
+  if (!/\.[a-z0-9]+$/i.test(path)) {
+    const htmlPath = `${path}.html`
+    const html = await read(htmlPath)
+    if (html) {
+      return { type: 'file', path: htmlPath, file: html }
+    }
+  }
+
+  return { type: 'not-found' }
+}
+
+/**
+ * Whether a single stored file is live on the tenant's public site
+ */
+export async function isPublicSiteFile(tenantId: string, relativePath: string): Promise<boolean> {
+  if (!isServablePath(relativePath)) {
+    return false
+  }
+  const records = await getPublishRecords(tenantId)
+  return isLive(resolvePublishRecord(records, relativePath))
+}
+
+/**
+ * Response headers for a served file
+ * `sandboxed` is set when the site shares the builder's origin
+ */
+export function siteFileHeaders(path: string, file: ObjectContent, sandboxed = false): Record<string, string> {
+  const contentType = file.object.contentType || getContentType(path)
+  const isHtml = contentType.startsWith('text/html')
+
+  const headers: Record<string, string> = {
+    'Content-Type': contentType.includes('charset') || !contentType.startsWith('text/')
+      ? contentType
+      : `${contentType}; charset=utf-8`,
+    'Cache-Control': isHtml ? HTML_CACHE_CONTROL : ASSET_CACHE_CONTROL,
+    'ETag': computeETag(file.body),
+    'Last-Modified': new Date(file.object.uploadedAt).toUTCString(),
+    'X-Content-Type-Options': 'nosniff'
+  }
+  if (sandboxed) {
+    headers['Content-Security-Policy'] = SITE_SANDBOX_POLICY
+  }
+  return headers
+}
+
+export function siteNotFound(): NextResponse {
+  return new NextResponse('Not found', {
+    status: 404,
+    headers: {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': NOT_FOUND_CACHE_CONTROL
+    }
+  })
+}
+
+/**
+ * Serve a path of a tenant's site
+ * `siteRoot` is the public URL prefix of the site ("/" on its own domain,
+ * "/{slug}/" on the builder host) and is used for folder redirects; files
+ * served under the builder host are sandboxed
+ */
+export async function serveSite(
+  request: NextRequest,
+  tenantId: string,
+  requestPath: string,
+  siteRoot: string
+): Promise<NextResponse> {
+  const resolution = await resolveSitePath(tenantId, requestPath)
+
+  if (resolution.type === 'redirect') {
+    const url = request.nextUrl.clone()
+    url.pathname = `${siteRoot}${resolution.path}`
+    return NextResponse.redirect(url, 308)
+  }
+
+  if (resolution.type === 'not-found') {
+    return siteNotFound()
+  }
+
+  const headers = siteFileHeaders(resolution.path, resolution.file, siteRoot !== '/')
+
+  if (request.headers.get('if-none-match') === headers['ETag']) {
+    return new NextResponse(null, { status: 304, headers })
+  }
+
+  return new NextResponse(resolution.file.body, { status: 200, headers })
+}
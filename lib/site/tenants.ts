@@ -0,0 +1,104 @@
+import { createClient } from '@/lib/supabase/server'
+import { getRedisClient } from '@/lib/kv/redis-client'
+import { logger } from '@/lib/utils/logger'
+
+/**
+ * Tenant lookups for the public site
+ * Every page view needs one, so results (including misses) are cached in
+ * Redis for a few minutes, or in memory when Redis is not configured
+ */
+
+export interface SiteTenant {
+  id: string
+  slug: string
+  customDomain: string | null
+}
+
+const CACHE_TTL_SECONDS = 300
+
+const memoryCache = new Map<string, { tenant: SiteTenant | null; expiresAt: number }>()
+
+async function getClient() {
+  try {
+    return await getRedisClient()
+  } catch {
+    return null
+  }
+}
+
+async function cached(
+  key: string,
+  load: () => Promise<SiteTenant | null>
+): Promise<SiteTenant | null> {
+  const client = await getClient()
+
+  if (client) {
+    try {
+      const hit = await client.get(key)
+      if (hit !== null) {
+        return JSON.parse(hit) as SiteTenant | null
+      }
+    } catch (error) {
+      logger.error('Tenant cache read failed:', error)
+    }
+  } else {
+    const hit = memoryCache.get(key)
+    if (hit && hit.expiresAt > Date.now()) {
+      return hit.tenant
+    }
+  }
+
+  const tenant = await load()
+
+  if (client) {
+    try {
+      await client.set(key, JSON.stringify(tenant), { EX: CACHE_TTL_SECONDS })
+    } catch (error) {
+      logger.error('Tenant cache write failed:', error)
+    }
+  } else {
+    memoryCache.set(key, { tenant, expiresAt: Date.now() + CACHE_TTL_SECONDS * 1000 })
+  }
+
+  return tenant
+}
+
+async function findTenant(column: 'id' | 'slug' | 'custom_domain', value: string): Promise<SiteTenant | null> {
+  const { data, error } = await createClient()
+    .from('tenants')
+    .select('id, slug, custom_domain')
+    .eq(column, value)
+    .maybeSingle()
+
+  if (error) {
+    logger.error('Tenant lookup failed:', error)
+    throw new Error('Tenant lookup failed')
+  }
+
+  return data
+    ? { id: data.id, slug: data.slug, customDomain: data.custom_domain }
+    : null
+}
+
+/**
+ * Find a tenant by its URL slug, or null if there is none
+ */
+export async function getTenantBySlug(slug: string): Promise<SiteTenant | null> {
+  const key = slug.toLowerCase()
+  return cached(`site:slug:${key}`, () => findTenant('slug', key))
+}
+
+/**
+ * Find the tenant whose custom_domain matches a request host, or null if there is none
+ */
+export async function getTenantByDomain(domain: string): Promise<SiteTenant | null> {
+  const key = domain.toLowerCase().replace(/\.$/, '')
+  return cached(`site:domain:${key}`, () => findTenant('custom_domain', key))
+}
+
+/**
+ * Find a tenant by id, used to build public URLs in the builder
+ */
+export async function getTenantById(tenantId: string): Promise<SiteTenant | null> {
+  return cached(`site:id:${tenantId}`, () => findTenant('id', tenantId))
+}
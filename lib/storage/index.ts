@@ -0,0 +1,44 @@
+import { VercelBlobAdapter } from './vercel-blob-adapter'
+import { LocalFsAdapter } from './local-fs-adapter'
+import type { StorageAdapter } from './types'
+
+export type {
+  StorageAdapter,
+  StoredObject,
+  StorageBody,
+  PutOptions,
+  ListOptions,
+  ListResult,
+  ObjectContent
+} from './types'
+export { VercelBlobAdapter } from './vercel-blob-adapter'
+export { LocalFsAdapter } from './local-fs-adapter'
+export { listAll, listFolder, hasObjects } from './list-all'
+
+let storage: StorageAdapter | null = null
+
+/**
+ * Get the storage adapter selected by STORAGE_DRIVER
+ * - "vercel-blob" (default) uses Vercel Blob
+ * - "local" stores files under LOCAL_STORAGE_DIR (defaults to ./.storage)
+ */
+export function getStorage(): StorageAdapter {
+  if (storage) {
+    return storage
+  }
+
+  const driver = process.env.STORAGE_DRIVER || 'vercel-blob'
+
+  switch (driver) {
+    case 'local':
+      storage = new LocalFsAdapter(process.env.LOCAL_STORAGE_DIR || '.storage')
+      break
+    case 'vercel-blob':
+      storage = new VercelBlobAdapter()
+      break
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`)
+  }
+
+  return storage
+}
@@ -0,0 +1,53 @@
+import type { StorageAdapter, StoredObject } from './types'
+
+/**
+ * Listing helpers that follow pagination cursors
+ * A single list() call only returns one page, which silently truncates
+ * large tenants; use these whenever every matching object is needed
+ */
+
+/**
+ * List every object under a prefix, across all pages
+ */
+export async function listAll(storage: StorageAdapter, prefix: string): Promise<StoredObject[]> {
+  const objects: StoredObject[] = []
+  let cursor: string | undefined
+
+  do {
+    const page = await storage.list({ prefix, cursor })
+    objects.push(...page.objects)
+    cursor = page.hasMore ? page.cursor : undefined
+  } while (cursor)
+
+  return objects
+}
+
+/**
+ * List the direct children of a folder prefix, across all pages
+ * Returns files in the folder and the prefixes of its subfolders
+ */
+export async function listFolder(
+  storage: StorageAdapter,
+  prefix: string
+): Promise<{ objects: StoredObject[]; folders: string[] }> {
+  const objects: StoredObject[] = []
+  const folders: string[] = []
+  let cursor: string | undefined
+
+  do {
+    const page = await storage.list({ prefix, cursor, mode: 'folded' })
+    objects.push(...page.objects)
+    folders.push(...(page.folders || []))
+    cursor = page.hasMore ? page.cursor : undefined
+  } while (cursor)
+
+  return { objects, folders }
+}
+
+/**
+ * Check whether anything is stored under a prefix without listing it all
+ */
+export async function hasObjects(storage: StorageAdapter, prefix: string): Promise<boolean> {
+  const { objects } = await storage.list({ prefix, limit: 1 })
+  return objects.length > 0
+}
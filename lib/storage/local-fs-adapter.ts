@@ -0,0 +1,207 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { getApiUrl } from '@/lib/utils/api'
+import type {
+  StorageAdapter,
+  StoredObject,
+  StorageBody,
+  PutOptions,
+  ListOptions,
+  ListResult,
+  ObjectContent
+} from './types'
+
+interface ObjectMeta {
+  contentType?: string
+}
+
+const DEFAULT_LIST_LIMIT = 1000
+
+/**
+ * Storage adapter backed by a directory on the local filesystem
+ * Object content lives under <root>/objects and per-object metadata
+ * (content type) under <root>/meta, mirroring the object pathnames
+ */
+export class LocalFsAdapter implements StorageAdapter {
+  readonly name = 'local'
+  private objectsDir: string
+  private metaDir: string
+
+  constructor(rootDir: string) {
+    const root = path.resolve(rootDir)
+    this.objectsDir = path.join(root, 'objects')
+    this.metaDir = path.join(root, 'meta')
+  }
+
+  async put(pathname: string, body: StorageBody, options: PutOptions = {}): Promise<StoredObject> {
+    const filePath = this.resolve(this.objectsDir, pathname)
+    const metaPath = this.resolve(this.metaDir, `${pathname}.json`)
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.mkdir(path.dirname(metaPath), { recursive: true })
+    await fs.writeFile(filePath, await toBuffer(body))
+    await fs.writeFile(metaPath, JSON.stringify({ contentType: options.contentType } satisfies ObjectMeta))
+
+    return (await this.head(pathname))!
+  }
+
+  async head(pathname: string): Promise<StoredObject | null> {
+    const filePath = this.resolve(this.objectsDir, pathname)
+
+    try {
+      const stats = await fs.stat(filePath)
+      if (!stats.isFile()) {
+        return null
+      }
+      const meta = await this.readMeta(pathname)
+      return this.toObject(pathname, stats.size, stats.mtime, meta.contentType)
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async list(options: ListOptions): Promise<ListResult> {
+    const limit = options.limit ?? DEFAULT_LIST_LIMIT
+    const offset = options.cursor ? parseInt(options.cursor, 10) || 0 : 0
+
+    let entries = (await this.walk(this.objectsDir, ''))
+      .filter(pathname => pathname.startsWith(options.prefix))
+
+    if (options.mode === 'folded') {
+      // Collapse anything below a direct child folder into a single "folder/" entry
+      entries = Array.from(new Set(entries.map(pathname => {
+        const slash = pathname.indexOf('/', options.prefix.length)
+        return slash === -1 ? pathname : pathname.slice(0, slash + 1)
+      })))
+    }
+    entries.sort()
+
+    const page = entries.slice(offset, offset + limit)
+    const objects = await Promise.all(page.filter(entry => !entry.endsWith('/')).map(async pathname => {
+      const stats = await fs.stat(this.resolve(this.objectsDir, pathname))
+      return this.toObject(pathname, stats.size, stats.mtime)
+    }))
+
+    const hasMore = offset + limit < entries.length
+    return {
+      objects,
+      folders: options.mode === 'folded' ? page.filter(entry => entry.endsWith('/')) : undefined,
+      cursor: hasMore ? String(offset + limit) : undefined,
+      hasMore
+    }
+  }
+
+  async read(pathname: string): Promise<ObjectContent | null> {
+    const object = await this.head(pathname)
+    if (!object) {
+      return null
+    }
+
+    const data = await fs.readFile(this.resolve(this.objectsDir, pathname))
+    const body = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer
+    return { object, body }
+  }
+
+  async readText(pathname: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.resolve(this.objectsDir, pathname), 'utf8')
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async copy(fromPathname: string, toPathname: string): Promise<StoredObject> {
+    const source = await this.read(fromPathname)
+    if (!source) {
+      throw new Error(`Source not found: ${fromPathname}`)
+    }
+    return this.put(toPathname, source.body, { contentType: source.object.contentType })
+  }
+
+  async delete(pathnames: string | string[]): Promise<void> {
+    const targets = Array.isArray(pathnames) ? pathnames : [pathnames]
+
+    for (const pathname of targets) {
+      await fs.rm(this.resolve(this.objectsDir, pathname), { force: true })
+      await fs.rm(this.resolve(this.metaDir, `${pathname}.json`), { force: true })
+    }
+  }
+
+  /**
+   * Resolve a pathname inside a base directory, refusing anything that escapes it
+   */
+  private resolve(baseDir: string, pathname: string): string {
+    const resolved = path.resolve(baseDir, pathname)
+    if (!resolved.startsWith(baseDir + path.sep)) {
+      throw new Error(`Invalid storage pathname: ${pathname}`)
+    }
+    return resolved
+  }
+
+  private async readMeta(pathname: string): Promise<ObjectMeta> {
+    try {
+      const raw = await fs.readFile(this.resolve(this.metaDir, `${pathname}.json`), 'utf8')
+      return JSON.parse(raw) as ObjectMeta
+    } catch {
+      return {}
+    }
+  }
+
+  private async walk(dir: string, relative: string): Promise<string[]> {
+    let entries
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true })
+    } catch (error) {
+      if (isNotFound(error)) {
+        return []
+      }
+      throw error
+    }
+
+    const results: string[] = []
+    for (const entry of entries) {
+      const entryRelative = relative ? `${relative}/${entry.name}` : entry.name
+      if (entry.isDirectory()) {
+        results.push(...await this.walk(path.join(dir, entry.name), entryRelative))
+      } else if (entry.isFile()) {
+        results.push(entryRelative)
+      }
+    }
+    return results
+  }
+
+  private toObject(pathname: string, size: number, uploadedAt: Date, contentType?: string): StoredObject {
+    return {
+      pathname,
+      url: getApiUrl(`/api/storage/${pathname.split('/').map(encodeURIComponent).join('/')}`),
+      size,
+      uploadedAt,
+      contentType
+    }
+  }
+}
+
+async function toBuffer(body: StorageBody): Promise<Buffer> {
+  if (typeof body === 'string') {
+    return Buffer.from(body, 'utf8')
+  }
+  if (body instanceof Blob) {
+    return Buffer.from(await body.arrayBuffer())
+  }
+  if (Buffer.isBuffer(body)) {
+    return body
+  }
+  return Buffer.from(body)
+}
+
+// ENOTDIR: a path below an existing file, e.g. about.html/index.html
+function isNotFound(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException)?.code
+  return code === 'ENOENT' || code === 'ENOTDIR'
+}
@@ -0,0 +1,78 @@
+/**
+ * Storage abstraction for tenant files
+ * Every file route and AI tool goes through a StorageAdapter so the
+ * builder can run against Vercel Blob or a plain local directory
+ */
+
+/**
+ * Metadata for a single stored object
+ */
+export interface StoredObject {
+  pathname: string
+  url: string
+  size: number
+  uploadedAt: Date
+  contentType?: string
+}
+
+/**
+ * Anything that can be written to storage
+ */
+export type StorageBody = string | Blob | ArrayBuffer | Buffer
+
+export interface PutOptions {
+  contentType?: string
+}
+
+export interface ListOptions {
+  prefix: string
+  limit?: number
+  cursor?: string
+  /**
+   * "expanded" (default) returns every object under the prefix
+   * "folded" returns only direct children, with subfolders collapsed into `folders`
+   */
+  mode?: 'expanded' | 'folded'
+}
+
+export interface ListResult {
+  objects: StoredObject[]
+  /** Subfolder prefixes ending in "/", only set in folded mode */
+  folders?: string[]
+  cursor?: string
+  hasMore: boolean
+}
+
+/**
+ * Raw object content together with its metadata
+ */
+export interface ObjectContent {
+  object: StoredObject
+  body: ArrayBuffer
+}
+
+export interface StorageAdapter {
+  /** Short identifier of the backend, e.g. "vercel-blob" or "local" */
+  readonly name: string
+
+  /** Write an object, overwriting anything already stored at the pathname */
+  put(pathname: string, body: StorageBody, options?: PutOptions): Promise<StoredObject>
+
+  /** Look up an object by exact pathname, or null if it does not exist */
+  head(pathname: string): Promise<StoredObject | null>
+
+  /** List objects whose pathname starts with the prefix, in lexicographic order */
+  list(options: ListOptions): Promise<ListResult>
+
+  /** Read an object's raw content, or null if it does not exist */
+  read(pathname: string): Promise<ObjectContent | null>
+
+  /** Read an object's content as UTF-8 text, or null if it does not exist */
+  readText(pathname: string): Promise<string | null>
+
+  /** Copy an object to a new pathname, keeping its content type */
+  copy(fromPathname: string, toPathname: string): Promise<StoredObject>
+
+  /** Delete one or more objects by pathname; missing objects are ignored */
+  delete(pathnames: string | string[]): Promise<void>
+}
@@ -0,0 +1,128 @@
+import { put, del, list, copy, head, BlobNotFoundError } from '@vercel/blob'
+import type {
+  StorageAdapter,
+  StoredObject,
+  StorageBody,
+  PutOptions,
+  ListOptions,
+  ListResult,
+  ObjectContent
+} from './types'
+
+/**
+ * Storage adapter backed by Vercel Blob
+ * Uses BLOB_READ_WRITE_TOKEN from the environment like the SDK itself
+ */
+export class VercelBlobAdapter implements StorageAdapter {
+  readonly name = 'vercel-blob'
+
+  async put(pathname: string, body: StorageBody, options: PutOptions = {}): Promise<StoredObject> {
+    const size = typeof body === 'string'
+      ? Buffer.byteLength(body)
+      : body instanceof Blob ? body.size : body.byteLength
+
+    const blob = await put(pathname, body, {
+      access: 'public',
+      contentType: options.contentType,
+      addRandomSuffix: false,
+      allowOverwrite: true
+    })
+
+    return {
+      pathname: blob.pathname,
+      url: blob.url,
+      size,
+      uploadedAt: new Date(),
+      contentType: blob.contentType
+    }
+  }
+
+  async head(pathname: string): Promise<StoredObject | null> {
+    try {
+      const blob = await head(pathname)
+      return {
+        pathname: blob.pathname,
+        url: blob.url,
+        size: blob.size,
+        uploadedAt: blob.uploadedAt,
+        contentType: blob.contentType
+      }
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async list(options: ListOptions): Promise<ListResult> {
+    const result = await list({
+      prefix: options.prefix,
+      limit: options.limit,
+      cursor: options.cursor,
+      mode: options.mode
+    })
+    const { blobs, cursor, hasMore } = result
+
+    return {
+      objects: blobs.map(blob => ({
+        pathname: blob.pathname,
+        url: blob.url,
+        size: blob.size,
+        uploadedAt: blob.uploadedAt
+      })),
+      folders: 'folders' in result ? result.folders : undefined,
+      cursor,
+      hasMore
+    }
+  }
+
+  async read(pathname: string): Promise<ObjectContent | null> {
+    const object = await this.head(pathname)
+    if (!object) {
+      return null
+    }
+
+    const response = await fetch(object.url, { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error(`Failed to fetch blob: ${response.status}`)
+    }
+
+    return { object, body: await response.arrayBuffer() }
+  }
+
+  async readText(pathname: string): Promise<string | null> {
+    const content = await this.read(pathname)
+    return content ? new TextDecoder().decode(content.body) : null
+  }
+
+  async copy(fromPathname: string, toPathname: string): Promise<StoredObject> {
+    const source = await this.head(fromPathname)
+    if (!source) {
+      throw new Error(`Source not found: ${fromPathname}`)
+    }
+
+    const blob = await copy(source.url, toPathname, {
+      access: 'public',
+      contentType: source.contentType,
+      addRandomSuffix: false,
+      allowOverwrite: true
+    })
+
+    return {
+      pathname: blob.pathname,
+      url: blob.url,
+      size: source.size,
+      uploadedAt: new Date(),
+      contentType: blob.contentType
+    }
+  }
+
+  async delete(pathnames: string | string[]): Promise<void> {
+    const targets = Array.isArray(pathnames) ? pathnames : [pathnames]
+    if (targets.length === 0) {
+      return
+    }
+    await del(targets)
+  }
+}
@@ -8,6 +8,9 @@ export interface FileNode {
   children?: FileNode[]
   isPublished?: boolean
   publicUrl?: string
+  publishStatus?: 'draft' | 'published' | 'scheduled'
+  publishAt?: string | null
+  unpublishAt?: string | null
 }
 
 export interface UserInfo {
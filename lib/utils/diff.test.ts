@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { diffLines, summarizeDiff, MAX_DIFF_CELLS } from './diff'
+
+describe('diffLines', () => {
+  it('marks changed lines and keeps the rest', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'equal', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'remove', text: 'b', oldLine: 2 },
+      { type: 'add', text: 'x', newLine: 2 },
+      { type: 'equal', text: 'c', oldLine: 3, newLine: 3 }
+    ])
+  })
+
+  it('replaces the whole changed block when it is too big to diff', () => {
+    const size = Math.ceil(Math.sqrt(MAX_DIFF_CELLS)) + 1
+    const oldText = ['head', ...Array.from({ length: size }, (_, i) => `old ${i}`), 'tail'].join('\n')
+    const newText = ['head', ...Array.from({ length: size }, (_, i) => i % 2 ? `old ${i}` : `new ${i}`), 'tail'].join('\n')
+
+    const lines = diffLines(oldText, newText)
+
+    expect(summarizeDiff(lines)).toEqual({ added: size, removed: size })
+    expect(lines[0]).toMatchObject({ type: 'equal', text: 'head' })
+    expect(lines[1]).toMatchObject({ type: 'remove', text: 'old 0' })
+    expect(lines[size + 1]).toMatchObject({ type: 'add', text: 'new 0' })
+    expect(lines[lines.length - 1]).toMatchObject({ type: 'equal', text: 'tail' })
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * Line-based text diff used by file version history
+ */
+
+export interface DiffLine {
+  type: 'equal' | 'add' | 'remove'
+  text: string
+  oldLine?: number
+  newLine?: number
+}
+
+export interface DiffSummary {
+  added: number
+  removed: number
+}
+
+// Largest LCS table worth building; about 16 MB of numbers, bigger changes are shown as a whole-block replace
+export const MAX_DIFF_CELLS = 4_000_000
+
+/**
+ * Diff two texts line by line using a longest common subsequence
+ * Common leading and trailing lines are matched first to keep the table small;
+ * when the changed block is still too big it is diffed as removed, then added
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split('\n')
+  const newLines = newText.split('\n')
+
+  let start = 0
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++
+  }
+
+  let oldEnd = oldLines.length
+  let newEnd = newLines.length
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--
+    newEnd--
+  }
+
+  const oldMiddle = oldLines.slice(start, oldEnd)
+  const newMiddle = newLines.slice(start, newEnd)
+
+  // lcs[i][j] = length of the LCS of oldMiddle[i:] and newMiddle[j:]
+  const lcs: number[][] | null = (oldMiddle.length + 1) * (newMiddle.length + 1) <= MAX_DIFF_CELLS
+    ? Array.from({ length: oldMiddle.length + 1 }, () => new Array<number>(newMiddle.length + 1).fill(0))
+    : null
+  if (lcs) {
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+      for (let j = newMiddle.length - 1; j >= 0; j--) {
+        lcs[i][j] = oldMiddle[i] === newMiddle[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+      }
+    }
+  }
+
+  const result: DiffLine[] = []
+  for (let k = 0; k < start; k++) {
+    result.push({ type: 'equal', text: oldLines[k], oldLine: k + 1, newLine: k + 1 })
+  }
+
+  let i = 0
+  let j = 0
+  while (i < oldMiddle.length || j < newMiddle.length) {
+    if (lcs && i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+      result.push({ type: 'equal', text: oldMiddle[i], oldLine: start + i + 1, newLine: start + j + 1 })
+      i++
+      j++
+    } else if (i < oldMiddle.length && (!lcs || j === newMiddle.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      result.push({ type: 'remove', text: oldMiddle[i], oldLine: start + i + 1 })
+      i++
+    } else {
+      result.push({ type: 'add', text: newMiddle[j], newLine: start + j + 1 })
+      j++
+    }
+  }
+
+  for (let k = 0; k < oldLines.length - oldEnd; k++) {
+    result.push({ type: 'equal', text: oldLines[oldEnd + k], oldLine: oldEnd + k + 1, newLine: newEnd + k + 1 })
+  }
+
+  return result
+}
+
+/**
+ * Count added and removed lines in a diff
+ */
+export function summarizeDiff(lines: DiffLine[]): DiffSummary {
+  return lines.reduce(
+    (summary, line) => {
+      if (line.type === 'add') summary.added++
+      if (line.type === 'remove') summary.removed++
+      return summary
+    },
+    { added: 0, removed: 0 }
+  )
+}
+
+/**
+ * Combine two versions of a text, wrapping every differing block in
+ * git-style conflict markers so the user can resolve them by hand
+ */
+export function mergeWithConflictMarkers(
+  theirs: string,
+  mine: string,
+  labels: { theirs: string; mine: string } = { theirs: 'server', mine: 'yours' }
+): string {
+  const output: string[] = []
+  let removed: string[] = []
+  let added: string[] = []
+
+  const flush = () => {
+    if (removed.length === 0 && added.length === 0) return
+    output.push(`<<<<<<< ${labels.theirs}`, ...removed, '=======', ...added, `>>>>>>> ${labels.mine}`)
+    removed = []
+    added = []
+  }
+
+  for (const line of diffLines(theirs, mine)) {
+    if (line.type === 'equal') {
+      flush()
+      output.push(line.text)
+    } else if (line.type === 'remove') {
+      removed.push(line.text)
+    } else {
+      added.push(line.text)
+    }
+  }
+  flush()
+
+  return output.join('\n')
+}
@@ -70,12 +70,19 @@ export function createLogger(appName: string) {
   }
 }
 
+/**
+ * Escape a string for literal use inside a RegExp
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
 /**
  * Path building utilities for file operations
  * Handles tenant isolation and path cleaning
  */
 export class PathBuilder {
-  constructor(private tenantId: string) {}
+  constructor(protected tenantId: string) {}
   
   /**
    * Build a full path with tenant isolation
@@ -87,7 +94,7 @@ export class PathBuilder {
       // Clean the folder path - remove tenant ID if it's duplicated
       let cleanFolder = currentFolder.replace(/^\/+|\/+$/g, '')
       // Remove tenant ID if it's at the beginning of the folder path
-      cleanFolder = cleanFolder.replace(new RegExp(`^${this.tenantId}/?`), '')
+      cleanFolder = cleanFolder.replace(new RegExp(`^${escapeRegExp(this.tenantId)}/?`), '')
       if (cleanFolder) {
         parts.push(cleanFolder)
       }
@@ -97,7 +104,7 @@ export class PathBuilder {
       // Clean the filename - remove any path parts and tenant ID
       let cleanFilename = filename.replace(/^\/+/, '')
       // If filename contains tenant ID, remove it
-      cleanFilename = cleanFilename.replace(new RegExp(`^${this.tenantId}/?`), '')
+      cleanFilename = cleanFilename.replace(new RegExp(`^${escapeRegExp(this.tenantId)}/?`), '')
       // Also remove any folder path from filename if it's already in currentFolder
       if (currentFolder && currentFolder !== '/' && cleanFilename.includes('/')) {
         cleanFilename = cleanFilename.split('/').pop() || cleanFilename
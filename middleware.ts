@@ -1,5 +1,28 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { isPublicSitePath } from '@/lib/site/public-paths'
+import { classifySiteHost } from '@/lib/site/hosts'
+import {
+  verifyGatewaySignature,
+  getGatewaySigningSecret,
+  signedRequestPath,
+  GatewaySignatureError,
+  GATEWAY_IDENTITY_HEADERS,
+  GATEWAY_VERIFIED_HEADER
+} from '@/lib/auth/gateway-signature'
+import { logger } from '@/lib/utils/logger'
+
+/**
+ * Copy of the request headers without gateway identity headers
+ * Only a verified gateway request may say who the user is
+ */
+function withoutIdentityHeaders(headers: Headers): Headers {
+  const requestHeaders = new Headers(headers)
+  for (const name of [...GATEWAY_IDENTITY_HEADERS, GATEWAY_VERIFIED_HEADER]) {
+    requestHeaders.delete(name)
+  }
+  return requestHeaders
+}
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl
@@ -9,11 +32,54 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next()
   }
 
-  // Check if proxied from NUMgate (trust these headers completely)
+  // Check if proxied from NUMgate; its identity headers are only trusted once signed
   const isProxied = request.headers.get('x-proxied-from') === 'numgate'
-  
+
+  // Tenant sites on their own host: {slug} subdomains and custom domains
+  // are served without gateway auth by rewriting to the site routes
+  const siteHost = classifySiteHost(request.headers.get('host'), isProxied)
+  if (siteHost) {
+    const host = siteHost.type === 'subdomain' ? siteHost.slug : siteHost.domain
+    const requestHeaders = withoutIdentityHeaders(request.headers)
+    requestHeaders.set('x-site-host', host)
+
+    const url = request.nextUrl.clone()
+    url.pathname = siteHost.type === 'subdomain'
+      ? `/${siteHost.slug}${pathname}`
+      : `/sites/${siteHost.domain}${pathname}`
+
+    return NextResponse.rewrite(url, { request: { headers: requestHeaders } })
+  }
+
+  // The builder's own static images need no auth
+  if (/\.(png|jpg|svg)$/.test(pathname) && !pathname.startsWith('/api/') && !isPublicSitePath(pathname)) {
+    return NextResponse.next({ request: { headers: withoutIdentityHeaders(request.headers) } })
+  }
+
+  // Scheduled jobs authenticate with CRON_SECRET in the route itself
+  if (pathname.startsWith('/api/cron/')) {
+    return NextResponse.next({ request: { headers: withoutIdentityHeaders(request.headers) } })
+  }
+
+  // Published tenant sites are public and never go through gateway auth
+  if (isPublicSitePath(pathname)) {
+    const requestHeaders = withoutIdentityHeaders(request.headers)
+    requestHeaders.delete('x-site-host')
+    return NextResponse.next({ request: { headers: requestHeaders } })
+  }
+
   if (isProxied) {
-    // Trust NUMgate's authentication - it already validated the JWT
+    // NUMgate already validated the JWT; the signature proves the headers came from it
+    const secret = getGatewaySigningSecret()
+
+    if (!secret && process.env.NODE_ENV === 'production') {
+      logger.error('GATEWAY_SIGNING_SECRET is not set, refusing gateway requests')
+      return NextResponse.json(
+        { error: 'Gateway authentication is not configured' },
+        { status: 503 }
+      )
+    }
+
     const tenantId = request.headers.get('x-tenant-id')
     const userId = request.headers.get('x-user-id')
     
@@ -25,8 +91,30 @@ export async function middleware(request: NextRequest) {
       )
     }
     
-    // Request is authenticated via proxy - just pass through
-    return NextResponse.next()
+    const requestHeaders = new Headers(request.headers)
+    requestHeaders.delete(GATEWAY_VERIFIED_HEADER)
+
+    // One id per request, so audit entries can be traced back to it
+    if (!requestHeaders.get('x-request-id')) {
+      requestHeaders.set('x-request-id', crypto.randomUUID())
+    }
+
+    if (secret) {
+      try {
+        await verifyGatewaySignature(request.headers, request.method, signedRequestPath(request.nextUrl), secret)
+      } catch (error) {
+        if (!(error instanceof GatewaySignatureError)) throw error
+        logger.warn('Gateway signature rejected:', { reason: error.message, method: request.method, pathname })
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        )
+      }
+      requestHeaders.set(GATEWAY_VERIFIED_HEADER, '1')
+    }
+
+    // Request is authenticated via proxy - pass through
+    return NextResponse.next({ request: { headers: requestHeaders } })
   }
 
   // For direct access (development/testing only)
@@ -52,7 +140,10 @@ export async function middleware(request: NextRequest) {
   try {
     // Simple check - we don't need full JWT validation here
     // Just ensure token exists for development
-    const requestHeaders = new Headers(request.headers)
+    // Outside development nothing but a signed gateway request may carry identity headers
+    const requestHeaders = process.env.NODE_ENV === 'production'
+      ? withoutIdentityHeaders(request.headers)
+      : new Headers(request.headers)
     // In dev, we can decode the token without full validation
     // Real validation happens in NUMgate
     
@@ -68,10 +159,13 @@ export async function middleware(request: NextRequest) {
 }
 
 export const config = {
+  // Node.js runtime for the signature check (crypto) and the Redis nonce store
+  runtime: 'nodejs',
   matcher: [
     /*
-     * Match all request paths except static files
+     * Match all request paths except Next.js build assets
+     * Images are matched too so tenant sites on their own host can serve them
      */
-    '/((?!_next/static|_next/image|favicon.ico|.*\\.png|.*\\.jpg|.*\\.svg|public).*)',
+    '/((?!_next/static|_next/image|favicon.ico).*)',
   ],
 }
\ No newline at end of file
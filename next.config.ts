@@ -14,6 +14,9 @@ const nextConfig: NextConfig = {
   
   // Disable trailing slash enforcement
   skipTrailingSlashRedirect: true,
+
+  // The image encoder loads its .wasm files from node_modules at runtime
+  serverExternalPackages: ['wasm-vips'],
 };
 
 export default nextConfig;